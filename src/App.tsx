@@ -2,12 +2,29 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "./context/AuthContext";
 import ProtectedRoute from "./components/ProtectedRoute";
 import Login from "./pages/Login";
+import Register from "./pages/Register";
+import VerifyEmail from "./pages/VerifyEmail";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
 import Home from "./pages/Home";
 import DashboardLayout from "./layouts/DashboardLayout";
 import ChatPage from "./pages/ChatPage";
 import BillingPage from "./pages/BillingPage";
+import CheckoutReturnPage from "./pages/CheckoutReturnPage";
+import UsagePage from "./pages/UsagePage";
+import BudgetsPage from "./pages/BudgetsPage";
 import HistoryPage from "./pages/HistoryPage";
+import SettingsPage from "./pages/SettingsPage";
+import SecurityPage from "./pages/SecurityPage";
+import ApiKeysPage from "./pages/ApiKeysPage";
+import WorkspacePage from "./pages/WorkspacePage";
+import InvitePage from "./pages/InvitePage";
+import SharePage from "./pages/SharePage";
+import PersonasPage from "./pages/PersonasPage";
+import PromptsPage from "./pages/PromptsPage";
 import { ChatResetProvider } from "./context/ChatResetContext";
+import { JobsProvider } from "./context/JobsContext";
+import { WorkspaceProvider } from "./context/WorkspaceContext";
 import TTSPage from "./pages/TTSPage";
 import ImagePage from "./pages/ImagePage";
 import AvatarPage from "./pages/AvatarPage";
@@ -16,32 +33,52 @@ function App() {
   return (
     <BrowserRouter>
       <AuthProvider>
-        <ChatResetProvider>
-          <Routes>
-            <Route path="/" element={<Home />} />
-            <Route path="/login" element={<Login />} />
+        <WorkspaceProvider>
+          <JobsProvider>
+            <ChatResetProvider>
+              <Routes>
+                <Route path="/" element={<Home />} />
+                <Route path="/login" element={<Login />} />
+                <Route path="/register" element={<Register />} />
+                <Route path="/verify-email" element={<VerifyEmail />} />
+                <Route path="/forgot-password" element={<ForgotPassword />} />
+                <Route path="/reset-password" element={<ResetPassword />} />
+                <Route path="/share/:token" element={<SharePage />} />
 
-            {/* Protected Dashboard Routes */}
-            <Route
-              path="/dashboard"
-              element={
-                <ProtectedRoute>
-                  <DashboardLayout />
-                </ProtectedRoute>
-              }
-            >
-              <Route index element={<ChatPage />} />
-              <Route path="chat/:chatId" element={<ChatPage />} />
-              <Route path="history" element={<HistoryPage />} />
-              <Route path="tts" element={<TTSPage />} />
-              <Route path="images" element={<ImagePage />} />
-              <Route path="avatar" element={<AvatarPage />} />
-              <Route path="billing" element={<BillingPage />} />
-            </Route>
+                {/* Protected Dashboard Routes */}
+                <Route
+                  path="/dashboard"
+                  element={
+                    <ProtectedRoute>
+                      <DashboardLayout />
+                    </ProtectedRoute>
+                  }
+                >
+                  <Route index element={<ChatPage />} />
+                  <Route path="chat/:chatId" element={<ChatPage />} />
+                  <Route path="history" element={<HistoryPage />} />
+                  <Route path="personas" element={<PersonasPage />} />
+                  <Route path="prompts" element={<PromptsPage />} />
+                  <Route path="tts" element={<TTSPage />} />
+                  <Route path="images" element={<ImagePage />} />
+                  <Route path="avatar" element={<AvatarPage />} />
+                  <Route path="billing" element={<BillingPage />} />
+                  <Route path="billing/usage" element={<UsagePage />} />
+                  <Route path="billing/budgets" element={<BudgetsPage />} />
+                  <Route path="billing/success" element={<CheckoutReturnPage outcome="success" />} />
+                  <Route path="billing/cancel" element={<CheckoutReturnPage outcome="cancel" />} />
+                  <Route path="settings" element={<SettingsPage />} />
+                  <Route path="settings/security" element={<SecurityPage />} />
+                  <Route path="settings/workspace" element={<WorkspacePage />} />
+                  <Route path="settings/api-keys" element={<ApiKeysPage />} />
+                  <Route path="invite/:token" element={<InvitePage />} />
+                </Route>
 
-            <Route path="*" element={<Navigate to="/" />} />
-          </Routes>
-        </ChatResetProvider>
+                <Route path="*" element={<Navigate to="/" />} />
+              </Routes>
+            </ChatResetProvider>
+          </JobsProvider>
+        </WorkspaceProvider>
       </AuthProvider>
     </BrowserRouter>
   );
@@ -0,0 +1,16 @@
+import api from "./client";
+import { unwrap } from "./errors";
+import type { ApiKey, ApiKeyCreateRequest, ApiKeyWithSecret } from "./types";
+
+export const listApiKeys = () =>
+  unwrap(api.get<ApiKey[]>("/api-keys"));
+
+export const createApiKey = (body: ApiKeyCreateRequest) =>
+  unwrap(api.post<ApiKeyWithSecret>("/api-keys", body));
+
+// Issues a new secret; the old one stops working immediately
+export const rotateApiKey = (keyId: string) =>
+  unwrap(api.post<ApiKeyWithSecret>(`/api-keys/${keyId}/rotate`));
+
+export const revokeApiKey = (keyId: string) =>
+  unwrap(api.delete<void>(`/api-keys/${keyId}`));
@@ -0,0 +1,54 @@
+import api from "./client";
+import { unwrap } from "./errors";
+import { getDeviceToken } from "./token";
+import type {
+  LoginRequest,
+  LoginResponse,
+  PasswordResetConfirm,
+  RegisterRequest,
+  TokenResponse,
+  TwoFactorChallenge,
+  TwoFactorVerifyRequest,
+  VerificationSent,
+} from "./types";
+
+// Sends the remembered-device token, if any, so 2FA can be skipped
+export const loginWithPassword = (body: LoginRequest) =>
+  unwrap(
+    api.post<LoginResponse>("/auth/login", {
+      ...body,
+      device_token: body.device_token ?? getDeviceToken() ?? undefined,
+    })
+  );
+
+export const isTwoFactorChallenge = (res: LoginResponse): res is TwoFactorChallenge =>
+  "two_factor_required" in res && res.two_factor_required;
+
+// Second login step; returns tokens once the code checks out
+export const verifyTwoFactor = (body: TwoFactorVerifyRequest) =>
+  unwrap(api.post<TokenResponse>("/auth/2fa/verify", body));
+
+// Exchange a Google ID token for our own access token
+export const loginWithGoogle = (credential: string) =>
+  unwrap(api.post<TokenResponse>("/auth/google", { token: credential }));
+
+// New accounts must confirm their email before they can sign in
+export const register = (body: RegisterRequest) =>
+  unwrap(api.post<VerificationSent>("/auth/register", body));
+
+// Confirms the emailed link (/verify-email?token=…) and signs the user straight in,
+// or asks for a 2FA code first like login does
+export const verifyEmail = (token: string) =>
+  unwrap(api.post<LoginResponse>("/auth/verify-email", { token }));
+
+export const resendVerification = (email: string) =>
+  unwrap(api.post<VerificationSent>("/auth/verify-email/resend", { email }));
+
+// Always succeeds, so the response can't be used to probe for accounts
+export const requestPasswordReset = (email: string) =>
+  unwrap(api.post<void>("/auth/password-reset", { email }));
+
+// Token comes from the emailed /reset-password?token=… link; signs the user in,
+// or asks for a 2FA code first like login does
+export const confirmPasswordReset = (body: PasswordResetConfirm) =>
+  unwrap(api.post<LoginResponse>("/auth/password-reset/confirm", body));
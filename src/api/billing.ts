@@ -0,0 +1,50 @@
+import api from "./client";
+import { unwrap } from "./errors";
+import type {
+  BudgetSettings,
+  BudgetStatus,
+  CheckoutSession,
+  CheckoutSessionRequest,
+  CheckoutSessionStatus,
+  CreditPack,
+  UsageDailyTotal,
+  UsagePage,
+  UsageQuery,
+} from "./types";
+
+// With VITE_BILLING_MOCK=true the dev server answers these instead of the
+// backend, so the whole purchase flow can be tried without Stripe keys.
+// See mockBilling() in vite.config.ts.
+const BILLING_BASE =
+  import.meta.env.VITE_BILLING_MOCK === "true"
+    ? `${window.location.origin}/__mock/billing`
+    : "/billing";
+
+// Packs
+
+export const listCreditPacks = () =>
+  unwrap(api.get<CreditPack[]>(`${BILLING_BASE}/packs`));
+
+// Checkout
+
+// Creates a Stripe Checkout session; the caller redirects to checkout_url
+export const createCheckoutSession = (body: CheckoutSessionRequest) =>
+  unwrap(api.post<CheckoutSession>(`${BILLING_BASE}/checkout`, body));
+
+export const getCheckoutSession = (sessionId: string) =>
+  unwrap(api.get<CheckoutSessionStatus>(`${BILLING_BASE}/checkout/${sessionId}`));
+
+// Budgets
+
+export const getBudget = () => unwrap(api.get<BudgetStatus>("/billing/budget"));
+
+export const updateBudget = (body: Partial<BudgetSettings>) =>
+  unwrap(api.put<BudgetStatus>("/billing/budget", body));
+
+// Usage
+
+export const listUsage = (params: UsageQuery = {}) =>
+  unwrap(api.get<UsagePage>("/billing/usage", { params }));
+
+export const getUsageSummary = (params: Pick<UsageQuery, "date_from" | "date_to" | "modality" | "api_key_id">) =>
+  unwrap(api.get<UsageDailyTotal[]>("/billing/usage/summary", { params }));
@@ -0,0 +1,6 @@
+import api from "./client";
+import { unwrap } from "./errors";
+import type { ModelCatalog } from "./types";
+
+// Models and voices the backend currently offers, with prices and status
+export const getCatalog = () => unwrap(api.get<ModelCatalog>("/catalog"));
@@ -0,0 +1,109 @@
+import api from "./client";
+import { unwrap } from "./errors";
+import type {
+  ChatExportItem,
+  ChatFolder,
+  ChatHistoryItem,
+  ChatHistoryMessage,
+  ChatSearchPage,
+  ChatSearchParams,
+  ChatShare,
+  ChatShareCreateRequest,
+  ChatUpdateRequest,
+  ChatUploadResponse,
+  SharedChat,
+} from "./types";
+
+export const listChats = () => unwrap(api.get<ChatHistoryItem[]>("/chat/list"));
+
+// Cursor-paginated list, newest first, narrowed by the given filters
+export const searchChats = (params: ChatSearchParams) =>
+  unwrap(api.get<ChatSearchPage>("/chat/search", { params }));
+
+export const getChat = (chatId: string) =>
+  unwrap(api.get<ChatHistoryItem>(`/chat/${chatId}`));
+
+export const getChatHistory = (chatId: string) =>
+  unwrap(api.get<ChatHistoryMessage[]>(`/chat/history/${chatId}`));
+
+export const deleteChat = (chatId: string) =>
+  unwrap(api.delete<void>(`/chat/${chatId}`));
+
+// Rename, pin, archive or move a chat, or change its instructions
+export const updateChat = (chatId: string, body: ChatUpdateRequest) =>
+  unwrap(api.patch<ChatHistoryItem>(`/chat/${chatId}`, body));
+
+// Recreates an exported conversation as a new chat
+export const importChat = (chat: ChatExportItem) =>
+  unwrap(api.post<ChatHistoryItem>("/chat/import", chat));
+
+// Folders
+
+export const listFolders = () => unwrap(api.get<ChatFolder[]>("/chat/folders"));
+
+export const createFolder = (name: string) =>
+  unwrap(api.post<ChatFolder>("/chat/folders", { name }));
+
+export const renameFolder = (folderId: string, name: string) =>
+  unwrap(api.patch<ChatFolder>(`/chat/folders/${folderId}`, { name }));
+
+// Chats in the folder move back to the unfiled list
+export const deleteFolder = (folderId: string) =>
+  unwrap(api.delete<void>(`/chat/folders/${folderId}`));
+
+// Sharing
+
+export const listChatShares = (chatId: string) =>
+  unwrap(api.get<ChatShare[]>(`/chat/${chatId}/shares`));
+
+export const createChatShare = (chatId: string, body: ChatShareCreateRequest) =>
+  unwrap(api.post<ChatShare>(`/chat/${chatId}/shares`, body));
+
+// The link stops working immediately; the conversation itself is untouched
+export const revokeChatShare = (shareId: string) =>
+  unwrap(api.delete<void>(`/chat/shares/${shareId}`));
+
+// Public links need no session; workspace links need a member's token
+export const getSharedChat = (token: string) =>
+  unwrap(api.get<SharedChat>(`/share/${token}`));
+
+// Copies the shared conversation into the caller's own history
+export const forkSharedChat = (token: string) =>
+  unwrap(api.post<ChatHistoryItem>(`/share/${token}/fork`));
+
+export const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+export const uploadChatFiles = (files: File[]) => {
+  const formData = new FormData();
+  files.forEach((file) => formData.append("files", file));
+
+  return unwrap(
+    api.post<ChatUploadResponse>("/chat/upload", formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+    })
+  );
+};
+
+// WebSocket endpoint for streaming chat
+export function chatSocketUrl({
+  token,
+  model,
+  chatId,
+  workspaceId,
+}: {
+  token: string;
+  model: string;
+  chatId?: string | null;
+  // Sockets can't carry the X-Workspace-Id header, so it goes in the query
+  workspaceId?: string | null;
+}) {
+  const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+  const host =
+    window.location.hostname === "localhost"
+      ? "localhost:8000"
+      : "api.multiaimodel.com";
+
+  return `${protocol}://${host}/api/v1/chat/ws?token=${token}&model=${model}${
+    chatId ? `&chat_id=${chatId}` : ""
+  }${workspaceId ? `&workspace_id=${workspaceId}` : ""}`;
+}
@@ -1,4 +1,13 @@
-import axios from 'axios';
+import axios, { isAxiosError, type InternalAxiosRequestConfig } from 'axios';
+import { getAccessToken, getActiveWorkspaceId, getRefreshToken, storeTokens } from './token';
+import type { TokenResponse } from './types';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // The endpoint answers 401 for a wrong code rather than an expired session
+    skipAuthRefresh?: boolean;
+  }
+}
 
 // Create a single axios instance
 const API_BASE = import.meta.env.VITE_API_URL;
@@ -9,13 +18,106 @@ const api = axios.create({
   },
 });
 
-// Request Interceptor: Attaches Token automatically
-api.interceptors.request.use((config) => {
-  const token = localStorage.getItem('access_token');
+// Session callbacks, registered by AuthContext
+type SessionHandlers = {
+  onTokenRefreshed: (accessToken: string) => void;
+  onSessionExpired: () => void;
+};
+
+let sessionHandlers: SessionHandlers | null = null;
+
+export function setSessionHandlers(handlers: SessionHandlers | null) {
+  sessionHandlers = handlers;
+}
+
+// Single in-flight refresh shared by every request that hits a 401
+let refreshPromise: Promise<string> | null = null;
+
+async function requestNewAccessToken() {
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) throw new Error('No refresh token');
+
+  // Plain axios so the refresh call never goes through our own interceptors
+  const res = await axios.post<TokenResponse>(`${API_BASE}/api/v1/auth/refresh`, {
+    refresh_token: refreshToken,
+  });
+  storeTokens(res.data.access_token, res.data.refresh_token);
+  return res.data.access_token;
+}
+
+export function refreshAccessToken(): Promise<string> {
+  if (!refreshPromise) {
+    refreshPromise = requestNewAccessToken()
+      .then((accessToken) => {
+        sessionHandlers?.onTokenRefreshed(accessToken);
+        return accessToken;
+      })
+      .catch((error) => {
+        // A network blip is not an expired session; only a rejected refresh is
+        if (!isAxiosError(error) || error.response) {
+          sessionHandlers?.onSessionExpired();
+        }
+        throw error;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
+// Request Interceptor: Attaches Token and active workspace automatically
+api.interceptors.request.use(async (config) => {
+  // Hold new requests until a pending refresh settles
+  if (refreshPromise) {
+    await refreshPromise.catch(() => undefined);
+  }
+
+  const token = getAccessToken();
   if (token) {
     config.headers.Authorization = `Bearer ${token}`;
   }
+  // Attribute usage and spending to the team workspace picked in the Sidebar
+  const workspaceId = getActiveWorkspaceId();
+  if (workspaceId) {
+    config.headers['X-Workspace-Id'] = workspaceId;
+  }
   return config;
 });
 
-export default api;
\ No newline at end of file
+// Response Interceptor: Refreshes the token once on 401, then replays the request
+type RetriableConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+const isAuthEndpoint = (url?: string) => !!url && url.startsWith('/auth/');
+
+api.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    if (!isAxiosError(error) || error.response?.status !== 401) {
+      return Promise.reject(error);
+    }
+
+    const original = error.config as RetriableConfig | undefined;
+    // Signed-out requests (e.g. public share links) have no session to refresh
+    if (
+      !original ||
+      original._retried ||
+      original.skipAuthRefresh ||
+      isAuthEndpoint(original.url) ||
+      !original.headers.Authorization
+    ) {
+      return Promise.reject(error);
+    }
+    original._retried = true;
+
+    try {
+      const accessToken = await refreshAccessToken();
+      original.headers.Authorization = `Bearer ${accessToken}`;
+      return api(original);
+    } catch {
+      return Promise.reject(error);
+    }
+  }
+);
+
+export default api;
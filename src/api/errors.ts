@@ -0,0 +1,76 @@
+import { isAxiosError, type AxiosResponse } from "axios";
+
+// FastAPI returns either a plain string or a list of validation errors
+type ValidationIssue = { loc?: (string | number)[]; msg: string };
+
+// The one error type thrown by every function in the API layer
+export class ApiError extends Error {
+  status: number | null;
+  data: unknown;
+
+  constructor(message: string, status: number | null, data?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.data = data;
+  }
+
+  get isNetworkError() {
+    return this.status === null;
+  }
+}
+
+const formatDetail = (detail: unknown): string | null => {
+  if (typeof detail === "string") return detail;
+  if (Array.isArray(detail)) {
+    return (detail as ValidationIssue[])
+      .map((issue) => issue.msg)
+      .filter(Boolean)
+      .join(", ");
+  }
+  return null;
+};
+
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (isAxiosError(error)) {
+    const status = error.response?.status ?? null;
+    const data = error.response?.data;
+    const detail =
+      formatDetail((data as { detail?: unknown } | undefined)?.detail) ||
+      error.message ||
+      "Request failed";
+    return new ApiError(detail, status, data);
+  }
+
+  if (error instanceof Error) return new ApiError(error.message, null);
+  return new ApiError("Unexpected error", null);
+}
+
+// Resolve an axios call to its body, normalising failures to ApiError
+export async function unwrap<T>(request: Promise<AxiosResponse<T>>): Promise<T> {
+  try {
+    const res = await request;
+    return res.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+}
+
+// Per-field messages from a 422 response, keyed by the request body field
+export function fieldErrors(error: ApiError): Record<string, string> {
+  const detail = (error.data as { detail?: unknown } | undefined)?.detail;
+  if (!Array.isArray(detail)) return {};
+
+  const fields: Record<string, string> = {};
+  for (const issue of detail as ValidationIssue[]) {
+    const field = issue.loc?.[issue.loc.length - 1];
+    if (typeof field === "string" && !fields[field]) fields[field] = issue.msg;
+  }
+  return fields;
+}
+
+// The server's message for a failed request; the fallback when it never answered
+export const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof ApiError && !err.isNetworkError ? err.message : fallback;
@@ -0,0 +1,64 @@
+import api from "./client";
+import { unwrap } from "./errors";
+import type {
+  AudioFile,
+  AvatarVideo,
+  GenerateAudioRequest,
+  GenerateAvatarRequest,
+  GenerateImageRequest,
+  GenerationTask,
+  GenerationTaskStatus,
+  ImageFile,
+  MediaUploadResponse,
+} from "./types";
+
+// Uploads
+
+export const uploadMedia = (file: File) => {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  return unwrap(
+    api.post<MediaUploadResponse>("/media/upload", formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+    })
+  );
+};
+
+// Tasks
+
+// Progress of a job started by any of the generate endpoints
+export const getTaskStatus = (taskId: string) =>
+  unwrap(api.get<GenerationTaskStatus>(`/media/tasks/${taskId}`));
+
+// Audio (TTS)
+
+export const listAudio = () => unwrap(api.get<AudioFile[]>("/media/list"));
+
+export const generateAudio = (body: GenerateAudioRequest) =>
+  unwrap(api.post<GenerationTask>("/media/generate", body));
+
+export const deleteAudio = (id: string) =>
+  unwrap(api.delete<void>(`/media/audio/${id}`));
+
+// Images
+
+export const listImages = (params?: { limit?: number }) =>
+  unwrap(api.get<ImageFile[]>("/media/images/list", { params }));
+
+export const generateImage = (body: GenerateImageRequest) =>
+  unwrap(api.post<GenerationTask>("/media/generate-image", body));
+
+export const deleteImage = (id: string) =>
+  unwrap(api.delete<void>(`/media/images/${id}`));
+
+// Avatar videos
+
+export const listVideos = () =>
+  unwrap(api.get<AvatarVideo[]>("/media/videos/list"));
+
+export const generateAvatar = (body: GenerateAvatarRequest) =>
+  unwrap(api.post<GenerationTask>("/media/generate-avatar", body));
+
+export const deleteVideo = (id: string) =>
+  unwrap(api.delete<void>(`/media/videos/${id}`));
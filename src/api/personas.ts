@@ -0,0 +1,16 @@
+import api from "./client";
+import { unwrap } from "./errors";
+import type { Persona, PersonaInput } from "./types";
+
+// The user's own personas plus those shared with the active workspace
+export const listPersonas = () => unwrap(api.get<Persona[]>("/personas"));
+
+export const createPersona = (body: PersonaInput) =>
+  unwrap(api.post<Persona>("/personas", body));
+
+export const updatePersona = (personaId: string, body: Partial<PersonaInput>) =>
+  unwrap(api.patch<Persona>(`/personas/${personaId}`, body));
+
+// Chats that used the persona keep their history and fall back to no persona
+export const deletePersona = (personaId: string) =>
+  unwrap(api.delete<void>(`/personas/${personaId}`));
@@ -0,0 +1,15 @@
+import api from "./client";
+import { unwrap } from "./errors";
+import type { PromptTemplate, PromptTemplateInput } from "./types";
+
+// The user's own templates plus those shared with the active workspace
+export const listPrompts = () => unwrap(api.get<PromptTemplate[]>("/prompts"));
+
+export const createPrompt = (body: PromptTemplateInput) =>
+  unwrap(api.post<PromptTemplate>("/prompts", body));
+
+export const updatePrompt = (promptId: string, body: Partial<PromptTemplateInput>) =>
+  unwrap(api.patch<PromptTemplate>(`/prompts/${promptId}`, body));
+
+export const deletePrompt = (promptId: string) =>
+  unwrap(api.delete<void>(`/prompts/${promptId}`));
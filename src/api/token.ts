@@ -0,0 +1,48 @@
+// Token storage shared by the axios client and AuthContext
+
+const ACCESS_TOKEN_KEY = "access_token";
+const REFRESH_TOKEN_KEY = "refresh_token";
+const DEVICE_TOKEN_KEY = "trusted_device";
+const WORKSPACE_KEY = "active_workspace";
+
+export const getAccessToken = () => localStorage.getItem(ACCESS_TOKEN_KEY);
+
+export const getRefreshToken = () => localStorage.getItem(REFRESH_TOKEN_KEY);
+
+export function storeTokens(accessToken: string, refreshToken?: string | null) {
+  localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+  if (refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+}
+
+export function clearTokens() {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(WORKSPACE_KEY);
+}
+
+// Team workspace that requests are billed to; null for the personal account
+export const getActiveWorkspaceId = () => localStorage.getItem(WORKSPACE_KEY);
+
+export function storeActiveWorkspaceId(workspaceId: string | null) {
+  if (workspaceId) localStorage.setItem(WORKSPACE_KEY, workspaceId);
+  else localStorage.removeItem(WORKSPACE_KEY);
+}
+
+// Remembered after a 2FA challenge; deliberately kept across sign-outs
+export const getDeviceToken = () => localStorage.getItem(DEVICE_TOKEN_KEY);
+
+export const storeDeviceToken = (deviceToken: string) =>
+  localStorage.setItem(DEVICE_TOKEN_KEY, deviceToken);
+
+// Reads the JWT `exp` claim; tokens we can't decode are treated as valid
+export function isTokenExpired(token: string, skewSeconds = 30) {
+  try {
+    const payload = JSON.parse(
+      atob(token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/"))
+    );
+    if (typeof payload.exp !== "number") return false;
+    return payload.exp * 1000 <= Date.now() + skewSeconds * 1000;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,687 @@
+// Shared request/response shapes for the backend API.
+// Keep these in sync with the backend schemas: every page imports from here.
+
+// Auth & Users
+
+export interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  token_type?: string;
+  // Issued after a 2FA challenge when the user asked to remember the device
+  device_token?: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+  // A remembered device skips the 2FA challenge until the token expires
+  device_token?: string;
+}
+
+// Returned by /auth/login instead of tokens when the account has 2FA on
+export interface TwoFactorChallenge {
+  two_factor_required: true;
+  challenge_token: string;
+}
+
+export type LoginResponse = TokenResponse | TwoFactorChallenge;
+
+export interface TwoFactorVerifyRequest {
+  challenge_token: string;
+  // A 6-digit authenticator code or one of the recovery codes
+  code: string;
+  remember_device?: boolean;
+}
+
+export interface RegisterRequest {
+  email: string;
+  password: string;
+  full_name?: string;
+}
+
+// Sign-up and resend both answer with where the verification link went
+export interface VerificationSent {
+  email: string;
+}
+
+export interface PasswordResetConfirm {
+  token: string;
+  password: string;
+}
+
+export interface Wallet {
+  credits: number;
+}
+
+export interface NotificationPreferences {
+  // In-app toasts when a background generation finishes
+  job_toasts: boolean;
+  // Desktop notifications while the tab is in the background
+  browser_notifications: boolean;
+  // Header warning when the balance drops below the budget threshold
+  low_balance_alerts: boolean;
+}
+
+// Defaults applied when a page opens; null means "use the catalog default"
+export interface UserPreferences {
+  // A chat model id, or "auto" for smart routing
+  default_chat_model: string | null;
+  default_voice: string | null;
+  default_image_model: string | null;
+  default_image_size: string | null;
+  default_image_quality: string | null;
+  notifications: NotificationPreferences;
+}
+
+export interface User {
+  email: string;
+  full_name?: string;
+  avatar_url?: string | null;
+  wallet?: Wallet;
+  preferences?: Partial<UserPreferences>;
+}
+
+export interface UserUpdateRequest {
+  full_name?: string;
+  avatar_url?: string | null;
+  preferences?: Partial<UserPreferences>;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recovery_codes_remaining: number;
+}
+
+// Secret for a pending enrolment; 2FA stays off until a code confirms it
+export interface TwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+  // QR code of otpauth_url as a data URL, ready for an <img>
+  qr_code: string;
+}
+
+// Shown once; only hashes are kept on the server
+export interface RecoveryCodes {
+  recovery_codes: string[];
+}
+
+// A signed-in device; each login or refresh token chain is one session
+export interface AuthSession {
+  id: string;
+  // Browser and OS parsed from the user agent, e.g. "Chrome on macOS"
+  device: string;
+  ip_address: string | null;
+  // Approximate, from the IP address
+  location: string | null;
+  created_at: string;
+  last_seen_at: string;
+  // The session making this request
+  current: boolean;
+}
+
+// Chat
+
+export type ChatRole = "user" | "ai" | "system";
+
+export interface ChatHistoryItem {
+  id: string;
+  title: string;
+  created_at: string;
+  pinned?: boolean;
+  // Archived chats are left out of the default list
+  archived?: boolean;
+  folder_id?: string | null;
+  persona_id?: string | null;
+  // Instructions for this chat only; null falls back to the persona's prompt
+  system_prompt?: string | null;
+}
+
+// Fields a PATCH on a chat can change
+export type ChatUpdateRequest = Partial<
+  Pick<
+    ChatHistoryItem,
+    "title" | "pinned" | "archived" | "folder_id" | "persona_id" | "system_prompt"
+  >
+>;
+
+export interface ChatFolder {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface Attachment {
+  name: string;
+  type: string;
+  size: number;
+  mime_type?: string;
+}
+
+export type ReasoningEffort = "minimal" | "low" | "medium" | "high";
+
+// Sampling overrides sent with a turn; omitted fields use the model's defaults
+export interface GenerationParams {
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  reasoning_effort?: ReasoningEffort;
+}
+
+export interface ChatHistoryMessage {
+  id?: string;
+  // Message this one follows; siblings under one parent are alternate versions.
+  // Absent on chats stored before branching.
+  parent_id?: string | null;
+  role: ChatRole;
+  content: string;
+  model?: string | null;
+  created_at: string;
+  attachments?: Attachment[];
+  // On replies: the overrides the answer was generated with
+  params?: GenerationParams | null;
+}
+
+// A conversation as written by export and accepted by POST /chat/import
+export interface ChatExportItem {
+  id?: string;
+  title: string;
+  created_at: string;
+  messages: ChatHistoryMessage[];
+}
+
+export interface ChatExportFile {
+  version: 1;
+  exported_at: string;
+  chats: ChatExportItem[];
+}
+
+// Filters for /chat/search; every field is optional
+export interface ChatSearchParams {
+  // Full-text query over titles and message content
+  q?: string;
+  model?: string;
+  // Inclusive calendar dates, YYYY-MM-DD
+  date_from?: string;
+  date_to?: string;
+  // Only archived chats when true; archived chats are excluded otherwise
+  archived?: boolean;
+  folder_id?: string;
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface ChatSearchMatch {
+  // null when only the title matched
+  message_id: string | null;
+  snippet: string;
+}
+
+export interface ChatSearchResult extends ChatHistoryItem {
+  // Models that answered in this conversation
+  models: string[];
+  match?: ChatSearchMatch | null;
+}
+
+// Pinned chats come first, then newest first
+export interface ChatSearchPage {
+  items: ChatSearchResult[];
+  // null on the last page
+  next_cursor: string | null;
+}
+
+export interface UploadedFileMeta {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  mime_type: string;
+}
+
+export interface ChatUploadResponse {
+  // Files that failed server-side processing come back without an id
+  files: (Partial<UploadedFileMeta> & { name: string })[];
+}
+
+// Frames sent by the server over the chat WebSocket.
+// Content deltas carry the reply's message_id and a 1-based seq so a
+// reconnecting client can resume from the last delta it received.
+export type ChatServerFrame =
+  | { type: "content"; message_id: string; seq: number; delta: string }
+  | {
+      type: "system";
+      event:
+        | "chat_id"
+        | "route"
+        | "cost"
+        | "warning"
+        | "cancelled"
+        | "resume_unavailable";
+      payload: string;
+      // Set on `route` and `cost` when several replies stream at once
+      message_id?: string;
+    }
+  | { type: "error"; message: string };
+
+// Frames sent by the client over the chat WebSocket.
+// message_id is null when no delta has arrived yet; the server then targets
+// the chat's in-progress reply.
+export type ChatClientFrame =
+  | {
+      type: "user_message";
+      // Client-generated id, stored by the server as the message id
+      message_id: string;
+      parent_id: string | null;
+      content: string;
+      attachments: UploadedFileMeta[];
+      // The chat's current instructions; a new chat is created with them
+      persona_id: string | null;
+      system_prompt: string | null;
+      params: GenerationParams;
+    }
+  // New answer to an existing user message, stored as a sibling version
+  | { type: "regenerate"; parent_id: string; params: GenerationParams }
+  // Same as user_message, answered by each model as a sibling version
+  | {
+      type: "compare";
+      message_id: string;
+      parent_id: string | null;
+      content: string;
+      attachments: UploadedFileMeta[];
+      persona_id: string | null;
+      system_prompt: string | null;
+      // Valid for every compared model
+      params: GenerationParams;
+      models: string[];
+    }
+  // Marks a comparison answer as the one the conversation continues from
+  | { type: "promote"; message_id: string }
+  | { type: "resume"; message_id: string | null; last_seq: number }
+  | { type: "cancel"; message_id: string | null };
+
+// Sharing
+
+// "public" links open for anyone; "workspace" links only for signed-in members
+export type ChatShareVisibility = "public" | "workspace";
+
+export interface ChatShare {
+  id: string;
+  token: string;
+  visibility: ChatShareVisibility;
+  // The workspace whose members can open a "workspace" link
+  workspace_id: string | null;
+  // When false, attachment names and sizes are left out of the shared view
+  include_attachments: boolean;
+  created_at: string;
+  view_count: number;
+}
+
+export interface ChatShareCreateRequest {
+  visibility: ChatShareVisibility;
+  include_attachments: boolean;
+  workspace_id?: string;
+}
+
+// Read-only copy served at /share/{token}: the newest version of each turn, in order
+export interface SharedChat {
+  title: string;
+  created_at: string;
+  // Display name of whoever created the link
+  shared_by: string | null;
+  visibility: ChatShareVisibility;
+  messages: ChatHistoryMessage[];
+}
+
+// Personas
+
+// Reusable instructions a conversation can start from
+export interface Persona {
+  id: string;
+  name: string;
+  // A single emoji
+  icon: string;
+  system_prompt: string;
+  // Picked when a chat starts with this persona; null keeps the current model
+  default_model: string | null;
+  // null uses the model's default
+  temperature: number | null;
+  // Set when shared with the members of a workspace
+  workspace_id: string | null;
+  // Personas shared by other members are read-only
+  is_owner: boolean;
+  owner_name: string | null;
+  created_at: string;
+}
+
+export type PersonaInput = Pick<
+  Persona,
+  "name" | "icon" | "system_prompt" | "default_model" | "temperature" | "workspace_id"
+>;
+
+// Prompt library
+
+// A reusable prompt; typing "/" plus its command in the chat box inserts it
+export interface PromptTemplate {
+  id: string;
+  title: string;
+  // Lowercase letters, digits and dashes, e.g. "summarize"
+  command: string;
+  category: string;
+  // Text with {{variable}} placeholders filled in before sending
+  body: string;
+  // Set when shared with the members of a workspace
+  workspace_id: string | null;
+  // Templates shared by other members are read-only
+  is_owner: boolean;
+  owner_name: string | null;
+  created_at: string;
+}
+
+export type PromptTemplateInput = Pick<
+  PromptTemplate,
+  "title" | "command" | "category" | "body" | "workspace_id"
+>;
+
+// Catalog
+
+export type CatalogStatus = "available" | "degraded" | "unavailable";
+
+export type CatalogModelKind = "chat" | "image" | "avatar";
+
+export interface ModelCapabilities {
+  vision: boolean;
+  files: boolean;
+  // Max tokens of context; null for non-chat models
+  context_length: number | null;
+  // Generation controls a chat model accepts; absent means not adjustable
+  temperature_range?: [number, number] | null;
+  top_p?: boolean;
+  max_output_tokens?: number | null;
+  reasoning_efforts?: ReasoningEffort[];
+}
+
+// Prices are in credits
+export interface CatalogPrice {
+  // Per 1K tokens for chat models, per 1K characters for voices
+  input_per_1k?: number;
+  output_per_1k?: number;
+  // Per generated image or video
+  per_item?: number;
+  // Factors applied to per_item for generation options, keyed by option value
+  // (e.g. { "hd": 2, "1792x1024": 1.5 }); missing options count as 1
+  multipliers?: Record<string, number>;
+}
+
+export interface CatalogModel {
+  id: string;
+  label: string;
+  kind: CatalogModelKind;
+  // Picker section, e.g. "Intelligence" or "Speed"
+  group: string;
+  provider?: string;
+  capabilities: ModelCapabilities;
+  price: CatalogPrice;
+  status: CatalogStatus;
+  is_default?: boolean;
+}
+
+export interface CatalogVoice {
+  id: string;
+  name: string;
+  // Products the voice can be used in
+  products: ("speech" | "avatar")[];
+  price: CatalogPrice;
+  status: CatalogStatus;
+  is_default?: boolean;
+}
+
+export interface ModelCatalog {
+  models: CatalogModel[];
+  voices: CatalogVoice[];
+}
+
+// Media
+
+export interface GenerationTask {
+  task_id: string;
+}
+
+export type GenerationKind = "audio" | "image" | "avatar";
+
+export type GenerationStatus = "queued" | "processing" | "completed" | "failed";
+
+export interface GenerationTaskStatus {
+  task_id: string;
+  kind: GenerationKind;
+  status: GenerationStatus;
+  // 0-100, when the provider reports it
+  progress: number | null;
+  // Id of the created audio, image or video once completed
+  result_id: string | null;
+  // Reason shown to the user when failed
+  error: string | null;
+}
+
+export interface MediaUploadResponse {
+  public_url: string;
+}
+
+export interface AudioFile {
+  id: string;
+  text_prompt: string;
+  public_url: string;
+  created_at: string;
+  voice_name: string;
+}
+
+export interface GenerateAudioRequest {
+  text: string;
+  voice_name: string;
+}
+
+export interface ImageFile {
+  id: string;
+  prompt: string;
+  public_url: string;
+  created_at: string;
+  model: string;
+  size: string;
+  quality: string;
+}
+
+export interface GenerateImageRequest {
+  prompt: string;
+  model: string;
+  quality: string;
+  size: string;
+  reference_image_url: string | null;
+}
+
+export type AvatarVideoStatus =
+  | "processing"
+  | "processing_external"
+  | "completed"
+  | "failed";
+
+export interface AvatarVideo {
+  id: string;
+  public_url: string | null;
+  thumbnail_url: string | null;
+  status: AvatarVideoStatus;
+  text_prompt: string;
+  created_at: string;
+  avatar_image_url: string;
+}
+
+export interface GenerateAvatarRequest {
+  text: string;
+  voice_name: string;
+  avatar_url: string;
+  model: string;
+  provider: string;
+}
+
+// Billing
+
+export interface CreditPack {
+  id: string;
+  name: string;
+  credits: number;
+  // Extra credits on top of `credits`, shown as a bonus
+  bonus_credits?: number;
+  // Price in the smallest currency unit (e.g. cents)
+  price: number;
+  currency: string;
+  popular?: boolean;
+}
+
+export interface CheckoutSessionRequest {
+  pack_id: string;
+  // Stripe replaces {CHECKOUT_SESSION_ID} in these with the session id
+  success_url: string;
+  cancel_url: string;
+}
+
+export interface CheckoutSession {
+  session_id: string;
+  checkout_url: string;
+}
+
+export type CheckoutStatus = "open" | "complete" | "expired";
+
+export interface CheckoutSessionStatus {
+  session_id: string;
+  status: CheckoutStatus;
+  // Credits added to the wallet once the payment is confirmed
+  credits_added: number | null;
+}
+
+// Budgets
+
+// Limits in credits; null means no limit
+export interface BudgetSettings {
+  daily_limit: number | null;
+  monthly_limit: number | null;
+  // Warn once the wallet drops to this many credits
+  low_balance_threshold: number | null;
+}
+
+export interface BudgetStatus extends BudgetSettings {
+  spent_today: number;
+  spent_this_month: number;
+}
+
+// Usage
+
+export type UsageModality = "chat" | "audio" | "image" | "avatar";
+
+// One debit from the wallet
+export interface UsageEntry {
+  id: string;
+  created_at: string;
+  modality: UsageModality;
+  model: string | null;
+  credits: number;
+  // Set for chat debits; message_id points at the billed reply
+  chat_id?: string | null;
+  message_id?: string | null;
+  // Set for media debits
+  media_id?: string | null;
+  // Set when the request was made with an API key rather than the dashboard
+  api_key_id?: string | null;
+}
+
+export interface UsageQuery {
+  // Inclusive ISO dates (YYYY-MM-DD)
+  date_from?: string;
+  date_to?: string;
+  modality?: UsageModality;
+  model?: string;
+  api_key_id?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface UsagePage {
+  items: UsageEntry[];
+  next_cursor: string | null;
+}
+
+// Credits spent per day, split by modality and model
+export interface UsageDailyTotal {
+  date: string;
+  modality: UsageModality;
+  model: string | null;
+  credits: number;
+}
+
+// API keys
+
+// "read" keys can only list and fetch; chat and media keys can also spend credits
+export type ApiKeyScope = "chat" | "media" | "read";
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  // First characters of the secret, enough to recognise a key in logs
+  prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+export interface ApiKeyCreateRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+// Returned by create and rotate only; the secret is never shown again
+export interface ApiKeyWithSecret extends ApiKey {
+  secret: string;
+}
+
+// Workspaces
+
+export type WorkspaceRole = "owner" | "admin" | "member";
+
+// A team the user belongs to; the personal account is not listed
+export interface Workspace {
+  id: string;
+  name: string;
+  // The signed-in user's role here
+  role: WorkspaceRole;
+  wallet: Wallet;
+  // The signed-in user's monthly cap on the shared wallet; null means uncapped
+  spend_cap: number | null;
+  spent_this_month: number;
+  member_count: number;
+}
+
+export interface WorkspaceMember {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  avatar_url?: string | null;
+  role: WorkspaceRole;
+  spend_cap: number | null;
+  spent_this_month: number;
+  joined_at: string;
+}
+
+// Fields an owner or admin can change on a member
+export interface WorkspaceMemberUpdate {
+  role?: Exclude<WorkspaceRole, "owner">;
+  spend_cap?: number | null;
+}
+
+export interface WorkspaceInvite {
+  id: string;
+  email: string;
+  role: Exclude<WorkspaceRole, "owner">;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface WorkspaceInviteRequest {
+  email: string;
+  role: Exclude<WorkspaceRole, "owner">;
+}
@@ -0,0 +1,60 @@
+import api from "./client";
+import { unwrap } from "./errors";
+import type {
+  AuthSession,
+  RecoveryCodes,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  User,
+  UserUpdateRequest,
+} from "./types";
+
+// Pass a token explicitly when it is not yet persisted (e.g. right after login)
+export const getMe = (accessToken?: string) =>
+  unwrap(
+    api.get<User>(
+      "/users/me",
+      accessToken ? { headers: { Authorization: `Bearer ${accessToken}` } } : undefined
+    )
+  );
+
+// Profile fields and preferences; returns the updated user
+export const updateMe = (body: UserUpdateRequest) =>
+  unwrap(api.patch<User>("/users/me", body));
+
+// Sessions: revoking one ends it on the next token refresh from that device
+export const listSessions = () =>
+  unwrap(api.get<AuthSession[]>("/users/me/sessions"));
+
+export const revokeSession = (sessionId: string) =>
+  unwrap(api.delete<void>(`/users/me/sessions/${sessionId}`));
+
+export const revokeOtherSessions = () =>
+  unwrap(api.post<void>("/users/me/sessions/revoke-others"));
+
+// Includes the current session, so the caller must sign out afterwards
+export const revokeAllSessions = () =>
+  unwrap(api.post<void>("/users/me/sessions/revoke-all"));
+
+// Two-factor authentication
+export const getTwoFactorStatus = () =>
+  unwrap(api.get<TwoFactorStatus>("/users/me/2fa"));
+
+// Starts (or restarts) enrolment with a fresh secret
+export const startTwoFactorSetup = () =>
+  unwrap(api.post<TwoFactorSetup>("/users/me/2fa/setup"));
+
+// A wrong code comes back as 401, which must not trigger a token refresh
+const CODE_CHECK = { skipAuthRefresh: true };
+
+// Confirms enrolment with a code from the authenticator app
+export const enableTwoFactor = (code: string) =>
+  unwrap(api.post<RecoveryCodes>("/users/me/2fa/enable", { code }, CODE_CHECK));
+
+// Accepts an authenticator code or a recovery code
+export const disableTwoFactor = (code: string) =>
+  unwrap(api.post<void>("/users/me/2fa/disable", { code }, CODE_CHECK));
+
+// Invalidates the old codes
+export const regenerateRecoveryCodes = (code: string) =>
+  unwrap(api.post<RecoveryCodes>("/users/me/2fa/recovery-codes", { code }, CODE_CHECK));
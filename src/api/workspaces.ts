@@ -0,0 +1,47 @@
+import api from "./client";
+import { unwrap } from "./errors";
+import type {
+  Workspace,
+  WorkspaceInvite,
+  WorkspaceInviteRequest,
+  WorkspaceMember,
+  WorkspaceMemberUpdate,
+} from "./types";
+
+export const listWorkspaces = () =>
+  unwrap(api.get<Workspace[]>("/workspaces"));
+
+// The creator becomes the owner
+export const createWorkspace = (name: string) =>
+  unwrap(api.post<Workspace>("/workspaces", { name }));
+
+export const renameWorkspace = (workspaceId: string, name: string) =>
+  unwrap(api.patch<Workspace>(`/workspaces/${workspaceId}`, { name }));
+
+// Owners can't leave; they must hand the workspace over first
+export const leaveWorkspace = (workspaceId: string) =>
+  unwrap(api.post<void>(`/workspaces/${workspaceId}/leave`));
+
+// Members
+export const listMembers = (workspaceId: string) =>
+  unwrap(api.get<WorkspaceMember[]>(`/workspaces/${workspaceId}/members`));
+
+export const updateMember = (workspaceId: string, userId: string, body: WorkspaceMemberUpdate) =>
+  unwrap(api.patch<WorkspaceMember>(`/workspaces/${workspaceId}/members/${userId}`, body));
+
+export const removeMember = (workspaceId: string, userId: string) =>
+  unwrap(api.delete<void>(`/workspaces/${workspaceId}/members/${userId}`));
+
+// Invitations
+export const listInvites = (workspaceId: string) =>
+  unwrap(api.get<WorkspaceInvite[]>(`/workspaces/${workspaceId}/invites`));
+
+// Emails a link to /dashboard/invite/<token>
+export const inviteMember = (workspaceId: string, body: WorkspaceInviteRequest) =>
+  unwrap(api.post<WorkspaceInvite>(`/workspaces/${workspaceId}/invites`, body));
+
+export const revokeInvite = (workspaceId: string, inviteId: string) =>
+  unwrap(api.delete<void>(`/workspaces/${workspaceId}/invites/${inviteId}`));
+
+export const acceptInvite = (token: string) =>
+  unwrap(api.post<Workspace>("/workspaces/invites/accept", { token }));
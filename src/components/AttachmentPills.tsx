@@ -0,0 +1,169 @@
+import type { Attachment } from "../api/types";
+
+interface AttachmentPillsProps {
+  attachments: Attachment[];
+}
+
+// File Icon & Color Helper
+const getFileInfo = (type: string, name: string) => {
+  const lowerName = name.toLowerCase();
+
+  if (
+    type.startsWith("image/") ||
+    lowerName.match(/\.(jpg|jpeg|png|gif|webp|svg|bmp|ico)$/i)
+  ) {
+    return {
+      icon: "🖼️",
+      color: "from-pink-500/20 to-rose-500/20",
+      border: "border-pink-400/40",
+      text: "text-pink-200",
+    };
+  }
+  if (
+    type.startsWith("video/") ||
+    lowerName.match(/\.(mp4|avi|mov|mkv|webm)$/i)
+  ) {
+    return {
+      icon: "🎥",
+      color: "from-purple-500/20 to-violet-500/20",
+      border: "border-purple-400/40",
+      text: "text-purple-200",
+    };
+  }
+  if (
+    type.startsWith("audio/") ||
+    lowerName.match(/\.(mp3|wav|ogg|flac|m4a)$/i)
+  ) {
+    return {
+      icon: "🎵",
+      color: "from-cyan-500/20 to-blue-500/20",
+      border: "border-cyan-400/40",
+      text: "text-cyan-200",
+    };
+  }
+  if (type === "application/pdf" || lowerName.endsWith(".pdf")) {
+    return {
+      icon: "📄",
+      color: "from-red-500/20 to-orange-500/20",
+      border: "border-red-400/40",
+      text: "text-red-200",
+    };
+  }
+  if (
+    type.includes("document") ||
+    lowerName.match(/\.(doc|docx|txt|rtf)$/i)
+  ) {
+    return {
+      icon: "📝",
+      color: "from-blue-500/20 to-indigo-500/20",
+      border: "border-blue-400/40",
+      text: "text-blue-200",
+    };
+  }
+  if (type.includes("spreadsheet") || lowerName.match(/\.(xls|xlsx|csv)$/i)) {
+    return {
+      icon: "📊",
+      color: "from-green-500/20 to-emerald-500/20",
+      border: "border-green-400/40",
+      text: "text-green-200",
+    };
+  }
+  if (type.includes("presentation") || lowerName.match(/\.(ppt|pptx)$/i)) {
+    return {
+      icon: "📊",
+      color: "from-orange-500/20 to-amber-500/20",
+      border: "border-orange-400/40",
+      text: "text-orange-200",
+    };
+  }
+  if (
+    type.includes("zip") ||
+    type.includes("compressed") ||
+    lowerName.match(/\.(zip|rar|7z|tar|gz)$/i)
+  ) {
+    return {
+      icon: "📦",
+      color: "from-yellow-500/20 to-amber-500/20",
+      border: "border-yellow-400/40",
+      text: "text-yellow-200",
+    };
+  }
+  if (
+    lowerName.match(/\.(js|jsx|ts|tsx|py|java|cpp|c|html|css|json|xml)$/i)
+  ) {
+    return {
+      icon: "💻",
+      color: "from-slate-500/20 to-gray-500/20",
+      border: "border-slate-400/40",
+      text: "text-slate-200",
+    };
+  }
+
+  return {
+    icon: "📎",
+    color: "from-gray-500/20 to-slate-500/20",
+    border: "border-gray-400/40",
+    text: "text-gray-200",
+  };
+};
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return bytes + " B";
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
+  return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+};
+
+// Files sent with a user message, shown as name and size only
+export default function AttachmentPills({ attachments }: AttachmentPillsProps) {
+  return (
+    <div className="space-y-2 pt-2">
+      <div className="flex items-center gap-1.5 text-[10px] sm:text-xs text-blue-200/70 font-medium">
+        <svg
+          className="w-3 h-3"
+          fill="currentColor"
+          viewBox="0 0 20 20"
+        >
+          <path
+            fillRule="evenodd"
+            d="M8 4a3 3 0 00-3 3v4a5 5 0 0010 0V7a1 1 0 112 0v4a7 7 0 11-14 0V7a5 5 0 0110 0v4a3 3 0 11-6 0V7a1 1 0 012 0v4a1 1 0 102 0V7a3 3 0 00-3-3z"
+            clipRule="evenodd"
+          />
+        </svg>
+        <span>
+          {attachments.length}{" "}
+          {attachments.length === 1
+            ? "Attachment"
+            : "Attachments"}
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {attachments.map((file, idx) => {
+          const fileInfo = getFileInfo(file.type, file.name);
+
+          return (
+            <div
+              key={idx}
+              className={`group/file relative flex items-center gap-2 bg-gradient-to-br ${fileInfo.color} backdrop-blur-sm border ${fileInfo.border} rounded-lg px-3 py-2 transition-all duration-200 hover:scale-[1.02] hover:shadow-lg`}
+            >
+              <div className="flex items-center justify-center w-8 h-8 rounded-md bg-white/10 backdrop-blur-sm">
+                <span className="text-lg">
+                  {fileInfo.icon}
+                </span>
+              </div>
+              <div className="flex flex-col min-w-0 flex-1">
+                <span
+                  className={`text-xs font-semibold ${fileInfo.text} truncate max-w-[180px] sm:max-w-[280px]`}
+                >
+                  {file.name}
+                </span>
+                <span className="text-[10px] text-blue-300/60 font-medium">
+                  {formatSize(file.size)}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { type ReactNode } from 'react';
+
+interface AuthCardProps {
+  title: string;
+  subtitle?: string;
+  children: ReactNode;
+  // Links under the card, e.g. "Already have an account?"
+  footer?: ReactNode;
+}
+
+// Centered card shared by the sign-in, sign-up and password pages
+export default function AuthCard({ title, subtitle, children, footer }: AuthCardProps) {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-100 px-4 py-10">
+      <div className="w-full max-w-sm">
+        <div className="p-8 bg-white rounded-xl shadow-lg">
+          <h2 className={`text-2xl font-bold text-center text-gray-800 ${subtitle ? 'mb-2' : 'mb-6'}`}>{title}</h2>
+          {subtitle && <p className="text-sm text-gray-500 text-center mb-6">{subtitle}</p>}
+          {children}
+        </div>
+        {footer && <div className="mt-6 text-sm text-center text-gray-600">{footer}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { type InputHTMLAttributes } from 'react';
+
+interface AuthFieldProps extends Omit<InputHTMLAttributes<HTMLInputElement>, 'onChange'> {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  error?: string;
+  hint?: string;
+}
+
+// Labelled input with its validation message underneath
+export default function AuthField({ label, value, onChange, error, hint, ...inputProps }: AuthFieldProps) {
+  return (
+    <label className="block">
+      <span className="block text-sm font-medium text-gray-700 mb-1">{label}</span>
+      <input
+        {...inputProps}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        aria-invalid={!!error}
+        className={`w-full p-3 border rounded-lg focus:ring-2 focus:outline-none ${
+          error ? 'border-red-400 focus:ring-red-400' : 'border-gray-300 focus:ring-blue-500'
+        }`}
+      />
+      {(error || hint) && (
+        <span className={`block mt-1 text-xs ${error ? 'text-red-500' : 'text-gray-500'}`}>{error ?? hint}</span>
+      )}
+    </label>
+  );
+}
@@ -0,0 +1,31 @@
+import { NavLink } from "react-router-dom";
+
+const TABS = [
+  { to: "/dashboard/billing", label: "Buy credits", end: true },
+  { to: "/dashboard/billing/usage", label: "Usage", end: false },
+  { to: "/dashboard/billing/budgets", label: "Budgets", end: false },
+];
+
+// Switches between the billing sub-pages
+export default function BillingTabs() {
+  return (
+    <div className="flex gap-1 mb-8 border-b border-slate-800">
+      {TABS.map((tab) => (
+        <NavLink
+          key={tab.to}
+          to={tab.to}
+          end={tab.end}
+          className={({ isActive }) =>
+            `px-4 py-2.5 -mb-px text-sm font-medium border-b-2 transition-colors ${
+              isActive
+                ? "border-emerald-500 text-white"
+                : "border-transparent text-gray-500 hover:text-gray-300"
+            }`
+          }
+        >
+          {tab.label}
+        </NavLink>
+      ))}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, type KeyboardEvent } from "react";
+import React, { useEffect, useRef, useState, type KeyboardEvent } from "react";
 import { 
   PaperAirplaneIcon, 
   StopIcon, 
@@ -7,6 +7,14 @@ import {
   DocumentIcon,
   PhotoIcon,
 } from "@heroicons/react/24/solid";
+import CostHint from "./CostHint";
+import PromptPalette from "./PromptPalette";
+import PromptVariablesForm from "./PromptVariablesForm";
+import type { CostCheck } from "../hooks/useCostCheck";
+import type { PromptTemplate } from "../api/types";
+import { matchPrompts, templateVariables } from "../utils/promptTemplate";
+
+const MAX_PALETTE_ITEMS = 8;
 
 type ChatInputProps = {
   input: string;
@@ -22,6 +30,10 @@ type ChatInputProps = {
   showEmptyStatePlaceholder: boolean;
   placeholderText: string;
   fadePlaceholder: boolean;
+  // Estimated cost of the draft; sending is blocked when the wallet can't cover it
+  cost?: CostCheck;
+  // Prompt library; typing "/" opens a palette of these when given
+  prompts?: PromptTemplate[];
 };
 
 export default function ChatInput({
@@ -38,9 +50,41 @@ export default function ChatInput({
   showEmptyStatePlaceholder,
   placeholderText,
   fadePlaceholder,
+  cost,
+  prompts,
 }: ChatInputProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Slash command palette: open while the box holds just "/" and a command
+  const [highlight, setHighlight] = useState({ query: "", index: 0 });
+  const [dismissedInput, setDismissedInput] = useState<string | null>(null);
+  const [pendingPrompt, setPendingPrompt] = useState<PromptTemplate | null>(null);
+  const slashQuery = /^\/(\S*)$/.exec(input)?.[1] ?? null;
+  const isPaletteOpen =
+    !!prompts && slashQuery !== null && dismissedInput !== input && !pendingPrompt;
+  const matches =
+    isPaletteOpen && prompts && slashQuery !== null
+      ? matchPrompts(prompts, slashQuery).slice(0, MAX_PALETTE_ITEMS)
+      : [];
+  // Typing more resets the highlight to the best match
+  const highlightIndex =
+    highlight.query === slashQuery ? Math.min(highlight.index, matches.length - 1) : 0;
+
+  const insertText = (text: string) => {
+    setInput(text);
+    setPendingPrompt(null);
+    textareaRef.current?.focus();
+  };
+
+  const choosePrompt = (prompt: PromptTemplate) => {
+    if (templateVariables(prompt.body).length > 0) {
+      setPendingPrompt(prompt);
+      setInput("");
+    } else {
+      insertText(prompt.body);
+    }
+  };
+
   useEffect(() => {
     if (textareaRef.current) {
       textareaRef.current.style.height = "auto";
@@ -57,6 +101,30 @@ export default function ChatInput({
   }, [input, textareaRef]);
 
   const handleKeyDown = (e: KeyboardEvent) => {
+    if (isPaletteOpen) {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setDismissedInput(input);
+        return;
+      }
+      if (matches.length > 0) {
+        if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+          e.preventDefault();
+          const step = e.key === "ArrowDown" ? 1 : -1;
+          setHighlight({
+            query: slashQuery ?? "",
+            index: (highlightIndex + step + matches.length) % matches.length,
+          });
+          return;
+        }
+        if ((e.key === "Enter" && !e.shiftKey) || e.key === "Tab") {
+          e.preventDefault();
+          choosePrompt(matches[highlightIndex]);
+          return;
+        }
+      }
+    }
+
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       if (input.trim() || selectedFiles.length > 0) {
@@ -130,7 +198,11 @@ export default function ChatInput({
     );
   };
 
-  const canSend = (input.trim() || selectedFiles.length > 0) && !isStreaming && !isThinking;
+  const canSend =
+    (input.trim() || selectedFiles.length > 0) &&
+    !isStreaming &&
+    !isThinking &&
+    cost?.status !== "insufficient";
 
   return (
     <div className="relative px-3 sm:px-4 md:px-6 py-3 sm:py-4 md:py-5 bg-gradient-to-b from-[#0a0b0f] via-[#0d0e14] to-[#0a0b0f]">
@@ -144,6 +216,27 @@ export default function ChatInput({
       >
         {/* Main Input Container */}
         <div className="group relative">
+          {/* Prompt Library */}
+          {isPaletteOpen && (
+            <PromptPalette
+              matches={matches}
+              highlight={highlightIndex}
+              onHighlight={(index) => setHighlight({ query: slashQuery ?? "", index })}
+              onChoose={choosePrompt}
+            />
+          )}
+          {pendingPrompt && (
+            <PromptVariablesForm
+              key={pendingPrompt.id}
+              prompt={pendingPrompt}
+              onInsert={insertText}
+              onCancel={() => {
+                setPendingPrompt(null);
+                textareaRef.current?.focus();
+              }}
+            />
+          )}
+
           {/* Glow effect on focus - positioned behind */}
           <div className="absolute -inset-[1px] bg-gradient-to-r from-blue-500/0 via-purple-500/0 to-blue-500/0 group-focus-within:from-blue-500/20 group-focus-within:via-purple-500/20 group-focus-within:to-blue-500/20 rounded-2xl blur-sm transition-all duration-500" />
 
@@ -272,9 +365,13 @@ export default function ChatInput({
         {/* Footer Notice */}
         <div className="flex items-center justify-center gap-2 mt-2.5 sm:mt-3">
           <div className="h-px flex-1 bg-gradient-to-r from-transparent via-white/5 to-transparent max-w-xs" />
-          <p className="text-[10px] sm:text-[11px] text-gray-500/80 font-medium tracking-wide px-2.5 sm:px-3 py-0.5 sm:py-1 rounded-full bg-white/[0.02] border border-white/[0.03]">
-            <span className="text-amber-500/70">⚠</span> AI may produce inaccurate information
-          </p>
+          {cost?.estimate ? (
+            <CostHint {...cost} className="px-2.5 sm:px-3" />
+          ) : (
+            <p className="text-[10px] sm:text-[11px] text-gray-500/80 font-medium tracking-wide px-2.5 sm:px-3 py-0.5 sm:py-1 rounded-full bg-white/[0.02] border border-white/[0.03]">
+              <span className="text-amber-500/70">⚠</span> AI may produce inaccurate information
+            </p>
+          )}
           <div className="h-px flex-1 bg-gradient-to-r from-transparent via-white/5 to-transparent max-w-xs" />
         </div>
       </div>
@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { CheckIcon, ChevronDownIcon, ClipboardDocumentIcon } from "@heroicons/react/24/solid";
+import ReactMarkdown from "react-markdown";
+import type { Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
+import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
+import "katex/dist/katex.min.css";
+
+type CodeProps = {
+  node?: any;
+  inline?: boolean;
+  className?: string;
+  children?: React.ReactNode;
+  [key: string]: any;
+};
+
+type CopiedState = { [key: string]: boolean };
+
+interface ChatMarkdownProps {
+  content: string;
+}
+
+// An AI reply: GitHub-flavoured markdown, KaTeX maths and highlighted code blocks
+export default function ChatMarkdown({ content }: ChatMarkdownProps) {
+  const [copiedStates, setCopiedStates] = useState<CopiedState>({});
+  const [expandedCodeBlocks, setExpandedCodeBlocks] = useState<{
+    [key: string]: boolean;
+  }>({});
+
+  const handleCopy = async (text: string, id: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedStates((prev) => ({ ...prev, [id]: true }));
+      setTimeout(
+        () => setCopiedStates((prev) => ({ ...prev, [id]: false })),
+        2000
+      );
+    } catch (err) {
+      console.error("Failed copy", err);
+    }
+  };
+
+  const toggleCodeBlock = (id: string) => {
+    setExpandedCodeBlocks((prev) => ({ ...prev, [id]: !prev[id] }));
+  };
+
+  // Enhanced Markdown Components
+  const components: Partial<Components> = {
+    p: ({ children }) => (
+      <p className="mb-4 last:mb-0 leading-[1.75] text-gray-100 text-sm sm:text-[15px]">
+        {children}
+      </p>
+    ),
+    ul: ({ children }) => (
+      <ul className="list-disc list-outside ml-5 sm:ml-6 mb-4 space-y-2 text-gray-100 text-sm sm:text-[15px]">
+        {children}
+      </ul>
+    ),
+    ol: ({ children }) => (
+      <ol className="list-decimal list-outside ml-5 sm:ml-6 mb-4 space-y-2 text-gray-100 text-sm sm:text-[15px]">
+        {children}
+      </ol>
+    ),
+    li: ({ children }) => <li className="leading-[1.75] pl-1">{children}</li>,
+    h1: ({ children }) => (
+      <h1 className="text-2xl sm:text-3xl font-bold mb-4 sm:mb-5 mt-6 sm:mt-7 text-white border-b border-gray-700/50 pb-2 sm:pb-3">
+        {children}
+      </h1>
+    ),
+    h2: ({ children }) => (
+      <h2 className="text-xl sm:text-2xl font-bold mb-3 sm:mb-4 mt-5 sm:mt-6 text-white">
+        {children}
+      </h2>
+    ),
+    h3: ({ children }) => (
+      <h3 className="text-lg sm:text-xl font-semibold mb-2 sm:mb-3 mt-4 sm:mt-5 text-gray-100">
+        {children}
+      </h3>
+    ),
+    h4: ({ children }) => (
+      <h4 className="text-base sm:text-lg font-semibold mb-2 mt-3 sm:mt-4 text-gray-200">
+        {children}
+      </h4>
+    ),
+    blockquote: ({ children }) => (
+      <blockquote className="border-l-4 border-blue-500/80 bg-blue-500/5 pl-4 sm:pl-5 pr-3 sm:pr-4 py-2 sm:py-3 italic my-4 sm:my-5 text-gray-200 rounded-r-lg text-sm sm:text-base">
+        {children}
+      </blockquote>
+    ),
+    table: ({ children }) => (
+      <div className="overflow-x-auto my-4 sm:my-6 rounded-lg border border-gray-700/50">
+        <table className="min-w-full divide-y divide-gray-700/50">
+          {children}
+        </table>
+      </div>
+    ),
+    thead: ({ children }) => (
+      <thead className="bg-gray-800/50">{children}</thead>
+    ),
+    tbody: ({ children }) => (
+      <tbody className="divide-y divide-gray-700/30 bg-gray-900/20">
+        {children}
+      </tbody>
+    ),
+    th: ({ children }) => (
+      <th className="px-3 sm:px-5 py-2 sm:py-3.5 text-left text-xs sm:text-sm font-semibold text-gray-200 uppercase tracking-wider">
+        {children}
+      </th>
+    ),
+    td: ({ children }) => (
+      <td className="px-3 sm:px-5 py-2 sm:py-3.5 text-xs sm:text-sm text-gray-300 leading-relaxed">
+        {children}
+      </td>
+    ),
+    a: ({ href, children }) => (
+      <a
+        href={href}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-blue-400 hover:text-blue-300 underline underline-offset-2 transition-colors"
+      >
+        {children}
+      </a>
+    ),
+    strong: ({ children }) => (
+      <strong className="font-semibold text-white">{children}</strong>
+    ),
+    em: ({ children }) => <em className="italic text-gray-200">{children}</em>,
+    hr: () => <hr className="my-4 sm:my-6 border-gray-700/50" />,
+    code: (props: CodeProps) => {
+      const { node, className, children, inline = false, ...rest } = props;
+      const match = /language-(\w+)/.exec(className || "");
+      const language = match ? match[1] : "";
+      const codeString = String(children).replace(/\n$/, "");
+      const codeId = `code-${node?.position?.start.offset || Math.random()}`;
+      const isExpanded = expandedCodeBlocks[codeId];
+      const lineCount = codeString.split("\n").length;
+      const shouldTruncate = lineCount > 20;
+
+      return !inline && match ? (
+        <div className="my-4 sm:my-6 rounded-xl overflow-hidden bg-[#1e1e1e] border border-gray-700/40 shadow-2xl">
+          <div className="flex items-center justify-between px-3 sm:px-5 py-2 sm:py-3 bg-[#2d2d2d]/80 border-b border-gray-700/40 backdrop-blur-sm">
+            <div className="flex items-center gap-2 sm:gap-3">
+              <div className="hidden sm:flex gap-2">
+                <div className="w-3 h-3 rounded-full bg-red-500/90 shadow-sm" />
+                <div className="w-3 h-3 rounded-full bg-yellow-500/90 shadow-sm" />
+                <div className="w-3 h-3 rounded-full bg-green-500/90 shadow-sm" />
+              </div>
+              <span className="text-[10px] sm:text-xs text-gray-400 font-mono font-semibold uppercase tracking-wide">
+                {language || "plaintext"}
+              </span>
+              <span className="text-[10px] sm:text-xs text-gray-500 font-mono">
+                {lineCount} {lineCount === 1 ? "line" : "lines"}
+              </span>
+            </div>
+            <div className="flex items-center gap-1 sm:gap-2">
+              {shouldTruncate && (
+                <button
+                  onClick={() => toggleCodeBlock(codeId)}
+                  className="text-[10px] sm:text-xs text-gray-400 hover:text-blue-400 flex items-center gap-1 sm:gap-1.5 px-1.5 sm:px-2 py-1 rounded hover:bg-gray-700/30 transition-all"
+                >
+                  <span className="hidden sm:inline">
+                    {isExpanded ? "Collapse" : "Expand"}
+                  </span>
+                  <ChevronDownIcon
+                    className={`w-3 sm:w-3.5 h-3 sm:h-3.5 transition-transform ${
+                      isExpanded ? "rotate-180" : ""
+                    }`}
+                  />
+                </button>
+              )}
+              <button
+                onClick={() => handleCopy(codeString, codeId)}
+                className="text-gray-400 hover:text-emerald-400 p-1 sm:p-1.5 rounded hover:bg-gray-700/30 transition-all"
+                title="Copy code"
+              >
+                {copiedStates[codeId] ? (
+                  <CheckIcon className="w-3.5 sm:w-4 h-3.5 sm:h-4 text-emerald-400" />
+                ) : (
+                  <ClipboardDocumentIcon className="w-3.5 sm:w-4 h-3.5 sm:h-4" />
+                )}
+              </button>
+            </div>
+          </div>
+          <div
+            className={`relative overflow-hidden transition-all duration-300 ${
+              shouldTruncate && !isExpanded
+                ? "max-h-[400px] sm:max-h-[500px]"
+                : "max-h-none"
+            }`}
+          >
+            <SyntaxHighlighter
+              style={vscDarkPlus}
+              language={language}
+              PreTag="div"
+              customStyle={{
+                margin: 0,
+                padding: "1rem",
+                background: "#1e1e1e",
+                fontSize: "0.8rem",
+                lineHeight: "1.6",
+              }}
+              showLineNumbers={lineCount > 5}
+              wrapLines={true}
+              {...rest}
+            >
+              {codeString}
+            </SyntaxHighlighter>
+            {shouldTruncate && !isExpanded && (
+              <div className="absolute bottom-0 left-0 right-0 h-20 sm:h-24 bg-gradient-to-t from-[#1e1e1e] via-[#1e1e1e]/80 to-transparent pointer-events-none" />
+            )}
+          </div>
+        </div>
+      ) : (
+        <code
+          className="bg-gray-800/60 text-blue-300 rounded-md px-1.5 sm:px-2 py-0.5 text-[0.85em] sm:text-[0.9em] font-mono border border-gray-700/40"
+          {...rest}
+        >
+          {children}
+        </code>
+      );
+    },
+  };
+
+  return (
+    <div className="prose prose-invert max-w-none prose-headings:font-bold prose-a:text-blue-400">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[rehypeKatex]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
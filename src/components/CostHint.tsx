@@ -0,0 +1,44 @@
+import { Link } from "react-router-dom";
+import { ExclamationTriangleIcon } from "@heroicons/react/24/solid";
+import type { BalanceStatus, CostEstimate } from "../utils/costEstimate";
+import { formatCredits } from "../utils/credits";
+
+interface CostHintProps {
+  estimate: CostEstimate | null;
+  credits: number | null;
+  status: BalanceStatus;
+  className?: string;
+}
+
+// An estimate is rough, so fractions of a cent read as "<0.01"
+const formatEstimate = (value: number) => (value < 0.01 && value > 0 ? "<0.01" : formatCredits(value));
+
+// Estimated credit cost shown next to a submit button
+export default function CostHint({ estimate, credits, status, className = "" }: CostHintProps) {
+  if (!estimate) return null;
+
+  if (status === "ok") {
+    return (
+      <span className={`text-xs text-gray-500 font-mono ${className}`} title="Estimated cost; you are billed for actual usage">
+        ≈ {formatEstimate(estimate.credits)} credits
+      </span>
+    );
+  }
+
+  const insufficient = status === "insufficient";
+  return (
+    <span
+      className={`flex items-center gap-1.5 text-xs ${insufficient ? "text-red-400" : "text-amber-400"} ${className}`}
+    >
+      <ExclamationTriangleIcon className="w-3.5 h-3.5 flex-shrink-0" />
+      <span>
+        {insufficient
+          ? `Needs ${formatEstimate(estimate.minimum)} credits, you have ${formatEstimate(credits ?? 0)}.`
+          : `≈ ${formatEstimate(estimate.credits)} credits may exceed your balance.`}
+      </span>
+      <Link to="/dashboard/billing" className="font-semibold underline underline-offset-2 hover:opacity-80">
+        Buy credits
+      </Link>
+    </span>
+  );
+}
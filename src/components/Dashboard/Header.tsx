@@ -1,5 +1,14 @@
+import { Link } from 'react-router-dom';
 import { Bars3Icon } from '@heroicons/react/24/outline';
-import { useAuth } from '../../context/AuthContext';
+import { useWorkspace } from '../../context/WorkspaceContext';
+import { useBudget, type BudgetState } from '../../hooks/useBudget';
+import JobsTray from './JobsTray';
+
+const BADGE_STYLES: Record<BudgetState, { dot: string; border: string }> = {
+  ok: { dot: 'bg-emerald-400', border: 'border-gray-700/50' },
+  warning: { dot: 'bg-amber-400', border: 'border-amber-500/40' },
+  exceeded: { dot: 'bg-red-500', border: 'border-red-500/50' },
+};
 
 type HeaderProps = {
   toggleSidebar: () => void;
@@ -7,9 +16,11 @@ type HeaderProps = {
 };
 
 export default function Header({ toggleSidebar, isMobile }: HeaderProps) {
-  const { user } = useAuth();
+  const { walletCredits } = useWorkspace();
+  const { state: budgetState, messages: budgetMessages } = useBudget();
+  const badge = BADGE_STYLES[budgetState];
 
-  const rawCredits = user?.wallet?.credits ? Number(user.wallet.credits) : 0;
+  const rawCredits = walletCredits ?? 0;
   
   const displayCredits = rawCredits.toLocaleString(undefined, {
     minimumFractionDigits: 2,
@@ -38,13 +49,20 @@ export default function Header({ toggleSidebar, isMobile }: HeaderProps) {
 
       <div className="flex items-center gap-4 sm:gap-6">
         
-        {/* Credits Badge */}
-        <div className="flex flex-row items-center gap-2 bg-[#1a1d26] border border-gray-700/50 rounded-full px-4 py-1.5 shadow-sm">
-            <div className="w-2 h-2 rounded-full bg-emerald-400 animate-pulse"></div>
+        {/* Generation Jobs */}
+        <JobsTray />
+
+        {/* Credits Badge (colour follows budgets and the low-balance threshold) */}
+        <Link
+          to={budgetState === 'ok' ? '/dashboard/billing' : '/dashboard/billing/budgets'}
+          title={budgetMessages.join('\n') || 'Buy credits'}
+          className={`flex flex-row items-center gap-2 bg-[#1a1d26] border ${badge.border} rounded-full px-4 py-1.5 shadow-sm hover:bg-[#1f2229] transition-colors`}
+        >
+            <div className={`w-2 h-2 rounded-full ${badge.dot} animate-pulse`}></div>
             <span className="text-xs font-mono text-gray-300">
               {displayCredits} <span className="text-gray-500">credits</span>
             </span>
-        </div>
+        </Link>
       </div>
     </header>
   );
@@ -0,0 +1,159 @@
+import { useState, useRef, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  ArrowPathIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  PhotoIcon,
+  QueueListIcon,
+  SpeakerWaveIcon,
+  VideoCameraIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { useJobs } from '../../context/JobsContext';
+import { isPending, jobResultPath, type GenerationJob } from '../../hooks/useGenerationJobs';
+
+const KIND_ICONS = {
+  audio: SpeakerWaveIcon,
+  image: PhotoIcon,
+  avatar: VideoCameraIcon,
+};
+
+// Header button listing every generation started this session
+export default function JobsTray() {
+  const { jobs, dismiss, clearSettled } = useJobs();
+  const [isOpen, setIsOpen] = useState(false);
+  const trayRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (trayRef.current && !trayRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  if (jobs.length === 0) return null;
+
+  const pendingCount = jobs.filter(isPending).length;
+  const hasSettled = pendingCount < jobs.length;
+
+  return (
+    <div className="relative" ref={trayRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 text-gray-400 hover:text-white rounded-md hover:bg-gray-800 transition-colors"
+        title={pendingCount > 0 ? `${pendingCount} generation${pendingCount === 1 ? '' : 's'} running` : 'Recent generations'}
+      >
+        {pendingCount > 0 ? (
+          <ArrowPathIcon className="w-5 h-5 text-blue-400 animate-spin" />
+        ) : (
+          <QueueListIcon className="w-5 h-5" />
+        )}
+        {pendingCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1rem] h-4 px-1 rounded-full bg-blue-600 text-[10px] font-bold text-white flex items-center justify-center">
+            {pendingCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-30 mt-2 w-80 bg-[#1a1d26] border border-gray-700/50 rounded-xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-200 origin-top-right">
+          <div className="flex items-center justify-between px-4 py-2.5 border-b border-gray-800">
+            <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Generations</span>
+            {hasSettled && (
+              <button
+                onClick={clearSettled}
+                className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+              >
+                Clear finished
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-80 overflow-y-auto divide-y divide-gray-800/60">
+            {jobs.map((job) => (
+              <TrayRow
+                key={job.taskId}
+                job={job}
+                onDismiss={() => dismiss(job.taskId)}
+                onOpen={() => setIsOpen(false)}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// SUB-COMPONENTS
+
+function TrayRow({ job, onDismiss, onOpen }: { job: GenerationJob; onDismiss: () => void; onOpen: () => void }) {
+  const KindIcon = KIND_ICONS[job.kind];
+  const pending = isPending(job);
+  const failed = job.status === 'failed';
+
+  return (
+    <div className="relative px-4 py-3 flex items-start gap-3 group">
+      <KindIcon className="w-4 h-4 mt-0.5 text-gray-500 flex-shrink-0" />
+
+      <div className="min-w-0 flex-1">
+        <p className="text-sm text-gray-200 truncate">{job.label}</p>
+        <div className="flex items-center gap-1.5 mt-0.5 text-xs">
+          {pending && (
+            <span className="text-gray-500">
+              {job.status === 'queued' ? 'Queued' : 'Generating'}
+              {job.progress !== null ? ` · ${Math.round(job.progress)}%` : '...'}
+            </span>
+          )}
+          {failed && (
+            <span className="flex items-center gap-1 text-red-300 truncate">
+              <ExclamationTriangleIcon className="w-3.5 h-3.5 flex-shrink-0" />
+              {job.error || 'Generation failed.'}
+            </span>
+          )}
+          {job.status === 'completed' && (
+            <>
+              <CheckCircleIcon className="w-3.5 h-3.5 text-emerald-400" />
+              <Link
+                to={jobResultPath(job)}
+                onClick={onOpen}
+                className="text-blue-400 hover:text-blue-300 font-medium"
+              >
+                View result
+              </Link>
+            </>
+          )}
+        </div>
+      </div>
+
+      {!pending && (
+        <button
+          onClick={onDismiss}
+          className="p-1 text-gray-600 hover:text-gray-300 rounded opacity-0 group-hover:opacity-100 transition-all"
+          title="Dismiss"
+        >
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      )}
+
+      {/* Progress Bar */}
+      {pending && (
+        <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-slate-800">
+          {job.progress !== null ? (
+            <div
+              className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-500"
+              style={{ width: `${Math.max(2, Math.min(100, job.progress))}%` }}
+            />
+          ) : (
+            <div className="h-full w-1/3 bg-gradient-to-r from-blue-500 to-purple-500 animate-pulse" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
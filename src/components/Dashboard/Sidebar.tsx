@@ -1,4 +1,6 @@
+import { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
+import useSWR from 'swr';
 import { 
   CreditCardIcon, 
   Cog6ToothIcon, 
@@ -9,10 +11,17 @@ import {
   ChevronDoubleRightIcon,
   SpeakerWaveIcon,
   PhotoIcon,
-  UserCircleIcon
+  UserCircleIcon,
+  ChevronDownIcon,
+  ChatBubbleLeftIcon,
+  FaceSmileIcon,
+  BookOpenIcon
 } from '@heroicons/react/24/outline';
+import { BookmarkIcon } from '@heroicons/react/24/solid';
+import { searchChats } from '../../api/chat';
 import { useAuth } from '../../context/AuthContext';
 import { useChatReset } from '../../context/ChatResetContext';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
 
 type SidebarProps = {
   isOpen: boolean;
@@ -25,9 +34,22 @@ export default function Sidebar({ isOpen, toggle, isMobile }: SidebarProps) {
   const { user, logout } = useAuth();
   const { triggerReset } = useChatReset(); 
 
+  // Recent & Pinned Chats (pinned come first from the server)
+  const [showRecent, setShowRecent] = useState(
+    () => localStorage.getItem('sidebarRecentOpen') !== 'false'
+  );
+  const { data: recent } = useSWR(user ? '/chat/recent' : null, () => searchChats({ limit: 8 }));
+
+  const toggleRecent = () => {
+    localStorage.setItem('sidebarRecentOpen', String(!showRecent));
+    setShowRecent(!showRecent);
+  };
+
   const navItems = [
     { name: 'New AI Chat', path: '/dashboard', icon: PlusIcon },
     { name: 'Chat History', path: '/dashboard/history', icon: ClockIcon },
+    { name: 'Personas', path: '/dashboard/personas', icon: FaceSmileIcon },
+    { name: 'Prompt Library', path: '/dashboard/prompts', icon: BookOpenIcon },
     { name: 'AI TTS', path: '/dashboard/tts', icon: SpeakerWaveIcon },
     { name: 'AI Images', path: '/dashboard/images', icon: PhotoIcon },
     { name: 'AI Avatar', path: '/dashboard/avatar', icon: UserCircleIcon },
@@ -76,7 +98,7 @@ export default function Sidebar({ isOpen, toggle, isMobile }: SidebarProps) {
         </div>
 
         {/* Navigation Items */}
-        <nav className="flex-1 px-3 space-y-2 mt-4">
+        <nav className="px-3 space-y-2 mt-4">
           {navItems.map((item) => {
             const isActive = pathname === item.path || (item.name === 'New Chat' && pathname === '/dashboard');
             
@@ -112,18 +134,73 @@ export default function Sidebar({ isOpen, toggle, isMobile }: SidebarProps) {
           })}
         </nav>
 
+        {/* Recent & Pinned Chats */}
+        <div className="flex-1 min-h-0 flex flex-col mt-4 px-3">
+          {isOpen && recent && recent.items.length > 0 && (
+            <>
+              <button
+                onClick={toggleRecent}
+                className="flex items-center justify-between px-3 py-2 text-[11px] font-semibold text-gray-500 uppercase tracking-wider hover:text-gray-300 transition-colors"
+              >
+                Recent & Pinned
+                <ChevronDownIcon className={`w-3.5 h-3.5 transition-transform duration-200 ${showRecent ? '' : '-rotate-90'}`} />
+              </button>
+
+              {showRecent && (
+                <div className="flex-1 overflow-y-auto space-y-0.5 pb-2 [&::-webkit-scrollbar]:hidden [-ms-overflow-style:'none'] [scrollbar-width:'none']">
+                  {recent.items.map((chat) => {
+                    const path = `/dashboard/chat/${chat.id}`;
+                    const isActive = pathname === path;
+                    return (
+                      <Link
+                        key={chat.id}
+                        to={path}
+                        onClick={() => { if (isMobile) toggle(); }}
+                        className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+                          isActive ? 'bg-gray-800 text-white' : 'text-gray-400 hover:text-white hover:bg-gray-800/40'
+                        }`}
+                        title={chat.title || 'Untitled Conversation'}
+                      >
+                        {chat.pinned ? (
+                          <BookmarkIcon className="w-4 h-4 text-amber-400 flex-shrink-0" />
+                        ) : (
+                          <ChatBubbleLeftIcon className="w-4 h-4 flex-shrink-0" />
+                        )}
+                        <span className="truncate">{chat.title || 'Untitled Conversation'}</span>
+                      </Link>
+                    );
+                  })}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
         {/* Footer / User Profile */}
         <div className="p-4 border-t border-gray-800">
+          <WorkspaceSwitcher
+            isCollapsed={!isOpen && !isMobile}
+            onExpand={toggle}
+            onNavigate={() => { if (isMobile) toggle(); }}
+          />
           <div className={`flex items-center gap-3 ${!isOpen && !isMobile ? 'justify-center' : ''}`}>
-            <div className="w-9 h-9 min-w-[2.25rem] rounded-full bg-gradient-to-tr from-purple-500 to-blue-500 flex items-center justify-center text-sm font-bold shadow-lg">
-              {user?.email?.[0].toUpperCase()}
-            </div>
+            {user?.avatar_url ? (
+              <img
+                src={user.avatar_url}
+                alt=""
+                className="w-9 h-9 min-w-[2.25rem] rounded-full object-cover shadow-lg"
+              />
+            ) : (
+              <div className="w-9 h-9 min-w-[2.25rem] rounded-full bg-gradient-to-tr from-purple-500 to-blue-500 flex items-center justify-center text-sm font-bold shadow-lg">
+                {(user?.full_name || user?.email)?.[0].toUpperCase()}
+              </div>
+            )}
             
             {isOpen && (
               <div className="flex-1 min-w-0 overflow-hidden">
-                <p className="text-sm font-medium text-white truncate">{user?.email}</p>
+                <p className="text-sm font-medium text-white truncate">{user?.full_name || user?.email}</p>
                 <button 
-                  onClick={logout}
+                  onClick={() => logout()}
                   className="text-xs text-gray-500 hover:text-red-400 transition-colors flex items-center gap-1 mt-0.5"
                 >
                   Sign Out
@@ -0,0 +1,136 @@
+import { useState, useRef, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  BuildingOfficeIcon,
+  CheckIcon,
+  ChevronUpDownIcon,
+  Cog6ToothIcon,
+  UserIcon,
+} from '@heroicons/react/24/outline';
+import { useWorkspace } from '../../context/WorkspaceContext';
+import { ROLE_LABELS } from '../../utils/workspace';
+import { formatCredits } from '../../utils/credits';
+
+type WorkspaceSwitcherProps = {
+  // Collapsed sidebars only have room for an icon, which expands the sidebar
+  isCollapsed: boolean;
+  onExpand: () => void;
+  onNavigate: () => void;
+};
+
+// Sidebar footer menu choosing which wallet requests are billed to
+export default function WorkspaceSwitcher({ isCollapsed, onExpand, onNavigate }: WorkspaceSwitcherProps) {
+  const { workspaces, activeWorkspace, switchWorkspace } = useWorkspace();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const Icon = activeWorkspace ? BuildingOfficeIcon : UserIcon;
+  const label = activeWorkspace?.name ?? 'Personal';
+
+  if (isCollapsed) {
+    return (
+      <button
+        onClick={onExpand}
+        className="w-full flex justify-center p-2 mb-3 rounded-lg text-gray-400 hover:text-white hover:bg-gray-800/40 transition-colors"
+        title={`Workspace: ${label}`}
+      >
+        <Icon className="w-5 h-5" />
+      </button>
+    );
+  }
+
+  const choose = (workspaceId: string | null) => {
+    switchWorkspace(workspaceId);
+    setIsOpen(false);
+    onNavigate();
+  };
+
+  return (
+    <div className="relative mb-3" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-800/30 border border-gray-800 text-sm text-gray-300 hover:text-white hover:bg-gray-800/60 transition-colors"
+      >
+        <Icon className="w-4 h-4 flex-shrink-0" />
+        <span className="flex-1 min-w-0 text-left truncate">{label}</span>
+        <ChevronUpDownIcon className="w-4 h-4 flex-shrink-0 text-gray-500" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-0 right-0 z-30 mb-2 bg-[#1a1d26] border border-gray-700/50 rounded-xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-200 origin-bottom">
+          <div className="max-h-64 overflow-y-auto py-1">
+            <MenuItem
+              icon={UserIcon}
+              label="Personal"
+              detail="Your own wallet"
+              isActive={!activeWorkspace}
+              onClick={() => choose(null)}
+            />
+            {workspaces.map((workspace) => (
+              <MenuItem
+                key={workspace.id}
+                icon={BuildingOfficeIcon}
+                label={workspace.name}
+                detail={`${ROLE_LABELS[workspace.role]} · ${formatCredits(Number(workspace.wallet.credits))} credits`}
+                isActive={workspace.id === activeWorkspace?.id}
+                onClick={() => choose(workspace.id)}
+              />
+            ))}
+          </div>
+          <Link
+            to="/dashboard/settings/workspace"
+            onClick={() => {
+              setIsOpen(false);
+              onNavigate();
+            }}
+            className="flex items-center gap-2 px-3 py-2.5 border-t border-gray-800 text-xs text-gray-400 hover:text-white hover:bg-gray-800/40 transition-colors"
+          >
+            <Cog6ToothIcon className="w-4 h-4" />
+            {activeWorkspace ? 'Manage workspace' : 'Create a team workspace'}
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// SUB-COMPONENTS
+
+function MenuItem({
+  icon: Icon,
+  label,
+  detail,
+  isActive,
+  onClick,
+}: {
+  icon: typeof UserIcon;
+  label: string;
+  detail: string;
+  isActive: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className="w-full flex items-center gap-2.5 px-3 py-2 text-left hover:bg-gray-800/40 transition-colors"
+    >
+      <Icon className="w-4 h-4 flex-shrink-0 text-gray-500" />
+      <span className="flex-1 min-w-0">
+        <span className="block text-sm text-gray-200 truncate">{label}</span>
+        <span className="block text-[11px] text-gray-500 truncate">{detail}</span>
+      </span>
+      {isActive && <CheckIcon className="w-4 h-4 flex-shrink-0 text-blue-400" />}
+    </button>
+  );
+}
@@ -0,0 +1,70 @@
+import { useState, useRef, useEffect } from "react";
+import {
+  ArrowDownTrayIcon,
+  ChevronDownIcon,
+  CodeBracketIcon,
+  DocumentTextIcon,
+  PrinterIcon,
+} from "@heroicons/react/24/outline";
+import type { ExportFormat } from "../utils/chatExport";
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+  isExporting?: boolean;
+  label?: string;
+}
+
+export default function ExportMenu({ onExport, disabled = false, isExporting = false, label = "Export" }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const options = [
+    { format: "markdown" as const, label: "Markdown (.md)", icon: DocumentTextIcon },
+    { format: "json" as const, label: "JSON (.json)", icon: CodeBracketIcon },
+    { format: "pdf" as const, label: "PDF (print)", icon: PrinterIcon },
+  ];
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled || isExporting}
+        className="flex items-center gap-1.5 h-9 px-3 bg-[#1a1d26] hover:bg-[#1f2229] text-gray-300 rounded-lg border border-gray-700/50 hover:border-blue-500/50 text-xs font-semibold transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        <ArrowDownTrayIcon className={`w-4 h-4 ${isExporting ? "animate-bounce" : ""}`} />
+        <span className="hidden sm:inline">{isExporting ? "Exporting..." : label}</span>
+        <ChevronDownIcon className={`w-3.5 h-3.5 text-gray-500 transition-transform duration-200 ${isOpen ? "rotate-180" : ""}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-30 mt-1.5 w-44 bg-[#1a1d26] border border-gray-700/50 rounded-lg shadow-2xl overflow-hidden py-1 animate-in fade-in zoom-in-95 duration-200 origin-top-right">
+          {options.map((option) => (
+            <button
+              key={option.format}
+              onClick={() => {
+                setIsOpen(false);
+                onExport(option.format);
+              }}
+              className="w-full flex items-center gap-2 px-3 py-2 text-xs text-gray-300 hover:bg-[#252833] hover:text-white transition-colors"
+            >
+              <option.icon className="w-4 h-4 text-gray-500" />
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
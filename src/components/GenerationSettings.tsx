@@ -0,0 +1,214 @@
+import { useState, useRef, useEffect } from "react";
+import { AdjustmentsHorizontalIcon } from "@heroicons/react/24/outline";
+import type { GenerationParams } from "../api/types";
+import {
+  PARAM_DEFAULTS,
+  REASONING_EFFORTS,
+  hasParams,
+  paramWarnings,
+  type ParamSupport,
+} from "../utils/generationParams";
+
+interface GenerationSettingsProps {
+  params: GenerationParams;
+  setParams: (params: GenerationParams) => void;
+  // What the models the next message goes to accept
+  support: ParamSupport;
+  disabled?: boolean;
+}
+
+// Advanced sampling controls for the next messages, next to the model picker
+export default function GenerationSettings({ params, setParams, support, disabled = false }: GenerationSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const warnings = paramWarnings(params, support);
+  const isCustomised = hasParams(params);
+
+  // Switching a control off drops the field so the model default applies
+  const setField = <K extends keyof GenerationParams>(key: K, value: GenerationParams[K] | undefined) => {
+    const next = { ...params };
+    if (value === undefined) delete next[key];
+    else next[key] = value;
+    setParams(next);
+  };
+
+  const toggleField = (key: keyof GenerationParams, enabled: boolean) =>
+    setField(key, enabled ? PARAM_DEFAULTS[key] : undefined);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`relative flex items-center justify-center h-9 w-9 bg-[#1a1d26] hover:bg-[#1f2229] rounded-lg border text-gray-300 transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+          isCustomised ? "border-blue-500/50" : "border-gray-700/50 hover:border-blue-500/50"
+        }`}
+        title="Generation settings"
+      >
+        <AdjustmentsHorizontalIcon className="w-4 h-4" />
+        {isCustomised && <span className="absolute top-1.5 right-1.5 w-1.5 h-1.5 rounded-full bg-blue-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-30 mt-1.5 w-72 bg-[#1a1d26] border border-gray-700/50 rounded-lg shadow-2xl p-3 space-y-4 animate-in fade-in zoom-in-95 duration-200 origin-top-right">
+          <div className="flex items-center justify-between">
+            <span className="text-[11px] font-semibold uppercase tracking-wide text-gray-500">Generation</span>
+            <button
+              onClick={() => setParams({})}
+              disabled={!isCustomised}
+              className="text-[11px] text-gray-400 hover:text-white disabled:opacity-40 transition-colors"
+            >
+              Reset to defaults
+            </button>
+          </div>
+
+          {/* Temperature */}
+          <ParamControl
+            label="Temperature"
+            hint="Higher is more varied, lower more focused"
+            enabled={params.temperature !== undefined}
+            onToggle={(on) => toggleField("temperature", on)}
+            unsupported={!support.temperature}
+            value={params.temperature?.toFixed(1)}
+            warning={warnings.temperature}
+          >
+            <input
+              type="range"
+              min={support.temperature?.[0] ?? 0}
+              max={support.temperature?.[1] ?? 2}
+              step={0.1}
+              value={params.temperature ?? PARAM_DEFAULTS.temperature}
+              onChange={(e) => setField("temperature", Number(e.target.value))}
+              className="w-full accent-blue-500"
+            />
+          </ParamControl>
+
+          {/* Top-p */}
+          <ParamControl
+            label="Top-p"
+            hint="Only sample from the most likely tokens"
+            enabled={params.top_p !== undefined}
+            onToggle={(on) => toggleField("top_p", on)}
+            unsupported={!support.topP}
+            value={params.top_p?.toFixed(2)}
+            warning={warnings.top_p}
+          >
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={params.top_p ?? PARAM_DEFAULTS.top_p}
+              onChange={(e) => setField("top_p", Number(e.target.value))}
+              className="w-full accent-blue-500"
+            />
+          </ParamControl>
+
+          {/* Max Tokens */}
+          <ParamControl
+            label="Max output tokens"
+            hint={support.maxTokens ? `Up to ${support.maxTokens.toLocaleString()}` : "Caps the length of each reply"}
+            enabled={params.max_tokens !== undefined}
+            onToggle={(on) => toggleField("max_tokens", on)}
+            unsupported={!support.maxTokens}
+            warning={warnings.max_tokens}
+          >
+            <input
+              type="number"
+              min={1}
+              max={support.maxTokens ?? undefined}
+              step={256}
+              value={params.max_tokens ?? ""}
+              onChange={(e) => setField("max_tokens", e.target.value ? Number(e.target.value) : PARAM_DEFAULTS.max_tokens)}
+              className="w-full h-8 px-2 bg-[#0f1117] border border-gray-700/50 rounded-md text-xs text-gray-200 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500/40"
+            />
+          </ParamControl>
+
+          {/* Reasoning Effort */}
+          <ParamControl
+            label="Reasoning effort"
+            hint="How long reasoning models think before answering"
+            enabled={params.reasoning_effort !== undefined}
+            onToggle={(on) => toggleField("reasoning_effort", on)}
+            unsupported={support.reasoningEfforts.length === 0}
+            warning={warnings.reasoning_effort}
+          >
+            <div className="grid grid-cols-4 gap-1">
+              {REASONING_EFFORTS.map((effort) => (
+                <button
+                  key={effort}
+                  onClick={() => setField("reasoning_effort", effort)}
+                  disabled={!support.reasoningEfforts.includes(effort)}
+                  className={`py-1 rounded-md text-[11px] capitalize transition-colors disabled:opacity-30 ${
+                    params.reasoning_effort === effort
+                      ? "bg-blue-600 text-white"
+                      : "bg-[#0f1117] text-gray-400 hover:text-gray-200"
+                  }`}
+                >
+                  {effort}
+                </button>
+              ))}
+            </div>
+          </ParamControl>
+
+          <p className="text-[10px] text-gray-600">Applies to each message you send from now on.</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// SUB-COMPONENTS
+
+function ParamControl({
+  label,
+  hint,
+  enabled,
+  onToggle,
+  unsupported,
+  value,
+  warning,
+  children,
+}: {
+  label: string;
+  hint: string;
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  unsupported: boolean;
+  value?: string;
+  warning?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className={unsupported && !enabled ? "opacity-50" : ""}>
+      <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onToggle(e.target.checked)}
+          disabled={unsupported && !enabled}
+          className="rounded border-gray-600 bg-gray-800 text-blue-600 focus:ring-blue-500"
+        />
+        <span className="font-medium">{label}</span>
+        {enabled && value && <span className="ml-auto font-mono text-gray-400">{value}</span>}
+      </label>
+      <p className="mt-0.5 ml-5 text-[10px] text-gray-500">
+        {unsupported ? "Not adjustable for the selected model" : hint}
+      </p>
+      {enabled && <div className="mt-2 ml-5">{children}</div>}
+      {enabled && warning && <p className="mt-1 ml-5 text-[10px] text-amber-400">{warning}</p>}
+    </div>
+  );
+}
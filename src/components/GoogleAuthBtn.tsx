@@ -1,11 +1,13 @@
 import { GoogleLogin } from '@react-oauth/google';
 import { useAuth } from '../context/AuthContext';
-import { useNavigate } from 'react-router-dom';
-import api from '../api/client';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { loginWithGoogle } from '../api/auth';
 
 export default function GoogleAuthBtn() {
   const { login } = useAuth();
   const navigate = useNavigate();
+  // Set by ProtectedRoute and SharePage, e.g. to accept an invite after signing in
+  const from = (useLocation().state as { from?: string } | null)?.from;
 
   const handleSuccess = async (credentialResponse: any) => {
     try {
@@ -13,13 +15,13 @@ export default function GoogleAuthBtn() {
       const { credential } = credentialResponse;
       
       // 2. Send it to Backend
-      const res = await api.post('/auth/google', { token: credential });
+      const { access_token, refresh_token } = await loginWithGoogle(credential);
       
-      // 3. Log the user in (save access token)
-      login(res.data.access_token);
+      // 3. Log the user in (save access + refresh tokens)
+      login(access_token, refresh_token);
       
-      // 4. Redirect to Dashboard
-      navigate('/dashboard');
+      // 4. Redirect to the page that asked for sign-in, or the Dashboard
+      navigate(from ?? '/dashboard', { replace: true });
     } catch (error) {
       console.error("Google Login Failed", error);
       alert("Login failed. Please try again.");
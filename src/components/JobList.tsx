@@ -0,0 +1,75 @@
+import { ArrowPathIcon, ExclamationTriangleIcon, XMarkIcon } from "@heroicons/react/24/solid";
+import { isPending, type GenerationJob } from "../hooks/useGenerationJobs";
+
+interface JobListProps {
+  jobs: GenerationJob[];
+  onDismiss: (taskId: string) => void;
+}
+
+const STATUS_LABELS: Record<GenerationJob["status"], string> = {
+  queued: "Queued",
+  processing: "Generating",
+  completed: "Done",
+  failed: "Failed",
+};
+
+// Running and failed jobs; completed ones are shown by the page itself
+export default function JobList({ jobs, onDismiss }: JobListProps) {
+  const visible = jobs.filter((job) => isPending(job) || job.status === "failed");
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {visible.map((job) => {
+        const failed = job.status === "failed";
+        return (
+          <div
+            key={job.taskId}
+            className={`relative overflow-hidden rounded-xl border px-4 py-3 ${
+              failed ? "bg-red-500/5 border-red-500/20" : "bg-slate-900/60 border-slate-700/50"
+            }`}
+          >
+            <div className="flex items-center gap-3">
+              {failed ? (
+                <ExclamationTriangleIcon className="w-4 h-4 text-red-400 flex-shrink-0" />
+              ) : (
+                <ArrowPathIcon className="w-4 h-4 text-blue-400 animate-spin flex-shrink-0" />
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-gray-200 truncate">{job.label}</p>
+                <p className={`text-xs ${failed ? "text-red-300" : "text-gray-500"}`}>
+                  {failed
+                    ? job.error || "Generation failed."
+                    : `${STATUS_LABELS[job.status]}${job.progress !== null ? ` · ${Math.round(job.progress)}%` : "..."}`}
+                </p>
+              </div>
+              {failed && (
+                <button
+                  onClick={() => onDismiss(job.taskId)}
+                  className="p-1 text-gray-500 hover:text-gray-300 rounded transition-colors"
+                  title="Dismiss"
+                >
+                  <XMarkIcon className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+
+            {/* Progress Bar */}
+            {!failed && (
+              <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-slate-800">
+                {job.progress !== null ? (
+                  <div
+                    className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-500"
+                    style={{ width: `${Math.max(2, Math.min(100, job.progress))}%` }}
+                  />
+                ) : (
+                  <div className="h-full w-1/3 bg-gradient-to-r from-blue-500 to-purple-500 animate-pulse" />
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
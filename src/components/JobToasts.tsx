@@ -0,0 +1,68 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { CheckCircleIcon, ExclamationTriangleIcon, XMarkIcon } from "@heroicons/react/24/solid";
+import { useJobs } from "../context/JobsContext";
+import { KIND_LABELS, jobResultPath, type GenerationJob } from "../hooks/useGenerationJobs";
+
+const TOAST_TIMEOUT = 6000;
+
+// Completion and failure notices for background generations
+export default function JobToasts() {
+  const { toasts, dismissToast } = useJobs();
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]">
+      {toasts.map((job) => (
+        <Toast key={job.taskId} job={job} onDismiss={dismissToast} />
+      ))}
+    </div>
+  );
+}
+
+// SUB-COMPONENTS
+
+function Toast({ job, onDismiss }: { job: GenerationJob; onDismiss: (taskId: string) => void }) {
+  const navigate = useNavigate();
+  const failed = job.status === "failed";
+
+  // Failures stay until dismissed so they aren't missed
+  useEffect(() => {
+    if (failed) return;
+    const timer = setTimeout(() => onDismiss(job.taskId), TOAST_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [failed, job.taskId, onDismiss]);
+
+  const open = () => {
+    navigate(jobResultPath(job));
+    onDismiss(job.taskId);
+  };
+
+  return (
+    <div
+      className={`flex items-start gap-3 p-3 rounded-xl border shadow-2xl bg-[#1a1d26] animate-in fade-in slide-in-from-bottom-2 duration-300 ${
+        failed ? "border-red-500/30" : "border-emerald-500/30"
+      }`}
+    >
+      {failed ? (
+        <ExclamationTriangleIcon className="w-5 h-5 text-red-400 flex-shrink-0" />
+      ) : (
+        <CheckCircleIcon className="w-5 h-5 text-emerald-400 flex-shrink-0" />
+      )}
+
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-semibold text-white">
+          {KIND_LABELS[job.kind]} {failed ? "failed" : "ready"}
+        </p>
+        <p className="text-xs text-gray-400 truncate">{failed ? job.error || job.label : job.label}</p>
+        <button onClick={open} className="mt-1 text-xs font-medium text-blue-400 hover:text-blue-300">
+          {failed ? "Try again" : "View result"}
+        </button>
+      </div>
+
+      <button onClick={() => onDismiss(job.taskId)} className="p-1 text-gray-500 hover:text-gray-300 rounded transition-colors" title="Dismiss">
+        <XMarkIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
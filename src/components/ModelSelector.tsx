@@ -1,15 +1,24 @@
-import { CpuChipIcon, SparklesIcon, ChevronDownIcon } from "@heroicons/react/24/solid";
+import { CpuChipIcon, SparklesIcon, ChevronDownIcon, ViewColumnsIcon, CheckIcon, EyeIcon, PaperClipIcon } from "@heroicons/react/24/solid";
 import { useState, useRef, useEffect } from "react";
+import type { CatalogModel } from "../api/types";
+import { formatContextLength, formatPrice, isSelectable, modelsOfKind, useCatalog } from "../hooks/useCatalog";
+
+// Compare mode sends one prompt to several models at once
+const MAX_COMPARE_MODELS = 4;
 
 interface ModelSelectorProps {
   model: string;
   setModel: (value: string) => void;
+  compareModels?: string[];
+  setCompareModels?: (models: string[]) => void;
 }
 
-export default function ModelSelector({ model, setModel }: ModelSelectorProps) {
+export default function ModelSelector({ model, setModel, compareModels = [], setCompareModels }: ModelSelectorProps) {
   const [isSmartMode, setIsSmartMode] = useState(model === "auto");
+  const isCompareMode = compareModels.length > 0;
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const { catalog, isFallback } = useCatalog();
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -27,50 +36,64 @@ export default function ModelSelector({ model, setModel }: ModelSelectorProps) {
     setIsSmartMode(newSmartMode);
     if (newSmartMode) {
       setModel("auto");
+      setCompareModels?.([]);
       setIsDropdownOpen(false);
     }
   };
 
+  const handleCompareToggle = () => {
+    if (!setCompareModels) return;
+    if (isCompareMode) {
+      setCompareModels([]);
+      return;
+    }
+    // Start from the current model so the first pick is a real comparison
+    setIsSmartMode(false);
+    const firstAvailable = chatModels.find(isSelectable)?.id;
+    const start = model !== "auto" ? model : firstAvailable;
+    // Until a second model is added the message goes to this one, not smart routing
+    if (start && start !== model) setModel(start);
+    setCompareModels(start ? [start] : []);
+    setIsDropdownOpen(true);
+  };
+
   const handleModelSelect = (selectedModel: string) => {
+    if (isCompareMode && setCompareModels) {
+      if (compareModels.includes(selectedModel)) {
+        // Keep at least one model so compare mode stays on until toggled off
+        if (compareModels.length > 1) {
+          setCompareModels(compareModels.filter((m) => m !== selectedModel));
+        }
+      } else if (compareModels.length < MAX_COMPARE_MODELS) {
+        setCompareModels([...compareModels, selectedModel]);
+      }
+      return;
+    }
+
     setModel(selectedModel);
     setIsDropdownOpen(false);
     setIsSmartMode(false);
   };
 
-  const modelGroups = [
-    {
-      label: "Intelligence",
-      models: [
-        { value: "gpt-5.2-pro", label: "GPT-5.2 Pro" },
-        { value: "claude-4.5-opus", label: "Claude 4.5 Opus" },
-        { value: "gemini-2.5-pro", label: "Gemini 2.5 Pro" }
-      ]
-    },
-    {
-      label: "Standard",
-      models: [
-        { value: "gpt-5.2", label: "GPT-5.2" },
-        { value: "gemini-3-pro-preview", label: "Gemini 3 Pro" },
-        { value: "claude-4.5-sonnet", label: "Claude 4.5 Sonnet" }
-      ]
-    },
-    {
-      label: "Speed",
-      models: [
-        { value: "gemini-3-flash-preview", label: "Gemini 3 Flash" },
-        { value: "gpt-5-mini", label: "GPT-5 Mini" },
-        { value: "gemini-2.5-flash", label: "Gemini 2.5 Flash" },
-        { value: "claude-4.5-haiku", label: "Claude 4.5 Haiku" }
-      ]
-    }
-  ];
+  // Sections in the order the catalog lists them
+  const chatModels = modelsOfKind(catalog, "chat");
+  const modelGroups = chatModels.reduce<{ label: string; models: CatalogModel[] }[]>((groups, m) => {
+    const group = groups.find(g => g.label === m.group);
+    if (group) group.models.push(m);
+    else groups.push({ label: m.group, models: [m] });
+    return groups;
+  }, []);
 
   const getSelectedModelLabel = () => {
+    if (isCompareMode) {
+      return `Compare ${compareModels.length} ${compareModels.length === 1 ? "model" : "models"}`;
+    }
     for (const group of modelGroups) {
-      const found = group.models.find(m => m.value === model);
+      const found = group.models.find(m => m.id === model);
       if (found) return found.label;
     }
-    return "Select Model";
+    // Not in the catalog (yet): show the id rather than nothing
+    return model !== "auto" ? model : "Select Model";
   };
 
   return (
@@ -106,6 +129,21 @@ export default function ModelSelector({ model, setModel }: ModelSelectorProps) {
             Smart Select
           </span>
         </div>
+
+        {setCompareModels && (
+          <button
+            onClick={handleCompareToggle}
+            className={`ml-auto flex items-center gap-1 px-1.5 py-0.5 rounded-md text-[10px] font-semibold uppercase tracking-wide transition-colors ${
+              isCompareMode
+                ? 'bg-purple-500/20 text-purple-300 border border-purple-500/40'
+                : 'text-gray-500 hover:text-gray-300 border border-transparent'
+            }`}
+            title="Send each prompt to several models side by side"
+          >
+            <ViewColumnsIcon className="w-3 h-3" />
+            Compare
+          </button>
+        )}
       </div>
 
       {/* Selection Row - Fixed Height to prevent shift */}
@@ -149,24 +187,53 @@ export default function ModelSelector({ model, setModel }: ModelSelectorProps) {
                       {group.label}
                     </div>
                     <div className="space-y-0.5">
-                      {group.models.map((modelOption) => (
-                        <button
-                          key={modelOption.value}
-                          onClick={() => handleModelSelect(modelOption.value)}
-                          className={`w-full text-left px-2 py-1.5 rounded-md text-xs transition-colors ${
-                            model === modelOption.value
-                              ? 'bg-blue-600/20 text-blue-100 border border-blue-500/30 font-medium'
-                              : 'text-gray-300 hover:bg-[#252833] hover:text-white border border-transparent'
-                          }`}
-                        >
-                          {modelOption.label}
-                        </button>
-                      ))}
+                      {group.models.map((modelOption) => {
+                        const isSelected = isCompareMode
+                          ? compareModels.includes(modelOption.id)
+                          : model === modelOption.id;
+                        const isAvailable = isSelectable(modelOption);
+                        const price = formatPrice(modelOption.price);
+                        const context = formatContextLength(modelOption.capabilities.context_length);
+                        return (
+                          <button
+                            key={modelOption.id}
+                            onClick={() => handleModelSelect(modelOption.id)}
+                            disabled={!isAvailable}
+                            title={!isAvailable ? "Temporarily unavailable" : price ?? undefined}
+                            className={`w-full flex items-center justify-between gap-2 text-left px-2 py-1.5 rounded-md text-xs transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                              isSelected
+                                ? 'bg-blue-600/20 text-blue-100 border border-blue-500/30 font-medium'
+                                : 'text-gray-300 hover:bg-[#252833] hover:text-white border border-transparent disabled:hover:bg-transparent'
+                            }`}
+                          >
+                            <span className="flex flex-col min-w-0">
+                              <span className="flex items-center gap-1.5 truncate">
+                                {modelOption.status === "degraded" && (
+                                  <span className="w-1.5 h-1.5 rounded-full bg-amber-400 flex-shrink-0" title="Degraded performance" />
+                                )}
+                                {modelOption.label}
+                              </span>
+                              {price && <span className="text-[10px] text-gray-500 font-normal truncate">{price}</span>}
+                            </span>
+                            <span className="flex items-center gap-1 flex-shrink-0 text-gray-500">
+                              {modelOption.capabilities.vision && <EyeIcon className="w-3 h-3" title="Understands images" />}
+                              {modelOption.capabilities.files && <PaperClipIcon className="w-3 h-3" title="Accepts files" />}
+                              {context && <span className="text-[10px] font-mono">{context}</span>}
+                              {isCompareMode && isSelected && <CheckIcon className="w-3 h-3 text-blue-300" />}
+                            </span>
+                          </button>
+                        );
+                      })}
                     </div>
                   </div>
                 </div>
               ))}
             </div>
+            {isFallback && (
+              <div className="px-3 py-1.5 border-t border-gray-700/30 text-[10px] text-gray-500">
+                Showing default models; live catalog unavailable
+              </div>
+            )}
           </div>
         )}
       </div>
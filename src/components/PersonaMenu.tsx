@@ -0,0 +1,161 @@
+import { useState, useRef, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { CheckIcon, ChevronDownIcon, Cog6ToothIcon, SparklesIcon } from "@heroicons/react/24/outline";
+import type { Persona } from "../api/types";
+
+const MAX_PROMPT_LENGTH = 8000;
+
+interface PersonaMenuProps {
+  personas: Persona[];
+  persona: Persona | null;
+  // This chat's own instructions; null when it follows the persona
+  systemPrompt: string | null;
+  onSelect: (persona: Persona | null) => void;
+  onSavePrompt: (systemPrompt: string | null) => void;
+  disabled?: boolean;
+}
+
+export default function PersonaMenu({
+  personas,
+  persona,
+  systemPrompt,
+  onSelect,
+  onSavePrompt,
+  disabled = false,
+}: PersonaMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState("");
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const toggle = () => {
+    if (!isOpen) setDraft(systemPrompt ?? persona?.system_prompt ?? "");
+    setIsOpen(!isOpen);
+  };
+
+  const choose = (next: Persona | null) => {
+    onSelect(next);
+    setDraft(next?.system_prompt ?? "");
+  };
+
+  // Matching the persona's prompt (or clearing it) means "follow the persona" again
+  const savePrompt = () => {
+    const trimmed = draft.trim();
+    onSavePrompt(!trimmed || trimmed === persona?.system_prompt ? null : trimmed);
+    setIsOpen(false);
+  };
+
+  const label = persona?.name ?? (systemPrompt ? "Custom instructions" : "Default assistant");
+  const isDirty = draft.trim() !== (systemPrompt ?? persona?.system_prompt ?? "");
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={toggle}
+        disabled={disabled}
+        className="flex items-center gap-1.5 h-9 max-w-[200px] px-3 bg-[#1a1d26] hover:bg-[#1f2229] text-gray-300 rounded-lg border border-gray-700/50 hover:border-blue-500/50 text-xs font-semibold transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+        title="Persona and instructions for this chat"
+      >
+        {persona ? (
+          <span className="text-sm leading-none">{persona.icon}</span>
+        ) : (
+          <SparklesIcon className="w-4 h-4 flex-shrink-0" />
+        )}
+        <span className="hidden sm:inline truncate">{label}</span>
+        {systemPrompt && persona && <span className="hidden sm:inline text-[10px] text-amber-400">edited</span>}
+        <ChevronDownIcon
+          className={`w-3.5 h-3.5 flex-shrink-0 text-gray-500 transition-transform duration-200 ${isOpen ? "rotate-180" : ""}`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-30 mt-1.5 w-80 bg-[#1a1d26] border border-gray-700/50 rounded-lg shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-200 origin-top-right">
+          <div className="max-h-56 overflow-y-auto py-1">
+            <PersonaOption
+              icon={<SparklesIcon className="w-4 h-4 text-gray-500" />}
+              label="Default assistant"
+              isActive={!persona}
+              onClick={() => choose(null)}
+            />
+            {personas.map((p) => (
+              <PersonaOption
+                key={p.id}
+                icon={<span className="text-sm leading-none">{p.icon}</span>}
+                label={p.name}
+                isActive={p.id === persona?.id}
+                onClick={() => choose(p)}
+              />
+            ))}
+          </div>
+
+          {/* Instructions */}
+          <div className="p-3 border-t border-gray-800 space-y-2">
+            <span className="block text-[11px] font-semibold uppercase tracking-wide text-gray-500">
+              Instructions for this chat
+            </span>
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={5}
+              maxLength={MAX_PROMPT_LENGTH}
+              placeholder="No instructions. Describe a role, tone or rules to follow..."
+              className="w-full px-2.5 py-2 bg-[#0f1117] border border-gray-700/50 rounded-lg text-xs text-gray-200 placeholder-gray-600 leading-relaxed resize-y focus:outline-none focus:ring-2 focus:ring-blue-500/40"
+            />
+            <div className="flex items-center justify-between gap-2">
+              <Link
+                to="/dashboard/personas"
+                className="flex items-center gap-1 text-[11px] text-gray-500 hover:text-gray-300 transition-colors"
+              >
+                <Cog6ToothIcon className="w-3.5 h-3.5" />
+                Manage personas
+              </Link>
+              <button
+                onClick={savePrompt}
+                disabled={!isDirty}
+                className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-40 disabled:hover:bg-blue-600 transition-colors"
+              >
+                Apply
+              </button>
+            </div>
+            <p className="text-[10px] text-gray-600">Changes apply from your next message.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// SUB-COMPONENTS
+
+function PersonaOption({
+  icon,
+  label,
+  isActive,
+  onClick,
+}: {
+  icon: React.ReactNode;
+  label: string;
+  isActive: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className="w-full flex items-center gap-2 px-3 py-2 text-xs text-gray-300 hover:bg-[#252833] hover:text-white transition-colors"
+    >
+      <span className="w-5 flex justify-center flex-shrink-0">{icon}</span>
+      <span className="flex-1 min-w-0 text-left truncate">{label}</span>
+      {isActive && <CheckIcon className="w-4 h-4 flex-shrink-0 text-blue-400" />}
+    </button>
+  );
+}
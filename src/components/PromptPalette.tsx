@@ -0,0 +1,64 @@
+import { Link } from "react-router-dom";
+import { BookOpenIcon } from "@heroicons/react/24/outline";
+import type { PromptTemplate } from "../api/types";
+import { templateVariables } from "../utils/promptTemplate";
+
+interface PromptPaletteProps {
+  matches: PromptTemplate[];
+  // Index of the keyboard-highlighted template
+  highlight: number;
+  onHighlight: (index: number) => void;
+  onChoose: (prompt: PromptTemplate) => void;
+}
+
+// Templates matching what follows "/" in the chat box
+export default function PromptPalette({ matches, highlight, onHighlight, onChoose }: PromptPaletteProps) {
+  return (
+    <div className="absolute bottom-full left-0 right-0 z-30 mb-2 bg-[#1a1d26] border border-gray-700/50 rounded-xl shadow-2xl overflow-hidden animate-in fade-in slide-in-from-bottom-2 duration-200">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-800 text-[11px] text-gray-500">
+        <span className="font-semibold uppercase tracking-wide">Prompts</span>
+        <span className="hidden sm:inline">↑↓ to move · Enter to insert · Esc to close</span>
+      </div>
+
+      {matches.length === 0 ? (
+        <p className="px-3 py-4 text-xs text-gray-500">No matching prompts.</p>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto py-1" role="listbox">
+          {matches.map((prompt, index) => {
+            const variableCount = templateVariables(prompt.body).length;
+            return (
+              <li key={prompt.id} role="option" aria-selected={index === highlight}>
+                <button
+                  // Keep focus in the textarea so typing can continue
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => onChoose(prompt)}
+                  onMouseEnter={() => onHighlight(index)}
+                  className={`w-full flex items-center gap-3 px-3 py-2 text-left transition-colors ${
+                    index === highlight ? "bg-blue-500/10" : ""
+                  }`}
+                >
+                  <span className="font-mono text-xs text-blue-400">/{prompt.command}</span>
+                  <span className="flex-1 min-w-0 text-sm text-gray-200 truncate">{prompt.title}</span>
+                  {variableCount > 0 && (
+                    <span className="text-[10px] text-gray-500">
+                      {variableCount} {variableCount === 1 ? "field" : "fields"}
+                    </span>
+                  )}
+                  <span className="hidden sm:inline text-[10px] text-gray-600">{prompt.category}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Link
+        to="/dashboard/prompts"
+        className="flex items-center gap-2 px-3 py-2 border-t border-gray-800 text-[11px] text-gray-400 hover:text-white hover:bg-gray-800/40 transition-colors"
+      >
+        <BookOpenIcon className="w-3.5 h-3.5" />
+        Manage prompt library
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import type { PromptTemplate } from "../api/types";
+import { fillTemplate, templateVariables, variableLabel } from "../utils/promptTemplate";
+
+interface PromptVariablesFormProps {
+  prompt: PromptTemplate;
+  onInsert: (text: string) => void;
+  onCancel: () => void;
+}
+
+// Asks for a template's {{variables}} before it goes into the chat box
+export default function PromptVariablesForm({ prompt, onInsert, onCancel }: PromptVariablesFormProps) {
+  const variables = templateVariables(prompt.body);
+  // Seeded so every name is an own key, even {{constructor}} or {{toString}}
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(variables.map((name) => [name, ""]))
+  );
+
+  const isComplete = variables.every((name) => values[name].trim());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isComplete) return;
+    onInsert(fillTemplate(prompt.body, values));
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") onCancel();
+      }}
+      className="absolute bottom-full left-0 right-0 z-30 mb-2 bg-[#1a1d26] border border-gray-700/50 rounded-xl shadow-2xl p-3 space-y-3 animate-in fade-in slide-in-from-bottom-2 duration-200"
+    >
+      <div className="flex items-center gap-2">
+        <span className="font-mono text-xs text-blue-400">/{prompt.command}</span>
+        <span className="flex-1 min-w-0 text-sm font-medium text-gray-200 truncate">{prompt.title}</span>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="p-1 rounded-md text-gray-500 hover:text-white hover:bg-gray-800/60 transition-colors"
+          aria-label="Cancel"
+        >
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-60 overflow-y-auto">
+        {variables.map((name, index) => (
+          <label key={name} className="block">
+            <span className="block mb-1 text-[11px] font-medium text-gray-400">{variableLabel(name)}</span>
+            <input
+              value={values[name]}
+              onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+              autoFocus={index === 0}
+              className="w-full h-8 px-2.5 bg-[#0f1117] border border-gray-700/50 rounded-md text-xs text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/40"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-end gap-3">
+        <span className="mr-auto text-[10px] text-gray-600">You can still edit the text before sending.</span>
+        <button
+          type="submit"
+          disabled={!isComplete}
+          className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-40 disabled:hover:bg-blue-600 transition-colors"
+        >
+          Insert
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -1,5 +1,5 @@
 import { type ReactNode } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import Loading from './Loading';
 
@@ -11,13 +11,15 @@ interface ProtectedRouteProps {
 // Add the type to the component function
 export default function ProtectedRoute({ children }: ProtectedRouteProps) {
   const { token, isLoading } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return <div className="flex h-screen items-center justify-center bg-[#0f1117] text-white"><Loading /></div>;
   }
 
   if (!token) {
-    return <Navigate to="/login" replace />;
+    // Come back here after signing in, e.g. to accept an emailed invite
+    return <Navigate to="/login" replace state={{ from: location.pathname + location.search }} />;
   }
 
   return <>{children}</>;
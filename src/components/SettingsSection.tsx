@@ -0,0 +1,25 @@
+import { type ComponentType, type ReactNode, type SVGProps } from 'react';
+
+interface SettingsSectionProps {
+  icon: ComponentType<SVGProps<SVGSVGElement>>;
+  title: string;
+  // Optional controls shown on the right of the title
+  action?: ReactNode;
+  children: ReactNode;
+}
+
+// Titled card used by the settings pages
+export default function SettingsSection({ icon: Icon, title, action, children }: SettingsSectionProps) {
+  return (
+    <section className="bg-slate-900/50 border border-slate-800 rounded-2xl p-5 sm:p-6">
+      <div className="flex items-center justify-between gap-4 mb-5">
+        <h2 className="flex items-center gap-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+          <Icon className="w-4 h-4" />
+          {title}
+        </h2>
+        {action}
+      </div>
+      {children}
+    </section>
+  );
+}
@@ -0,0 +1,32 @@
+import { NavLink } from "react-router-dom";
+
+const TABS = [
+  { to: "/dashboard/settings", label: "Profile & defaults", end: true },
+  { to: "/dashboard/settings/security", label: "Security", end: false },
+  { to: "/dashboard/settings/workspace", label: "Workspace", end: false },
+  { to: "/dashboard/settings/api-keys", label: "API keys", end: false },
+];
+
+// Switches between the settings sub-pages
+export default function SettingsTabs() {
+  return (
+    <div className="flex gap-1 mb-8 border-b border-slate-800">
+      {TABS.map((tab) => (
+        <NavLink
+          key={tab.to}
+          to={tab.to}
+          end={tab.end}
+          className={({ isActive }) =>
+            `px-4 py-2.5 -mb-px text-sm font-medium border-b-2 transition-colors ${
+              isActive
+                ? "border-blue-500 text-white"
+                : "border-transparent text-gray-500 hover:text-gray-300"
+            }`
+          }
+        >
+          {tab.label}
+        </NavLink>
+      ))}
+    </div>
+  );
+}
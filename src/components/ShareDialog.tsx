@@ -0,0 +1,254 @@
+import { useEffect, useState } from "react";
+import useSWR from "swr";
+import {
+  CheckIcon,
+  ClipboardDocumentIcon,
+  GlobeAltIcon,
+  LinkIcon,
+  TrashIcon,
+  UserGroupIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import { createChatShare, listChatShares, revokeChatShare, shareUrl } from "../api/chat";
+import { errorMessage } from "../api/errors";
+import type { ChatShare, ChatShareVisibility } from "../api/types";
+import { useWorkspace } from "../context/WorkspaceContext";
+import { timeAgo } from "../utils/time";
+
+interface ShareDialogProps {
+  chatId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Create, copy and revoke read-only links to a conversation
+export default function ShareDialog({ chatId, isOpen, onClose }: ShareDialogProps) {
+  const { workspaces, activeWorkspace } = useWorkspace();
+  const {
+    data: shares,
+    isLoading,
+    mutate,
+  } = useSWR(isOpen ? (["/chat/shares", chatId] as const) : null, ([, id]) => listChatShares(id));
+
+  const [visibility, setVisibility] = useState<ChatShareVisibility>("public");
+  const [includeAttachments, setIncludeAttachments] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Workspace links belong to the workspace picked in the sidebar
+  const effectiveVisibility = activeWorkspace ? visibility : "public";
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleEscape);
+    return () => window.removeEventListener("keydown", handleEscape);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const copyLink = async (share: ChatShare) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(share.token));
+      setCopiedId(share.id);
+      setTimeout(() => setCopiedId((current) => (current === share.id ? null : current)), 2000);
+    } catch (err) {
+      console.error("Failed copy", err);
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      const share = await createChatShare(chatId, {
+        visibility: effectiveVisibility,
+        include_attachments: includeAttachments,
+        ...(effectiveVisibility === "workspace" && activeWorkspace ? { workspace_id: activeWorkspace.id } : {}),
+      });
+      await mutate();
+      await copyLink(share);
+    } catch (err) {
+      console.error("Creating share link failed", err);
+      setError(errorMessage(err, "Could not create the link."));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (share: ChatShare) => {
+    if (!window.confirm("Revoke this link? Anyone who has it will no longer be able to open the conversation.")) return;
+    setRevokingId(share.id);
+    setError(null);
+    try {
+      await revokeChatShare(share.id);
+      await mutate();
+    } catch (err) {
+      console.error("Revoking share link failed", err);
+      setError(errorMessage(err, "Could not revoke the link."));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const workspaceName = (id: string | null) => workspaces.find((w) => w.id === id)?.name ?? "workspace";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="w-full max-w-lg bg-[#13151c] border border-gray-700/50 rounded-2xl shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-800">
+          <div className="flex items-center gap-2">
+            <LinkIcon className="w-5 h-5 text-blue-400" />
+            <h2 className="text-base font-semibold text-white">Share conversation</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-gray-800/60 transition-colors"
+            aria-label="Close"
+          >
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* New Link */}
+        <div className="px-5 py-4 space-y-3 border-b border-gray-800">
+          <div className="grid grid-cols-2 gap-2">
+            <VisibilityOption
+              icon={GlobeAltIcon}
+              label="Anyone with the link"
+              hint="Read-only, no sign-in needed"
+              isSelected={effectiveVisibility === "public"}
+              onSelect={() => setVisibility("public")}
+            />
+            <VisibilityOption
+              icon={UserGroupIcon}
+              label={activeWorkspace ? `${activeWorkspace.name} members` : "Workspace members"}
+              hint={activeWorkspace ? "Members can fork it into their chats" : "Switch to a team workspace first"}
+              isSelected={effectiveVisibility === "workspace"}
+              onSelect={() => setVisibility("workspace")}
+              disabled={!activeWorkspace}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={includeAttachments}
+              onChange={(e) => setIncludeAttachments(e.target.checked)}
+              className="rounded border-gray-600 bg-gray-800 text-blue-600 focus:ring-blue-500"
+            />
+            Show attachment names
+          </label>
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+
+          <button
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="w-full py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-semibold text-white disabled:opacity-50 transition-colors"
+          >
+            {isCreating ? "Creating link..." : "Create and copy link"}
+          </button>
+        </div>
+
+        {/* Existing Links */}
+        <div className="px-5 py-4 max-h-72 overflow-y-auto">
+          <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">Active links</h3>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : !shares || shares.length === 0 ? (
+            <p className="text-sm text-gray-500">This conversation hasn't been shared yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {shares.map((share) => {
+                const Icon = share.visibility === "public" ? GlobeAltIcon : UserGroupIcon;
+                return (
+                  <li
+                    key={share.id}
+                    className="flex items-center gap-3 px-3 py-2.5 rounded-lg bg-gray-800/30 border border-gray-800"
+                  >
+                    <Icon className="w-4 h-4 flex-shrink-0 text-gray-400" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-200 truncate">
+                        {share.visibility === "public" ? "Public link" : `${workspaceName(share.workspace_id)} only`}
+                      </p>
+                      <p className="text-[11px] text-gray-500 truncate">
+                        Created {timeAgo(share.created_at)} · {share.view_count}{" "}
+                        {share.view_count === 1 ? "view" : "views"}
+                        {!share.include_attachments && " · attachments hidden"}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => copyLink(share)}
+                      className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700/50 transition-colors"
+                      title="Copy link"
+                    >
+                      {copiedId === share.id ? (
+                        <CheckIcon className="w-4 h-4 text-emerald-400" />
+                      ) : (
+                        <ClipboardDocumentIcon className="w-4 h-4" />
+                      )}
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(share)}
+                      disabled={revokingId === share.id}
+                      className="p-1.5 rounded-lg text-gray-400 hover:text-red-400 hover:bg-red-500/10 disabled:opacity-40 transition-colors"
+                      title="Revoke link"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// SUB-COMPONENTS
+
+function VisibilityOption({
+  icon: Icon,
+  label,
+  hint,
+  isSelected,
+  onSelect,
+  disabled = false,
+}: {
+  icon: typeof GlobeAltIcon;
+  label: string;
+  hint: string;
+  isSelected: boolean;
+  onSelect: () => void;
+  disabled?: boolean;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      disabled={disabled}
+      className={`flex flex-col items-start gap-1 p-3 rounded-xl border text-left transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+        isSelected
+          ? "border-blue-500/60 bg-blue-500/10"
+          : "border-gray-700/50 bg-gray-800/20 hover:border-gray-600"
+      }`}
+    >
+      <Icon className={`w-4 h-4 ${isSelected ? "text-blue-400" : "text-gray-400"}`} />
+      <span className="text-sm font-medium text-gray-200 truncate max-w-full">{label}</span>
+      <span className="text-[11px] text-gray-500">{hint}</span>
+    </button>
+  );
+}
@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import useSWR from 'swr';
+import {
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  ClipboardDocumentIcon,
+  KeyIcon,
+} from '@heroicons/react/24/outline';
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+} from '../api/users';
+import { ApiError, errorMessage } from '../api/errors';
+import type { TwoFactorSetup } from '../api/types';
+import { downloadFile } from '../utils/download';
+import SettingsSection from './SettingsSection';
+
+// Actions on an enabled 2FA that need a fresh code to go through
+type ConfirmAction = 'disable' | 'regenerate';
+
+const codeErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof ApiError && (err.status === 400 || err.status === 401)) {
+    return "That code didn't work. Check your authenticator app and try again.";
+  }
+  return errorMessage(err, fallback);
+};
+
+// Enrolment, recovery codes and turning TOTP two-factor auth off
+export default function TwoFactorSettings() {
+  const { data: status, isLoading, mutate } = useSWR('/users/me/2fa', getTwoFactorStatus);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  // Shown once after enabling or regenerating, until the user dismisses them
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const reset = () => {
+    setCode('');
+    setError(null);
+  };
+
+  const handleStartSetup = async () => {
+    setIsWorking(true);
+    reset();
+    try {
+      setSetup(await startTwoFactorSetup());
+    } catch (err) {
+      console.error('Starting 2FA setup failed', err);
+      setError(errorMessage(err, 'Could not start setup.'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Runs the enrolment confirmation or one of the confirm actions with the typed code
+  const handleSubmitCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = code.trim();
+    if (!value) {
+      setError('Enter a code to continue.');
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (setup) {
+        const { recovery_codes } = await enableTwoFactor(value.replace(/\s/g, ''));
+        setRecoveryCodes(recovery_codes);
+        setSetup(null);
+      } else if (confirmAction === 'regenerate') {
+        const { recovery_codes } = await regenerateRecoveryCodes(value);
+        setRecoveryCodes(recovery_codes);
+        setConfirmAction(null);
+      } else if (confirmAction === 'disable') {
+        await disableTwoFactor(value);
+        setConfirmAction(null);
+      }
+      setCode('');
+      await mutate();
+    } catch (err) {
+      console.error('2FA update failed', err);
+      setError(codeErrorMessage(err, 'Something went wrong. Please try again.'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const badge = status?.enabled ? (
+    <span className="px-2 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wider bg-emerald-500/10 text-emerald-400">
+      On
+    </span>
+  ) : (
+    <span className="px-2 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wider bg-slate-800 text-gray-400">
+      Off
+    </span>
+  );
+
+  const codeForm = (label: string, submitLabel: string, hint?: string) => (
+    <form onSubmit={handleSubmitCode} className="mt-4 space-y-2">
+      <label className="block text-xs font-medium text-gray-400">{label}</label>
+      <div className="flex gap-2">
+        <input
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value);
+            setError(null);
+          }}
+          autoFocus
+          autoComplete="one-time-code"
+          placeholder="123456"
+          className="flex-1 h-10 px-3 bg-slate-950/40 border border-slate-700/60 rounded-lg text-sm text-gray-100 font-mono tracking-widest placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500/40"
+        />
+        <button
+          type="submit"
+          disabled={isWorking}
+          className="flex items-center gap-2 px-4 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-semibold text-white transition-colors disabled:opacity-50"
+        >
+          {isWorking && <ArrowPathIcon className="w-4 h-4 animate-spin" />}
+          {submitLabel}
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setSetup(null);
+            setConfirmAction(null);
+            reset();
+          }}
+          className="px-3 text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+      {(error || hint) && <p className={`text-xs ${error ? 'text-red-400' : 'text-gray-500'}`}>{error ?? hint}</p>}
+    </form>
+  );
+
+  return (
+    <SettingsSection icon={KeyIcon} title="Two-factor authentication" action={status && badge}>
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <ArrowPathIcon className="w-5 h-5 text-gray-500 animate-spin" />
+        </div>
+      ) : recoveryCodes ? (
+        <RecoveryCodesPanel codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+      ) : setup ? (
+        <>
+          {/* Enrolment */}
+          <div className="flex flex-col sm:flex-row gap-6">
+            <img
+              src={setup.qr_code}
+              alt="QR code for your authenticator app"
+              className="w-40 h-40 flex-shrink-0 self-center rounded-xl bg-white p-2"
+            />
+            <div className="space-y-3 text-sm text-gray-400">
+              <p>
+                Scan this code with an authenticator app such as Google Authenticator, 1Password or Authy, then
+                enter the 6-digit code it shows.
+              </p>
+              <div>
+                <p className="text-xs text-gray-500 mb-1">Can't scan? Enter this key instead:</p>
+                <code className="block px-3 py-2 rounded-lg bg-slate-950/60 border border-slate-800 text-gray-200 font-mono text-xs break-all">
+                  {setup.secret}
+                </code>
+              </div>
+            </div>
+          </div>
+          {codeForm('Code from your app', 'Turn on')}
+        </>
+      ) : status?.enabled ? (
+        <>
+          <p className="text-sm text-gray-400">
+            Signing in with your email and password also asks for a code from your authenticator app.{' '}
+            <span className={status.recovery_codes_remaining <= 2 ? 'text-amber-400' : ''}>
+              {status.recovery_codes_remaining} recovery code{status.recovery_codes_remaining === 1 ? '' : 's'} left.
+            </span>
+          </p>
+          {confirmAction ? (
+            codeForm(
+              'Enter a code from your app, or a recovery code, to confirm',
+              confirmAction === 'disable' ? 'Turn off' : 'Generate',
+              confirmAction === 'regenerate' ? 'Your current recovery codes will stop working.' : undefined
+            )
+          ) : (
+            <div className="flex flex-wrap gap-3 mt-4">
+              <button
+                onClick={() => {
+                  reset();
+                  setConfirmAction('regenerate');
+                }}
+                className="px-4 py-2 rounded-lg border border-slate-700 text-sm font-medium text-gray-300 hover:bg-slate-800 transition-colors"
+              >
+                New recovery codes
+              </button>
+              <button
+                onClick={() => {
+                  reset();
+                  setConfirmAction('disable');
+                }}
+                className="px-4 py-2 rounded-lg border border-red-500/40 text-sm font-medium text-red-400 hover:bg-red-500/10 transition-colors"
+              >
+                Turn off
+              </button>
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <p className="text-sm text-gray-400">
+            Protect your credits with a code from an authenticator app whenever you sign in with your password.
+          </p>
+          <button
+            onClick={handleStartSetup}
+            disabled={isWorking}
+            className="flex items-center justify-center gap-2 px-4 py-2 flex-shrink-0 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-semibold text-white transition-colors disabled:opacity-50"
+          >
+            {isWorking && <ArrowPathIcon className="w-4 h-4 animate-spin" />}
+            Set up
+          </button>
+        </div>
+      )}
+      {!setup && !confirmAction && error && <p className="mt-3 text-xs text-red-400">{error}</p>}
+    </SettingsSection>
+  );
+}
+
+// SUB-COMPONENTS
+
+// Freshly issued recovery codes, shown until dismissed
+function RecoveryCodesPanel({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const [copied, setCopied] = useState(false);
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch (err) {
+      console.error('Copy failed', err);
+    }
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-amber-300 mb-4">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone, and they won't be
+        shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 p-4 rounded-xl bg-slate-950/60 border border-slate-800 font-mono text-sm text-gray-200">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex flex-wrap items-center gap-3 mt-4">
+        <button
+          onClick={handleCopy}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-lg border border-slate-700 text-sm text-gray-300 hover:bg-slate-800 transition-colors"
+        >
+          <ClipboardDocumentIcon className="w-4 h-4" />
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+        <button
+          onClick={() => downloadFile(text + '\n', 'recovery-codes.txt', 'text/plain')}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-lg border border-slate-700 text-sm text-gray-300 hover:bg-slate-800 transition-colors"
+        >
+          <ArrowDownTrayIcon className="w-4 h-4" />
+          Download
+        </button>
+        <button
+          onClick={onDone}
+          className="ml-auto px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-semibold text-white transition-colors"
+        >
+          I've saved them
+        </button>
+      </div>
+    </div>
+  );
+}
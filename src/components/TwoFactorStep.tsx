@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { verifyTwoFactor } from '../api/auth';
+import { storeDeviceToken } from '../api/token';
+import type { TokenResponse } from '../api/types';
+import { authErrorMessage } from '../utils/authForm';
+import AuthCard from './AuthCard';
+import AuthField from './AuthField';
+
+// Second sign-in step on accounts with 2FA, after any flow that returns a
+// challenge instead of tokens (password login, email link, password reset)
+export default function TwoFactorStep({
+  challengeToken,
+  onVerified,
+  onCancel,
+}: {
+  challengeToken: string;
+  onVerified: (tokens: TokenResponse) => void;
+  onCancel: () => void;
+}) {
+  const [code, setCode] = useState('');
+  // Recovery codes are longer and may contain letters and dashes
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [rememberDevice, setRememberDevice] = useState(false);
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = useRecoveryCode ? code.trim() : code.replace(/\s/g, '');
+    if (useRecoveryCode ? !value : !/^\d{6}$/.test(value)) {
+      setError(useRecoveryCode ? 'Enter one of your recovery codes.' : 'Enter the 6-digit code from your app.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const res = await verifyTwoFactor({
+        challenge_token: challengeToken,
+        code: value,
+        remember_device: rememberDevice,
+      });
+      if (res.device_token) storeDeviceToken(res.device_token);
+      onVerified(res);
+    } catch (err) {
+      setError(authErrorMessage(err, 'twoFactor'));
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AuthCard
+      title="Two-step verification"
+      subtitle={
+        useRecoveryCode
+          ? 'Enter one of the recovery codes you saved when you turned on 2FA. Each code works once.'
+          : 'Enter the 6-digit code from your authenticator app.'
+      }
+      footer={
+        <button onClick={onCancel} className="font-semibold text-gray-900 hover:underline">
+          Use a different account
+        </button>
+      }
+    >
+      {error && <p className="text-red-500 text-sm mb-4 text-center">{error}</p>}
+      <form onSubmit={handleSubmit} noValidate className="space-y-4">
+        <AuthField
+          label={useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+          value={code}
+          onChange={setCode}
+          autoFocus
+          autoComplete="one-time-code"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          maxLength={useRecoveryCode ? 32 : 7}
+          placeholder={useRecoveryCode ? 'xxxx-xxxx' : '123456'}
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={rememberDevice}
+            onChange={(e) => setRememberDevice(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Don't ask again on this device for 30 days
+        </label>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full bg-gray-900 text-white p-3 rounded-lg font-semibold hover:bg-gray-800 transition disabled:opacity-60"
+        >
+          {isSubmitting ? 'Verifying…' : 'Verify'}
+        </button>
+      </form>
+      <button
+        type="button"
+        onClick={() => {
+          setUseRecoveryCode((prev) => !prev);
+          setCode('');
+          setError('');
+        }}
+        className="mt-4 w-full text-xs text-gray-500 hover:text-gray-800 hover:underline"
+      >
+        {useRecoveryCode ? 'Use your authenticator app instead' : "Can't use your app? Enter a recovery code"}
+      </button>
+    </AuthCard>
+  );
+}
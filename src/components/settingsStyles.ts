@@ -0,0 +1,3 @@
+// Text inputs and selects inside a SettingsSection card
+export const inputClass =
+  'w-full h-10 px-3 bg-slate-950/40 border border-slate-700/60 rounded-lg text-sm text-gray-100 placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500/40';
@@ -1,29 +1,34 @@
-import { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
-import api from '../api/client';
+import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { mutate } from 'swr';
+import { setSessionHandlers } from '../api/client';
+import { clearTokens, getAccessToken, storeTokens } from '../api/token';
+import { getMe, revokeAllSessions, updateMe } from '../api/users';
+import type { User, UserUpdateRequest } from '../api/types';
 
-interface User {
-  email: string;
-  full_name?: string;
-  wallet?: {
-    credits: number;
-  };
-}
+type LogoutOptions = {
+  // Set when the refresh token is rejected; shows a notice on the login page
+  sessionExpired?: boolean;
+};
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
-  login: (token: string) => void;
-  logout: () => void;
+  login: (token: string, refreshToken?: string) => void;
+  logout: (options?: LogoutOptions) => void;
+  // Ends every session on the server, this one included, then signs out
+  logoutEverywhere: () => Promise<void>;
   isAuthenticated: boolean;
   isLoading: boolean;
   refreshProfile: () => Promise<void>;
+  // Saves profile fields or preferences; throws ApiError on failure
+  updateProfile: (body: UserUpdateRequest) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [token, setToken] = useState<string | null>(localStorage.getItem('access_token'));
+  const [token, setToken] = useState<string | null>(getAccessToken());
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const navigate = useNavigate();
@@ -31,12 +36,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   // Define the Fetch Logic Separately
   const fetchUserProfile = async (accessToken: string) => {
     try {
-      const response = await api.get('/users/me', {
-        // Ensure we use the specific token passed in, or fallback to state
-        headers: { Authorization: `Bearer ${accessToken}` }
-      });
-      setUser(response.data);
-      console.log("User profile fetched successfully:", response.data);
+      // Ensure we use the specific token passed in, or fallback to state
+      const profile = await getMe(accessToken);
+      setUser(profile);
+      console.log("User profile fetched successfully:", profile);
     } catch (error) {
       console.error("Failed to fetch user:", error);
     }
@@ -45,26 +48,55 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   // Create the refreshProfile function
   const refreshProfile = async () => {
     if (token) {
-      await fetchUserProfile(token);
+      // Team wallets are debited too, so refresh their balances alongside
+      await Promise.all([fetchUserProfile(token), mutate('/workspaces')]);
     }
   };
 
-  const login = (newToken: string) => {
-    localStorage.setItem('access_token', newToken);
+  const updateProfile = async (body: UserUpdateRequest) => {
+    const profile = await updateMe(body);
+    setUser(profile);
+  };
+
+  const login = (newToken: string, refreshToken?: string) => {
+    storeTokens(newToken, refreshToken);
     setToken(newToken);
   };
 
-  const logout = () => {
+  const logout = useCallback((options?: LogoutOptions) => {
+    if (options?.sessionExpired) {
+      // Drop the session right away so nothing keeps retrying with a dead token
+      clearTokens();
+      setToken(null);
+      setUser(null);
+      navigate('/login', { replace: true, state: { sessionExpired: true } });
+      return;
+    }
+
     setIsLoading(true);
     navigate('/');
     setTimeout(() => {
-      localStorage.removeItem('access_token');
+      clearTokens();
       setToken(null);
       setUser(null);
       setIsLoading(false);
     }, 50);
+  }, [navigate]);
+
+  const logoutEverywhere = async () => {
+    await revokeAllSessions();
+    logout();
   };
 
+  // Let the axios client report refreshed tokens and failed refreshes
+  useEffect(() => {
+    setSessionHandlers({
+      onTokenRefreshed: (accessToken) => setToken(accessToken),
+      onSessionExpired: () => logout({ sessionExpired: true }),
+    });
+    return () => setSessionHandlers(null);
+  }, [logout]);
+
   // Use Effect calls the shared logic
   useEffect(() => {
     const initAuth = async () => {
@@ -90,7 +122,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       token, 
       login, 
       logout, 
+      logoutEverywhere,
       refreshProfile,
+      updateProfile,
       isAuthenticated: !!user, 
       isLoading 
     }}>
@@ -0,0 +1,111 @@
+import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { mutate } from 'swr';
+import { useAuth } from './AuthContext';
+import { KIND_LABELS, jobResultPath, useGenerationJobs, type GenerationJob } from '../hooks/useGenerationJobs';
+import { usePreferences } from '../hooks/usePreferences';
+import type { GenerationKind } from '../api/types';
+
+type JobsContextType = {
+  jobs: GenerationJob[];
+  track: (taskId: string, kind: GenerationKind, label: string) => void;
+  dismiss: (taskId: string) => void;
+  clearSettled: () => void;
+  // Jobs that settled recently and haven't been acknowledged yet
+  toasts: GenerationJob[];
+  dismissToast: (taskId: string) => void;
+};
+
+const JobsContext = createContext<JobsContextType | null>(null);
+
+const STORAGE_KEY = 'generationJobs';
+const MAX_STORED_JOBS = 20;
+
+// SWR lists that show the output of each kind of job
+const RESULT_LISTS: Record<GenerationKind, string[]> = {
+  audio: ['/media/list'],
+  image: ['/media/images/list', '/media/images/list?limit=20'],
+  avatar: ['/media/videos/list'],
+};
+
+// Jobs survive a reload, so polling picks up where it left off
+const loadStoredJobs = (): GenerationJob[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export function JobsProvider({ children }: { children: ReactNode }) {
+  const { token, refreshProfile } = useAuth();
+  const navigate = useNavigate();
+  const { notifications } = usePreferences();
+  const [toasts, setToasts] = useState<GenerationJob[]>([]);
+
+  const notify = (job: GenerationJob) => {
+    if (notifications.job_toasts) {
+      setToasts((prev) => [job, ...prev.filter((t) => t.taskId !== job.taskId)]);
+    }
+
+    // The in-app toast is enough while the tab is in front
+    if (!notifications.browser_notifications || !document.hidden) return;
+    if (!('Notification' in window) || Notification.permission !== 'granted') return;
+    const failed = job.status === 'failed';
+    const notification = new Notification(
+      `${KIND_LABELS[job.kind]} ${failed ? 'failed' : 'ready'}`,
+      { body: failed ? job.error || job.label : job.label, tag: job.taskId }
+    );
+    notification.onclick = () => {
+      window.focus();
+      navigate(jobResultPath(job));
+      notification.close();
+    };
+  };
+
+  const { jobs, track: trackJob, dismiss, clearSettled, clearAll } = useGenerationJobs((job) => {
+    RESULT_LISTS[job.kind].forEach((key) => mutate(key));
+    // A failed job may have been refunded
+    if (job.status === 'failed') refreshProfile();
+    notify(job);
+  }, loadStoredJobs);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs.slice(0, MAX_STORED_JOBS)));
+  }, [jobs]);
+
+  // Another account must not inherit these jobs
+  const [sessionToken, setSessionToken] = useState(token);
+  if (token !== sessionToken) {
+    setSessionToken(token);
+    if (!token) {
+      clearAll();
+      setToasts([]);
+    }
+  }
+
+  const track = useCallback((taskId: string, kind: GenerationKind, label: string) => {
+    trackJob(taskId, kind, label);
+    // Ask while the user is acting, so we can notify from a background tab later
+    if (notifications.browser_notifications && 'Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => {});
+    }
+  }, [trackJob, notifications.browser_notifications]);
+
+  const dismissToast = useCallback((taskId: string) => {
+    setToasts((prev) => prev.filter((t) => t.taskId !== taskId));
+  }, []);
+
+  return (
+    <JobsContext.Provider value={{ jobs, track, dismiss, clearSettled, toasts, dismissToast }}>
+      {children}
+    </JobsContext.Provider>
+  );
+}
+
+export function useJobs() {
+  const ctx = useContext(JobsContext);
+  if (!ctx) throw new Error('useJobs must be used inside JobsProvider');
+  return ctx;
+}
@@ -0,0 +1,94 @@
+import { createContext, useContext, useState, type ReactNode } from 'react';
+import useSWR, { mutate } from 'swr';
+import { useAuth } from './AuthContext';
+import { getActiveWorkspaceId, storeActiveWorkspaceId } from '../api/token';
+import { listWorkspaces } from '../api/workspaces';
+import type { Workspace } from '../api/types';
+
+type WorkspaceContextType = {
+  workspaces: Workspace[];
+  // Set as soon as a workspace is picked, before the list has loaded
+  activeWorkspaceId: string | null;
+  // null while the personal account is active
+  activeWorkspace: Workspace | null;
+  switchWorkspace: (workspaceId: string | null) => void;
+  // Balance of the wallet requests are billed to; null until it is known
+  walletCredits: number | null;
+  // What the user may still spend: the wallet, limited by their spend cap
+  spendableCredits: number | null;
+  refreshWorkspaces: () => Promise<unknown>;
+};
+
+const WorkspaceContext = createContext<WorkspaceContextType | null>(null);
+
+export function WorkspaceProvider({ children }: { children: ReactNode }) {
+  const { user, token } = useAuth();
+  const [activeId, setActiveId] = useState<string | null>(getActiveWorkspaceId);
+
+  // Signing out clears the stored workspace, so the next account starts on its own wallet
+  const [sessionToken, setSessionToken] = useState(token);
+  if (token !== sessionToken) {
+    setSessionToken(token);
+    if (!token) setActiveId(null);
+  }
+
+  const selectWorkspace = (workspaceId: string | null) => {
+    storeActiveWorkspaceId(workspaceId);
+    setActiveId(workspaceId);
+  };
+
+  const { data: workspaces, mutate: refreshWorkspaces } = useSWR(user ? '/workspaces' : null, listWorkspaces, {
+    // Fall back to the personal account after being removed from the active workspace
+    onSuccess: (list) => {
+      const stored = getActiveWorkspaceId();
+      if (stored && !list.some((w) => w.id === stored)) selectWorkspace(null);
+    },
+  });
+
+  const activeWorkspace = workspaces?.find((w) => w.id === activeId) ?? null;
+
+  const switchWorkspace = (workspaceId: string | null) => {
+    if (workspaceId === activeId) return;
+    selectWorkspace(workspaceId);
+    // Everything cached so far belongs to the previous workspace
+    mutate(() => true);
+  };
+
+  let walletCredits: number | null = null;
+  let spendableCredits: number | null = null;
+  if (activeId) {
+    // Unknown until the workspace list loads
+    if (activeWorkspace) {
+      walletCredits = Number(activeWorkspace.wallet.credits);
+      spendableCredits =
+        activeWorkspace.spend_cap === null
+          ? walletCredits
+          : Math.max(0, Math.min(walletCredits, activeWorkspace.spend_cap - activeWorkspace.spent_this_month));
+    }
+  } else if (user?.wallet) {
+    walletCredits = Number(user.wallet.credits);
+    spendableCredits = walletCredits;
+  }
+
+  return (
+    <WorkspaceContext.Provider
+      value={{
+        workspaces: workspaces ?? [],
+        activeWorkspaceId: activeId,
+        activeWorkspace,
+        switchWorkspace,
+        walletCredits,
+        spendableCredits,
+        refreshWorkspaces,
+      }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  );
+}
+
+export function useWorkspace() {
+  const ctx = useContext(WorkspaceContext);
+  if (!ctx) throw new Error('useWorkspace must be used inside WorkspaceProvider');
+  return ctx;
+}
@@ -0,0 +1,56 @@
+import { useEffect } from "react";
+import useSWR from "swr";
+import { getBudget } from "../api/billing";
+import { useAuth } from "../context/AuthContext";
+import { useWorkspace } from "../context/WorkspaceContext";
+import { usePreferences } from "./usePreferences";
+import { formatCredits } from "../utils/credits";
+
+// Share of a budget at which the Header starts warning
+export const NEAR_LIMIT_RATIO = 0.8;
+
+export type BudgetState = "ok" | "warning" | "exceeded";
+
+// Budget limits and spend so far, checked against the wallet
+export function useBudget() {
+  const { user } = useAuth();
+  const { walletCredits: credits } = useWorkspace();
+  const { notifications } = usePreferences();
+  const { data: budget, mutate } = useSWR(user ? "/billing/budget" : null, getBudget);
+
+  // Every debit shows up as a new balance, so refresh the spend along with it
+  useEffect(() => {
+    if (credits !== null) mutate();
+  }, [credits, mutate]);
+
+  const exceeded: string[] = [];
+  const warnings: string[] = [];
+
+  if (budget) {
+    const limits = [
+      { label: "daily", limit: budget.daily_limit, spent: budget.spent_today },
+      { label: "monthly", limit: budget.monthly_limit, spent: budget.spent_this_month },
+    ];
+    for (const { label, limit, spent } of limits) {
+      if (limit === null) continue;
+      if (spent >= limit) {
+        exceeded.push(`You've spent ${formatCredits(spent)} of your ${formatCredits(limit)} credit ${label} budget.`);
+      } else if (spent >= limit * NEAR_LIMIT_RATIO) {
+        warnings.push(`${formatCredits(spent)} of your ${formatCredits(limit)} credit ${label} budget used.`);
+      }
+    }
+    const threshold = budget.low_balance_threshold;
+    if (notifications.low_balance_alerts && threshold !== null && credits !== null && credits <= threshold) {
+      warnings.push(`Balance is below ${formatCredits(threshold)} credits.`);
+    }
+  }
+
+  const state: BudgetState = exceeded.length > 0 ? "exceeded" : warnings.length > 0 ? "warning" : "ok";
+
+  // Soft block: once over budget, every generation needs an explicit go-ahead
+  const confirmOverBudget = () =>
+    exceeded.length === 0 ||
+    window.confirm(`${exceeded.join("\n")}\n\nContinue anyway?`);
+
+  return { budget, state, messages: [...exceeded, ...warnings], confirmOverBudget, mutate };
+}
@@ -0,0 +1,152 @@
+import useSWR from "swr";
+import { getCatalog } from "../api/catalog";
+import type {
+  CatalogModel,
+  CatalogModelKind,
+  CatalogPrice,
+  CatalogVoice,
+  ModelCatalog,
+} from "../api/types";
+import { formatCredits } from "../utils/credits";
+
+// Used until the catalog loads, or when it can't be fetched at all.
+// Prices and context sizes are unknown here, so they are left out.
+const chatModel = (id: string, label: string, group: string): CatalogModel => ({
+  id,
+  label,
+  kind: "chat",
+  group,
+  capabilities: { vision: true, files: true, context_length: null },
+  price: {},
+  status: "available",
+});
+
+const voice = (
+  id: string,
+  name: string,
+  products: CatalogVoice["products"] = ["speech"]
+): CatalogVoice => ({ id, name, products, price: {}, status: "available" });
+
+const FALLBACK_CATALOG: ModelCatalog = {
+  models: [
+    chatModel("gpt-5.2-pro", "GPT-5.2 Pro", "Intelligence"),
+    chatModel("claude-4.5-opus", "Claude 4.5 Opus", "Intelligence"),
+    chatModel("gemini-2.5-pro", "Gemini 2.5 Pro", "Intelligence"),
+    chatModel("gpt-5.2", "GPT-5.2", "Standard"),
+    chatModel("gemini-3-pro-preview", "Gemini 3 Pro", "Standard"),
+    chatModel("claude-4.5-sonnet", "Claude 4.5 Sonnet", "Standard"),
+    chatModel("gemini-3-flash-preview", "Gemini 3 Flash", "Speed"),
+    chatModel("gpt-5-mini", "GPT-5 Mini", "Speed"),
+    chatModel("gemini-2.5-flash", "Gemini 2.5 Flash", "Speed"),
+    chatModel("claude-4.5-haiku", "Claude 4.5 Haiku", "Speed"),
+    {
+      id: "dall-e-3",
+      label: "DALL·E 3",
+      kind: "image",
+      group: "Image",
+      capabilities: { vision: false, files: false, context_length: null },
+      price: {},
+      status: "available",
+      is_default: true,
+    },
+    {
+      id: "gpt-image-1.5",
+      label: "GPT Image 1.5",
+      kind: "image",
+      group: "Image",
+      capabilities: { vision: true, files: false, context_length: null },
+      price: {},
+      status: "available",
+    },
+    {
+      id: "talks",
+      label: "D-ID Talks",
+      kind: "avatar",
+      group: "Avatar",
+      provider: "d-id",
+      capabilities: { vision: true, files: false, context_length: null },
+      price: {},
+      status: "available",
+      is_default: true,
+    },
+  ],
+  voices: [
+    voice("en-US-Neural2-A", "Male (Calm)", ["speech", "avatar"]),
+    voice("en-US-Neural2-C", "Female (Professional)", ["speech", "avatar"]),
+    voice("en-US-Neural2-D", "Male (Deep)"),
+    voice("en-US-Neural2-E", "Female (Soft)"),
+    {
+      ...voice("en-US-Neural2-F", "Female (Energetic)", ["speech", "avatar"]),
+      is_default: true,
+    },
+    voice("en-US-Neural2-H", "Female (Bright)"),
+    voice("en-US-Neural2-I", "Male (Assertive)"),
+    voice("en-US-Neural2-J", "Male (Steady)", ["speech", "avatar"]),
+  ],
+};
+
+// The catalog changes rarely: fetch once per session and share it
+export function useCatalog() {
+  const { data, error, isLoading } = useSWR("/catalog", getCatalog, {
+    revalidateOnFocus: false,
+    dedupingInterval: 10 * 60 * 1000,
+  });
+
+  const catalog = data && data.models.length > 0 ? data : FALLBACK_CATALOG;
+
+  return {
+    catalog,
+    isLoading,
+    // True when the pickers are showing the built-in list
+    isFallback: catalog === FALLBACK_CATALOG && !isLoading,
+    error,
+  };
+}
+
+export const modelsOfKind = (catalog: ModelCatalog, kind: CatalogModelKind) =>
+  catalog.models.filter((m) => m.kind === kind);
+
+export const voicesFor = (
+  catalog: ModelCatalog,
+  product: CatalogVoice["products"][number]
+) => catalog.voices.filter((v) => v.products.includes(product));
+
+export const isSelectable = (entry: { status: CatalogModel["status"] }) =>
+  entry.status !== "unavailable";
+
+// The entry for `id`, or a sensible replacement when it was removed from the
+// catalog or is currently unavailable
+export function resolveEntry<T extends CatalogModel | CatalogVoice>(
+  entries: T[],
+  id: string | null | undefined
+): T | undefined {
+  const selectable = entries.filter(isSelectable);
+  return (
+    selectable.find((e) => e.id === id) ??
+    selectable.find((e) => e.is_default) ??
+    selectable[0] ??
+    entries[0]
+  );
+}
+
+// Short price label for pickers, e.g. "0.5 / 2 credits per 1K tokens"
+export function formatPrice(price: CatalogPrice, unit = "1K tokens") {
+  if (price.per_item !== undefined) {
+    return `${formatCredits(price.per_item)} credits each`;
+  }
+  if (price.input_per_1k !== undefined && price.output_per_1k !== undefined) {
+    return `${formatCredits(price.input_per_1k)} / ${formatCredits(
+      price.output_per_1k
+    )} credits per ${unit}`;
+  }
+  const single = price.input_per_1k ?? price.output_per_1k;
+  if (single !== undefined) return `${formatCredits(single)} credits per ${unit}`;
+  return null;
+}
+
+// e.g. 200000 -> "200K"
+export function formatContextLength(tokens: number | null) {
+  if (!tokens) return null;
+  if (tokens >= 1_000_000) return `${Number((tokens / 1_000_000).toFixed(1))}M`;
+  return `${Math.round(tokens / 1000)}K`;
+}
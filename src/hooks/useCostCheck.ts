@@ -0,0 +1,11 @@
+import { useWorkspace } from "../context/WorkspaceContext";
+import { balanceStatus, type CostEstimate } from "../utils/costEstimate";
+
+// Compares an estimate with the active wallet, so actions can warn or block up front
+export function useCostCheck(estimate: CostEstimate | null) {
+  const { spendableCredits: credits } = useWorkspace();
+
+  return { estimate, credits, status: balanceStatus(estimate, credits) };
+}
+
+export type CostCheck = ReturnType<typeof useCostCheck>;
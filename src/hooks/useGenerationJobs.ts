@@ -0,0 +1,136 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { getTaskStatus } from "../api/media";
+import { ApiError } from "../api/errors";
+import type { GenerationKind, GenerationStatus } from "../api/types";
+
+export interface GenerationJob {
+  taskId: string;
+  kind: GenerationKind;
+  // What the user asked for, shown in job lists
+  label: string;
+  status: GenerationStatus;
+  progress: number | null;
+  resultId: string | null;
+  error: string | null;
+  startedAt: number;
+}
+
+const POLL_INTERVAL = 2000;
+
+export const isPending = (job: GenerationJob) =>
+  job.status === "queued" || job.status === "processing";
+
+// Names for notices, e.g. "Avatar video ready"
+export const KIND_LABELS: Record<GenerationKind, string> = {
+  audio: "Audio",
+  image: "Image",
+  avatar: "Avatar video",
+};
+
+const RESULT_PAGES: Record<GenerationKind, string> = {
+  audio: "/dashboard/tts",
+  image: "/dashboard/images",
+  avatar: "/dashboard/avatar",
+};
+
+// Where a generated file can be found, e.g. "/dashboard/images?result=<id>"
+export const resultPath = (kind: GenerationKind, resultId: string | null | undefined) =>
+  resultId ? `${RESULT_PAGES[kind]}?result=${encodeURIComponent(resultId)}` : RESULT_PAGES[kind];
+
+export const jobResultPath = (job: GenerationJob) => resultPath(job.kind, job.resultId);
+
+// Tracks generation jobs by task id until the server reports them settled.
+// `onSettled` runs once per job when it completes or fails.
+export function useGenerationJobs(
+  onSettled?: (job: GenerationJob) => void,
+  initialJobs: () => GenerationJob[] = () => []
+) {
+  const [jobs, setJobs] = useState<GenerationJob[]>(initialJobs);
+  const jobsRef = useRef(jobs);
+  const onSettledRef = useRef(onSettled);
+
+  useEffect(() => {
+    jobsRef.current = jobs;
+    onSettledRef.current = onSettled;
+  });
+
+  const hasPending = jobs.some(isPending);
+
+  // Poll every pending job while there is at least one
+  useEffect(() => {
+    if (!hasPending) return;
+    let cancelled = false;
+    let inFlight = false;
+
+    const poll = async () => {
+      if (inFlight) return;
+      inFlight = true;
+
+      const pending = jobsRef.current.filter(isPending);
+      const updates = await Promise.all(
+        pending.map(async (job): Promise<GenerationJob> => {
+          try {
+            const task = await getTaskStatus(job.taskId);
+            return {
+              ...job,
+              status: task.status,
+              progress: task.progress,
+              resultId: task.result_id,
+              error: task.error,
+            };
+          } catch (err) {
+            // The task is gone for good; anything else is retried next tick
+            if (err instanceof ApiError && err.status === 404) {
+              return { ...job, status: "failed", error: "This job no longer exists." };
+            }
+            return job;
+          }
+        })
+      );
+
+      inFlight = false;
+      if (cancelled) return;
+
+      const settled = updates.filter((job) => !isPending(job));
+      setJobs((prev) =>
+        prev.map((job) => updates.find((u) => u.taskId === job.taskId) ?? job)
+      );
+      settled.forEach((job) => onSettledRef.current?.(job));
+    };
+
+    const timer = setInterval(poll, POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [hasPending]);
+
+  const track = useCallback((taskId: string, kind: GenerationKind, label: string) => {
+    setJobs((prev) => [
+      {
+        taskId,
+        kind,
+        label,
+        status: "queued",
+        progress: null,
+        resultId: null,
+        error: null,
+        startedAt: Date.now(),
+      },
+      ...prev,
+    ]);
+  }, []);
+
+  const dismiss = useCallback((taskId: string) => {
+    setJobs((prev) => prev.filter((job) => job.taskId !== taskId));
+  }, []);
+
+  // Drop everything that is no longer running
+  const clearSettled = useCallback(() => {
+    setJobs((prev) => prev.filter(isPending));
+  }, []);
+
+  const clearAll = useCallback(() => setJobs([]), []);
+
+  return { jobs, track, dismiss, clearSettled, clearAll };
+}
@@ -0,0 +1,27 @@
+import { useAuth } from "../context/AuthContext";
+import type { UserPreferences } from "../api/types";
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  default_chat_model: null,
+  default_voice: null,
+  default_image_model: null,
+  default_image_size: null,
+  default_image_quality: null,
+  notifications: {
+    job_toasts: true,
+    browser_notifications: true,
+    low_balance_alerts: true,
+  },
+};
+
+// The signed-in user's preferences, with anything unset filled from the defaults
+export function usePreferences(): UserPreferences {
+  const { user } = useAuth();
+  const saved = user?.preferences;
+
+  return {
+    ...DEFAULT_PREFERENCES,
+    ...saved,
+    notifications: { ...DEFAULT_PREFERENCES.notifications, ...saved?.notifications },
+  };
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { Outlet } from 'react-router-dom';
 import Sidebar from '../components/Dashboard/Sidebar';
 import Header from '../components/Dashboard/Header';
+import JobToasts from '../components/JobToasts';
 
 export default function DashboardLayout() {
   const [sidebarOpen, setSidebarOpen] = useState(true);
@@ -46,6 +47,9 @@ export default function DashboardLayout() {
             <Outlet />
         </main>
       </div>
+
+      {/* Background job notices */}
+      <JobToasts />
     </div>
   );
 }
\ No newline at end of file
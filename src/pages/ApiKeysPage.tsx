@@ -0,0 +1,381 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import useSWR from 'swr';
+import {
+  ArrowPathIcon,
+  ChartBarIcon,
+  CheckIcon,
+  ClipboardDocumentIcon,
+  CodeBracketIcon,
+  ExclamationTriangleIcon,
+  KeyIcon,
+  PlusIcon,
+} from '@heroicons/react/24/outline';
+import { createApiKey, listApiKeys, revokeApiKey, rotateApiKey } from '../api/apiKeys';
+import { errorMessage } from '../api/errors';
+import type { ApiKey, ApiKeyScope, ApiKeyWithSecret } from '../api/types';
+import DeleteModal from '../components/DeleteModal';
+import SettingsSection from '../components/SettingsSection';
+import SettingsTabs from '../components/SettingsTabs';
+import { timeAgo } from '../utils/time';
+
+const MAX_NAME_LENGTH = 60;
+
+const SCOPES: { value: ApiKeyScope; label: string; hint: string }[] = [
+  { value: 'chat', label: 'Chat', hint: 'Send messages and read conversations' },
+  { value: 'media', label: 'Media', hint: 'Generate speech, images and avatar videos' },
+  { value: 'read', label: 'Read-only', hint: 'List and download existing chats, media and usage; spends no credits' },
+];
+
+const SCOPE_LABELS = Object.fromEntries(SCOPES.map((s) => [s.value, s.label])) as Record<ApiKeyScope, string>;
+
+// Read-only can't be combined with the spending scopes
+function toggleScope(scopes: ApiKeyScope[], scope: ApiKeyScope): ApiKeyScope[] {
+  if (scopes.includes(scope)) return scopes.filter((s) => s !== scope);
+  if (scope === 'read') return ['read'];
+  return [...scopes.filter((s) => s !== 'read'), scope];
+}
+
+export default function ApiKeysPage() {
+  const { data: keys, error: loadError, isLoading, mutate } = useSWR('/api-keys', listApiKeys);
+  const [isCreating, setIsCreating] = useState(false);
+  // The secret from the last create or rotate; shown until dismissed
+  const [revealed, setRevealed] = useState<ApiKeyWithSecret | null>(null);
+  const [rotatingId, setRotatingId] = useState<string | null>(null);
+  const [keyToRevoke, setKeyToRevoke] = useState<ApiKey | null>(null);
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const sorted = [...(keys ?? [])].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  const handleCreated = async (created: ApiKeyWithSecret) => {
+    setRevealed(created);
+    setIsCreating(false);
+    // Refetch rather than caching the created key, which still carries its secret
+    await mutate();
+  };
+
+  const handleRotate = async (key: ApiKey) => {
+    if (!window.confirm(`Rotate "${key.name}"? Scripts using the current secret will stop working right away.`)) return;
+    setRotatingId(key.id);
+    setActionError(null);
+    try {
+      const rotated = await rotateApiKey(key.id);
+      setRevealed(rotated);
+      await mutate();
+    } catch (err) {
+      console.error('Rotating API key failed', err);
+      setActionError(errorMessage(err, 'Could not rotate the key.'));
+    } finally {
+      setRotatingId(null);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!keyToRevoke) return;
+    setIsRevoking(true);
+    setActionError(null);
+    try {
+      await revokeApiKey(keyToRevoke.id);
+      await mutate((prev) => prev?.filter((k) => k.id !== keyToRevoke.id), false);
+      if (revealed?.id === keyToRevoke.id) setRevealed(null);
+      setKeyToRevoke(null);
+    } catch (err) {
+      console.error('Revoking API key failed', err);
+      setActionError(errorMessage(err, 'Could not revoke the key.'));
+      setKeyToRevoke(null);
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 sm:p-6 lg:p-8">
+      <div className="max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 sm:mb-10 animate-in fade-in slide-in-from-top-4 duration-500">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="relative">
+              <div className="absolute inset-0 bg-blue-500 blur-xl opacity-30 animate-pulse"></div>
+              <CodeBracketIcon className="w-8 h-8 sm:w-10 sm:h-10 text-blue-400 relative z-10" />
+            </div>
+            <h1 className="text-2xl md:text-3xl font-bold text-white">Settings</h1>
+          </div>
+          <p className="text-gray-400 text-sm sm:text-base ml-0 sm:ml-14">
+            Keys for scripts and integrations; usage is billed to your wallet
+          </p>
+        </div>
+
+        <SettingsTabs />
+
+        {actionError && (
+          <p className="mb-4 p-3 rounded-xl border border-red-500/30 bg-red-500/5 text-sm text-red-300">{actionError}</p>
+        )}
+
+        <div className="space-y-6">
+          {revealed && <SecretReveal apiKey={revealed} onDone={() => setRevealed(null)} />}
+
+          {/* Keys */}
+          <SettingsSection
+            icon={KeyIcon}
+            title="API keys"
+            action={
+              !isCreating && (
+                <button
+                  onClick={() => setIsCreating(true)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-xs font-semibold text-white transition-colors"
+                >
+                  <PlusIcon className="w-4 h-4" />
+                  New key
+                </button>
+              )
+            }
+          >
+            {isCreating && <CreateKeyForm onCreated={handleCreated} onCancel={() => setIsCreating(false)} />}
+
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <ArrowPathIcon className="w-5 h-5 text-gray-500 animate-spin" />
+              </div>
+            ) : loadError ? (
+              <p className="text-sm text-red-400">
+                Could not load your API keys.{' '}
+                <button onClick={() => mutate()} className="underline underline-offset-2 hover:text-red-300">
+                  Retry
+                </button>
+              </p>
+            ) : sorted.length === 0 ? (
+              !isCreating && (
+                <p className="py-4 text-sm text-center text-gray-500">
+                  No keys yet. Create one to call the API from your own scripts.
+                </p>
+              )
+            ) : (
+              <ul className="divide-y divide-slate-800">
+                {sorted.map((key) => (
+                  <KeyRow
+                    key={key.id}
+                    apiKey={key}
+                    isRotating={rotatingId === key.id}
+                    onRotate={() => handleRotate(key)}
+                    onRevoke={() => setKeyToRevoke(key)}
+                  />
+                ))}
+              </ul>
+            )}
+          </SettingsSection>
+        </div>
+      </div>
+
+      <DeleteModal
+        isOpen={!!keyToRevoke}
+        onClose={() => setKeyToRevoke(null)}
+        onConfirm={handleRevoke}
+        title="Revoke API key"
+        message={`"${keyToRevoke?.name}" will stop working immediately. This cannot be undone.`}
+        isDeleting={isRevoking}
+      />
+    </div>
+  );
+}
+
+// SUB-COMPONENTS
+
+function CreateKeyForm({
+  onCreated,
+  onCancel,
+}: {
+  onCreated: (key: ApiKeyWithSecret) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['read']);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return setError('Give the key a name so you can recognise it later.');
+    if (trimmed.length > MAX_NAME_LENGTH) return setError(`Keep the name under ${MAX_NAME_LENGTH} characters.`);
+    if (scopes.length === 0) return setError('Choose at least one scope.');
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      onCreated(await createApiKey({ name: trimmed, scopes }));
+    } catch (err) {
+      console.error('Creating API key failed', err);
+      setError(errorMessage(err, 'Could not create the key.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-6 p-4 rounded-xl bg-slate-950/40 border border-slate-800 space-y-4">
+      <label className="block">
+        <span className="block text-xs font-medium text-gray-400 mb-1.5">Name</span>
+        <input
+          value={name}
+          onChange={(e) => {
+            setName(e.target.value);
+            setError(null);
+          }}
+          autoFocus
+          placeholder="e.g. Nightly TTS batch"
+          className="w-full h-10 px-3 bg-slate-950/40 border border-slate-700/60 rounded-lg text-sm text-gray-100 placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500/40"
+        />
+      </label>
+
+      <fieldset>
+        <legend className="block text-xs font-medium text-gray-400 mb-2">Scopes</legend>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {SCOPES.map((scope) => {
+            const checked = scopes.includes(scope.value);
+            return (
+              <label
+                key={scope.value}
+                className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+                  checked ? 'border-blue-500/60 bg-blue-500/10' : 'border-slate-700/60 hover:border-slate-600'
+                }`}
+              >
+                <span className="flex items-center gap-2 text-sm text-gray-200">
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    onChange={() => {
+                      setScopes((prev) => toggleScope(prev, scope.value));
+                      setError(null);
+                    }}
+                    className="rounded border-slate-600"
+                  />
+                  {scope.label}
+                </span>
+                <span className="block mt-1 text-xs text-gray-500">{scope.hint}</span>
+              </label>
+            );
+          })}
+        </div>
+      </fieldset>
+
+      <div className="flex items-center justify-end gap-3">
+        {error && <span className="mr-auto text-xs text-red-400">{error}</span>}
+        <button type="button" onClick={onCancel} className="text-sm text-gray-400 hover:text-white transition-colors">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-semibold text-white transition-colors disabled:opacity-50"
+        >
+          {isSubmitting && <ArrowPathIcon className="w-4 h-4 animate-spin" />}
+          Create key
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// A new secret, shown the one time it is available
+function SecretReveal({ apiKey, onDone }: { apiKey: ApiKeyWithSecret; onDone: () => void }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(apiKey.secret);
+      setCopied(true);
+    } catch (err) {
+      console.error('Copy failed', err);
+    }
+  };
+
+  return (
+    <div className="p-5 rounded-2xl border border-amber-500/30 bg-amber-500/5">
+      <p className="flex items-center gap-2 text-sm font-semibold text-amber-300 mb-1">
+        <ExclamationTriangleIcon className="w-4 h-4" />
+        Copy the secret for "{apiKey.name}" now
+      </p>
+      <p className="text-xs text-gray-400 mb-4">
+        It won't be shown again. Send it as <code className="text-gray-300">Authorization: Bearer &lt;key&gt;</code>.
+      </p>
+      <div className="flex gap-2">
+        <code className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-slate-950/60 border border-slate-800 text-sm text-gray-100 font-mono truncate">
+          {apiKey.secret}
+        </code>
+        <button
+          onClick={handleCopy}
+          className="flex items-center gap-1.5 px-3 rounded-lg border border-slate-700 text-sm text-gray-300 hover:bg-slate-800 transition-colors"
+        >
+          {copied ? <CheckIcon className="w-4 h-4 text-emerald-400" /> : <ClipboardDocumentIcon className="w-4 h-4" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+        <button
+          onClick={onDone}
+          className="px-4 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-semibold text-white transition-colors"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function KeyRow({
+  apiKey,
+  isRotating,
+  onRotate,
+  onRevoke,
+}: {
+  apiKey: ApiKey;
+  isRotating: boolean;
+  onRotate: () => void;
+  onRevoke: () => void;
+}) {
+  return (
+    <li className="flex flex-col sm:flex-row sm:items-center gap-3 py-4 first:pt-0 last:pb-0">
+      <div className="flex-1 min-w-0">
+        <p className="flex flex-wrap items-center gap-2 text-sm text-gray-200">
+          <span className="truncate font-medium">{apiKey.name}</span>
+          {apiKey.scopes.map((scope) => (
+            <span
+              key={scope}
+              className="px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wider bg-slate-800 text-gray-400"
+            >
+              {SCOPE_LABELS[scope]}
+            </span>
+          ))}
+        </p>
+        <p className="text-xs text-gray-500 mt-0.5">
+          <span className="font-mono">{apiKey.prefix}…</span>
+          {' · '}Created {new Date(apiKey.created_at).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+          {' · '}
+          {apiKey.last_used_at ? `Last used ${timeAgo(apiKey.last_used_at)}` : 'Never used'}
+        </p>
+      </div>
+      <div className="flex items-center gap-1">
+        <Link
+          to={`/dashboard/billing/usage?api_key=${apiKey.id}`}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-gray-400 hover:text-white hover:bg-slate-800 transition-colors"
+        >
+          <ChartBarIcon className="w-3.5 h-3.5" />
+          Usage
+        </Link>
+        <button
+          onClick={onRotate}
+          disabled={isRotating}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-gray-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-50"
+        >
+          <ArrowPathIcon className={`w-3.5 h-3.5 ${isRotating ? 'animate-spin' : ''}`} />
+          Rotate
+        </button>
+        <button
+          onClick={onRevoke}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium text-gray-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+        >
+          Revoke
+        </button>
+      </div>
+    </li>
+  );
+}
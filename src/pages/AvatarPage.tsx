@@ -1,7 +1,8 @@
 import { useState, useRef, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import useSWR from 'swr';
-import api from '../api/client';
+import { deleteVideo, generateAvatar, listImages, listVideos, uploadMedia } from '../api/media';
+import type { AvatarVideo, CatalogVoice } from '../api/types';
 import { 
   UserCircleIcon, 
   VideoCameraIcon, 
@@ -21,30 +22,22 @@ import {
 } from '@heroicons/react/24/solid';
 import { useAuth } from '../context/AuthContext';
 import DeleteModal from '../components/DeleteModal';
+import JobList from '../components/JobList';
+import CostHint from '../components/CostHint';
+import { useJobs } from '../context/JobsContext';
+import { formatPrice, isSelectable, modelsOfKind, resolveEntry, useCatalog, voicesFor } from '../hooks/useCatalog';
+import { useCostCheck } from '../hooks/useCostCheck';
+import { useBudget } from '../hooks/useBudget';
+import { estimateAvatarCost } from '../utils/costEstimate';
 
 // Types
-interface AvatarVideo {
-  id: string;
-  public_url: string | null;
-  thumbnail_url: string | null;
-  status: 'processing' | 'processing_external' | 'completed' | 'failed';
-  text_prompt: string;
-  created_at: string;
-  avatar_image_url: string;
-}
-
-// Added Image Type for History Selection
-interface GeneratedImage {
-  id: string;
-  public_url: string;
-  prompt: string;
-  created_at: string;
-}
-
 interface ConfigOption {
   id: string;
   name: string;
   value: string;
+  // Secondary line, e.g. the price
+  hint?: string | null;
+  disabled?: boolean;
 }
 
 interface PresetCharacter {
@@ -54,12 +47,13 @@ interface PresetCharacter {
 }
 
 // Configuration
-const VOICES: ConfigOption[] = [
-  { id: 'en-US-Neural2-F', name: 'Female (Energetic)', value: 'en-US-Neural2-F' },
-  { id: 'en-US-Neural2-A', name: 'Male (Calm)', value: 'en-US-Neural2-A' },
-  { id: 'en-US-Neural2-C', name: 'Female (Professional)', value: 'en-US-Neural2-C' },
-  { id: 'en-US-Neural2-J', name: 'Male (Steady)', value: 'en-US-Neural2-J' },
-];
+const toVoiceOption = (v: CatalogVoice): ConfigOption => ({
+  id: v.id,
+  name: v.name,
+  value: v.id,
+  hint: isSelectable(v) ? null : 'Temporarily unavailable',
+  disabled: !isSelectable(v),
+});
 
 const PRESETS: PresetCharacter[] = [
   { id: 'p1', name: 'Emma', url: 'https://pub-f05b7ab0255f4775b9b9ca5637a40853.r2.dev/presets/emma.png' },
@@ -68,8 +62,6 @@ const PRESETS: PresetCharacter[] = [
   { id: 'p4', name: 'Michael', url: 'https://pub-f05b7ab0255f4775b9b9ca5637a40853.r2.dev/presets/michael.png' },
 ];
 
-const fetcher = (url: string) => api.get(url).then((res) => res.data);
-
 export default function AvatarPage() {
   const { refreshProfile } = useAuth();
   const navigate = useNavigate();
@@ -90,9 +82,20 @@ export default function AvatarPage() {
 
   // Script & Animation
   const [script, setScript] = useState('');
-  const [selectedVoice, setSelectedVoice] = useState(VOICES[0]);
+  const { catalog } = useCatalog();
+  const voices = voicesFor(catalog, 'avatar');
+  const [selectedVoiceId, setSelectedVoiceId] = useState<string | null>(null);
+  // Falls back to the default voice if the chosen one leaves the catalog
+  const selectedVoiceEntry = resolveEntry(voices, selectedVoiceId);
+  const selectedVoice: ConfigOption = selectedVoiceEntry
+    ? toVoiceOption(selectedVoiceEntry)
+    : { id: '', name: 'No voices available', value: '', disabled: true };
+  const avatarModel = resolveEntry(modelsOfKind(catalog, 'avatar'), null);
+  const avatarPrice = avatarModel ? formatPrice(avatarModel.price) : null;
   const [isAnimating, setIsAnimating] = useState(false);
-  const [lastVideoId, setLastVideoId] = useState<string | null>(null);
+  const cost = useCostCheck(script.trim() ? estimateAvatarCost(avatarModel, selectedVoiceEntry, script) : null);
+  const isBlocked = cost.status === 'insufficient';
+  const { confirmOverBudget } = useBudget();
 
   // Delete Modal State
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
@@ -100,11 +103,11 @@ export default function AvatarPage() {
   const [isDeleting, setIsDeleting] = useState(false);
 
   // Data
-  const { data: videos, mutate, isLoading } = useSWR<AvatarVideo[]>('/media/videos/list', fetcher,{ 
+  const { data: videos, mutate, isLoading } = useSWR('/media/videos/list', listVideos, { 
         refreshInterval: 5000
     });
   // Fetch Image History for the Library
-  const { data: imageLibrary } = useSWR<GeneratedImage[]>('/media/images/list?limit=20', fetcher);
+  const { data: imageLibrary } = useSWR('/media/images/list?limit=20', () => listImages({ limit: 20 }));
 
   // Helpers
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -127,11 +130,27 @@ export default function AvatarPage() {
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  // Animations are tracked app-wide, so they keep running after leaving the page
+  const { jobs: allJobs, track, dismiss } = useJobs();
+  const jobs = allJobs.filter(job => job.kind === 'avatar');
+
+  // A notification link names its result; otherwise show the newest one
+  const [searchParams, setSearchParams] = useSearchParams();
+  const lastVideoId = searchParams.get('result')
+    ?? jobs.find(job => job.status === 'completed')?.resultId
+    ?? null;
+
   // 2. Handle Video Animation (D-ID)
   const handleAnimate = async () => {
     // Determine the source image
     let sourceUrl = '';
 
+    if (!avatarModel || !isSelectable(avatarModel) || selectedVoice.disabled) {
+      alert("Avatar generation is currently unavailable. Please try again later.");
+      return;
+    }
+    if (isBlocked || !confirmOverBudget()) return;
+
     setIsAnimating(true);
 
     try {
@@ -144,13 +163,8 @@ export default function AvatarPage() {
       } 
       else if (activeTab === 'custom') {
         if (customFile) {
-          const formData = new FormData();
-          formData.append('file', customFile);
-          
-          const uploadRes = await api.post('/media/upload', formData, {
-            headers: { 'Content-Type': 'multipart/form-data' }
-          });
-          sourceUrl = uploadRes.data.public_url;
+          const upload = await uploadMedia(customFile);
+          sourceUrl = upload.public_url;
         } else {
           sourceUrl = customAvatarUrl;
         }
@@ -162,44 +176,23 @@ export default function AvatarPage() {
           return;
       }
 
-      setLastVideoId(null);
-
       // Trigger Generation
-      await api.post('/media/generate-avatar', { 
+      const { task_id } = await generateAvatar({ 
         text: script,
         voice_name: selectedVoice.value,
         avatar_url: sourceUrl,
-        model: 'talks', // D-ID
-        provider: 'd-id'
+        model: avatarModel.id,
+        provider: avatarModel.provider ?? 'd-id'
       });
-      
-      refreshProfile();
-      
-      const startTime = Date.now();
-      const currentLatestId = videos && videos.length > 0 ? videos[0].id : null;
-      
-      const pollInterval = setInterval(async () => {
-        const updatedList = await mutate();
-        if (!updatedList || updatedList.length === 0) return;
-
-        const newest = updatedList[0];
-        if (newest.id !== currentLatestId) {
-            clearInterval(pollInterval);
-            setLastVideoId(newest.id);
-            setScript('');
-            setIsAnimating(false);
-        }
-
-        if (Date.now() - startTime > 120000) { 
-            clearInterval(pollInterval);
-            setIsAnimating(false);
-            alert("Video is processing in background. Check history shortly.");
-        }
-      }, 4000);
 
+      track(task_id, 'avatar', script.trim());
+      setScript('');
+      if (searchParams.has('result')) setSearchParams({}, { replace: true });
+      refreshProfile();
     } catch (err) {
       console.error(err);
       alert('Failed to start animation. ' + (err instanceof Error ? err.message : ''));
+    } finally {
       setIsAnimating(false);
     }
   };
@@ -223,7 +216,7 @@ export default function AvatarPage() {
     );
 
     try {
-        await api.delete(`/media/videos/${itemToDelete}`);
+        await deleteVideo(itemToDelete);
         // Success
         mutate(); 
         setDeleteModalOpen(false);
@@ -515,8 +508,8 @@ export default function AvatarPage() {
                                 label="Voice"
                                 icon={<CloudArrowDownIcon className="w-4 h-4"/>}
                                 selected={selectedVoice}
-                                onChange={setSelectedVoice}
-                                options={VOICES}
+                                onChange={(o) => setSelectedVoiceId(o.id)}
+                                options={voices.map(toVoiceOption)}
                             />
                         </div>
                         
@@ -524,11 +517,16 @@ export default function AvatarPage() {
                              <span className="text-xs text-gray-500 font-mono hidden sm:inline-block">
                                 {script.length} / 500 chars
                             </span>
+                            {avatarPrice && !cost.estimate && (
+                                <span className="text-xs text-gray-500 font-mono hidden sm:inline-block">
+                                    {avatarPrice}
+                                </span>
+                            )}
                             <button
                                 onClick={handleAnimate}
-                                disabled={isAnimating || !script.trim()}
+                                disabled={isAnimating || !script.trim() || isBlocked}
                                 className={`flex-1 sm:flex-none relative flex items-center justify-center gap-2 px-8 py-2.5 rounded-xl font-semibold transition-all shadow-lg hover:shadow-purple-500/25 ${
-                                    isAnimating || !script.trim()
+                                    isAnimating || !script.trim() || isBlocked
                                     ? 'bg-slate-800 text-slate-500 cursor-not-allowed'
                                     : 'bg-gradient-to-r from-purple-600 to-blue-600 text-white hover:opacity-90 active:scale-95'
                                 }`}
@@ -547,12 +545,22 @@ export default function AvatarPage() {
                             </button>
                         </div>
                     </div>
+
+                    {/* Cost Estimate */}
+                    {cost.estimate && (
+                        <div className="flex justify-end mt-3">
+                            <CostHint {...cost} />
+                        </div>
+                    )}
                   </div>
                 </div>
               </div>
 
+              {/* Running Jobs */}
+              <JobList jobs={jobs} onDismiss={dismiss} />
+
               {/* Hero Result (Last Generated) */}
-              {lastGeneratedVideo && !isAnimating && (
+              {lastGeneratedVideo && (
                 <div className="relative z-10 animate-in fade-in slide-in-from-top-2 duration-500">
                   <div className="flex items-center gap-2 mb-3">
                     <SparklesIcon className="w-4 h-4 text-green-400" />
@@ -832,12 +840,16 @@ function ConfigSelector({
                     onChange(option);
                     setIsOpen(false);
                 }}
-                className={`w-full text-left relative cursor-pointer select-none py-2.5 pl-3 pr-4 transition-colors flex items-center justify-between ${
+                disabled={option.disabled}
+                className={`w-full text-left relative cursor-pointer select-none py-2.5 pl-3 pr-4 transition-colors flex items-center justify-between disabled:opacity-40 disabled:cursor-not-allowed ${
                     selected.id === option.id ? 'bg-purple-600/20 text-purple-200' : 'text-gray-300 hover:bg-slate-800/70'
                 }`}
                 >
-                <span className={`block truncate ${selected.id === option.id ? 'font-semibold' : 'font-normal'}`}>
-                    {option.name}
+                <span className="flex flex-col min-w-0">
+                    <span className={`block truncate ${selected.id === option.id ? 'font-semibold' : 'font-normal'}`}>
+                        {option.name}
+                    </span>
+                    {option.hint && <span className="text-[10px] text-gray-500 truncate">{option.hint}</span>}
                 </span>
                 {selected.id === option.id && (
                     <CheckIcon className="h-4 w-4 text-purple-400" />
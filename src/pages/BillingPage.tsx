@@ -1,8 +1,203 @@
+import { useState } from 'react';
+import useSWR from 'swr';
+import {
+  ArrowPathIcon,
+  CheckCircleIcon,
+  CreditCardIcon,
+  ExclamationTriangleIcon,
+  LockClosedIcon,
+  SparklesIcon,
+} from '@heroicons/react/24/outline';
+import { createCheckoutSession, listCreditPacks } from '../api/billing';
+import { ApiError } from '../api/errors';
+import type { CreditPack } from '../api/types';
+import BillingTabs from '../components/BillingTabs';
+import { useWorkspace } from '../context/WorkspaceContext';
+
+// Prices arrive in the smallest currency unit: cents for USD, whole yen for JPY
+const formatPackPrice = (pack: CreditPack) => {
+  const format = new Intl.NumberFormat(undefined, { style: 'currency', currency: pack.currency.toUpperCase() });
+  const minorUnitDigits = format.resolvedOptions().maximumFractionDigits ?? 2;
+  return format.format(pack.price / 10 ** minorUnitDigits);
+};
+
 export default function BillingPage() {
+  const { walletCredits, activeWorkspace } = useWorkspace();
+  const { data: packs, error: packsError, isLoading, mutate } = useSWR('/billing/packs', listCreditPacks);
+
+  const [selectedPackId, setSelectedPackId] = useState<string | null>(null);
+  const [isRedirecting, setIsRedirecting] = useState(false);
+  const [checkoutError, setCheckoutError] = useState<string | null>(null);
+
+  // Default to the highlighted pack until the user picks one
+  const selectedPack =
+    packs?.find((p) => p.id === selectedPackId) ?? packs?.find((p) => p.popular) ?? packs?.[0];
+
+  const credits = walletCredits ?? 0;
+
+  const handleCheckout = async () => {
+    if (!selectedPack) return;
+    setIsRedirecting(true);
+    setCheckoutError(null);
+
+    try {
+      const returnBase = `${window.location.origin}/dashboard/billing`;
+      const { checkout_url } = await createCheckoutSession({
+        pack_id: selectedPack.id,
+        success_url: `${returnBase}/success?session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: `${returnBase}/cancel`,
+      });
+      // Leave the app for the hosted checkout page; we come back on one of the URLs above
+      window.location.assign(checkout_url);
+    } catch (err) {
+      console.error('Checkout failed', err);
+      setCheckoutError(
+        err instanceof ApiError && !err.isNetworkError
+          ? err.message
+          : 'Could not start checkout. Please try again.'
+      );
+      setIsRedirecting(false);
+    }
+  };
+
   return (
-    <div className="p-8 text-gray-400 text-center">
-      <h2 className="text-2xl font-bold text-white mb-2">Billing & Usage</h2>
-      <p>Stripe Integration will be available soon.</p>
+    <div className="h-full overflow-y-auto p-4 sm:p-6 lg:p-8">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 sm:mb-10 animate-in fade-in slide-in-from-top-4 duration-500">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="relative">
+              <div className="absolute inset-0 bg-emerald-500 blur-xl opacity-30 animate-pulse"></div>
+              <CreditCardIcon className="w-8 h-8 sm:w-10 sm:h-10 text-emerald-400 relative z-10" />
+            </div>
+            <h1 className="text-2xl md:text-3xl font-bold text-white">Billing</h1>
+          </div>
+          <p className="text-gray-400 text-sm sm:text-base ml-0 sm:ml-14">
+            Buy credits for chat, voice, image and avatar generation
+          </p>
+        </div>
+
+        <BillingTabs />
+
+        {/* Balance */}
+        <div className="mb-8 flex items-center justify-between gap-4 bg-slate-900/50 border border-slate-800 rounded-2xl p-5 sm:p-6">
+          <div>
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">
+              {activeWorkspace ? `${activeWorkspace.name} balance` : 'Current balance'}
+            </p>
+            <p className="text-3xl font-bold text-white font-mono">
+              {credits.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              <span className="ml-2 text-base font-normal text-gray-500">credits</span>
+            </p>
+          </div>
+          <SparklesIcon className="w-10 h-10 text-emerald-500/40" />
+        </div>
+
+        {/* Credit Packs */}
+        <h2 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-4">Credit packs</h2>
+
+        {isLoading ? (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-44 rounded-2xl bg-slate-900/50 border border-slate-800 animate-pulse" />
+            ))}
+          </div>
+        ) : packsError ? (
+          <div className="flex flex-col items-center gap-3 py-12 text-center bg-slate-900/30 border border-slate-800 rounded-2xl">
+            <ExclamationTriangleIcon className="w-8 h-8 text-amber-400" />
+            <p className="text-gray-300">Credit packs could not be loaded.</p>
+            <button
+              onClick={() => mutate()}
+              className="text-sm text-blue-400 hover:text-blue-300 font-medium"
+            >
+              Try again
+            </button>
+          </div>
+        ) : !packs?.length ? (
+          <p className="py-12 text-center text-gray-500">No credit packs are on sale right now.</p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {packs.map((pack) => (
+              <PackCard
+                key={pack.id}
+                pack={pack}
+                isSelected={pack.id === selectedPack?.id}
+                onSelect={() => setSelectedPackId(pack.id)}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Checkout */}
+        {selectedPack && (
+          <div className="mt-8 flex flex-col sm:flex-row sm:items-center justify-between gap-4 border-t border-slate-800 pt-6">
+            <p className="flex items-center gap-2 text-xs text-gray-500">
+              <LockClosedIcon className="w-4 h-4" />
+              Payments are processed securely by Stripe. You'll return here afterwards.
+            </p>
+            <button
+              onClick={handleCheckout}
+              disabled={isRedirecting}
+              className={`flex items-center justify-center gap-2 px-6 py-3 rounded-xl font-semibold transition-all shadow-lg ${
+                isRedirecting
+                  ? 'bg-slate-800 text-slate-500 cursor-not-allowed'
+                  : 'bg-gradient-to-r from-emerald-600 to-blue-600 text-white hover:opacity-90 active:scale-95'
+              }`}
+            >
+              {isRedirecting ? (
+                <>
+                  <ArrowPathIcon className="w-5 h-5 animate-spin" />
+                  Redirecting...
+                </>
+              ) : (
+                <>Buy {selectedPack.name} for {formatPackPrice(selectedPack)}</>
+              )}
+            </button>
+          </div>
+        )}
+
+        {checkoutError && (
+          <p className="mt-4 flex items-center gap-2 text-sm text-red-400">
+            <ExclamationTriangleIcon className="w-4 h-4" />
+            {checkoutError}
+          </p>
+        )}
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// SUB-COMPONENTS
+
+function PackCard({ pack, isSelected, onSelect }: { pack: CreditPack; isSelected: boolean; onSelect: () => void }) {
+  const total = pack.credits + (pack.bonus_credits ?? 0);
+
+  return (
+    <button
+      onClick={onSelect}
+      className={`relative text-left p-5 rounded-2xl border transition-all ${
+        isSelected
+          ? 'bg-emerald-500/10 border-emerald-500/60 ring-1 ring-emerald-500/40'
+          : 'bg-slate-900/50 border-slate-800 hover:border-slate-600'
+      }`}
+    >
+      {pack.popular && (
+        <span className="absolute -top-2.5 right-4 px-2 py-0.5 rounded-full bg-emerald-600 text-[10px] font-bold uppercase tracking-wider text-white">
+          Popular
+        </span>
+      )}
+      <div className="flex items-center justify-between mb-3">
+        <span className="font-semibold text-white">{pack.name}</span>
+        {isSelected && <CheckCircleIcon className="w-5 h-5 text-emerald-400" />}
+      </div>
+      <p className="text-2xl font-bold text-white font-mono">{total.toLocaleString()}</p>
+      <p className="text-xs text-gray-500 mb-4">
+        credits
+        {pack.bonus_credits ? (
+          <span className="ml-1 text-emerald-400">incl. {pack.bonus_credits.toLocaleString()} bonus</span>
+        ) : null}
+      </p>
+      <p className="text-lg font-semibold text-gray-200">{formatPackPrice(pack)}</p>
+    </button>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import {
+  ArrowPathIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  ShieldCheckIcon,
+} from '@heroicons/react/24/outline';
+import { updateBudget } from '../api/billing';
+import { errorMessage } from '../api/errors';
+import type { BudgetSettings } from '../api/types';
+import BillingTabs from '../components/BillingTabs';
+import { NEAR_LIMIT_RATIO, useBudget } from '../hooks/useBudget';
+import { formatCredits } from '../utils/credits';
+
+type Field = keyof BudgetSettings;
+
+const FIELDS: { key: Field; label: string; hint: string }[] = [
+  { key: 'daily_limit', label: 'Daily budget', hint: 'Resets at midnight UTC' },
+  { key: 'monthly_limit', label: 'Monthly budget', hint: 'Resets on the 1st of each month' },
+  { key: 'low_balance_threshold', label: 'Low-balance alert', hint: 'Warn when your balance drops to this amount' },
+];
+
+// Inputs hold text so a limit can be cleared; blank means "no limit"
+type Draft = Record<Field, string>;
+
+const toDraft = (settings: BudgetSettings | undefined): Draft => ({
+  daily_limit: settings?.daily_limit?.toString() ?? '',
+  monthly_limit: settings?.monthly_limit?.toString() ?? '',
+  low_balance_threshold: settings?.low_balance_threshold?.toString() ?? '',
+});
+
+export default function BudgetsPage() {
+  const { budget, state, messages, mutate } = useBudget();
+  // null until the user edits something; until then the form mirrors the server
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [errors, setErrors] = useState<Partial<Record<Field, string>>>({});
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+
+  const values = draft ?? toDraft(budget);
+
+  const handleChange = (key: Field, value: string) => {
+    setDraft({ ...values, [key]: value });
+    setErrors((prev) => ({ ...prev, [key]: undefined }));
+    setSavedAt(null);
+  };
+
+  const handleSave = async () => {
+    const parsed: Partial<BudgetSettings> = {};
+    const nextErrors: Partial<Record<Field, string>> = {};
+
+    for (const { key } of FIELDS) {
+      const raw = values[key].trim();
+      if (!raw) {
+        parsed[key] = null;
+        continue;
+      }
+      const amount = Number(raw);
+      if (!Number.isFinite(amount) || amount < 0) {
+        nextErrors[key] = 'Enter 0 or more, or leave blank for no limit.';
+      } else {
+        parsed[key] = amount;
+      }
+    }
+    if (parsed.daily_limit && parsed.monthly_limit && parsed.daily_limit > parsed.monthly_limit) {
+      nextErrors.daily_limit = 'The daily budget cannot be higher than the monthly one.';
+    }
+
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) return;
+
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const updated = await updateBudget(parsed);
+      await mutate(updated, false);
+      setDraft(null);
+      setSavedAt(Date.now());
+    } catch (err) {
+      console.error('Saving budget failed', err);
+      setSaveError(errorMessage(err, 'Could not save your budgets.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 sm:p-6 lg:p-8">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 sm:mb-10 animate-in fade-in slide-in-from-top-4 duration-500">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="relative">
+              <div className="absolute inset-0 bg-emerald-500 blur-xl opacity-30 animate-pulse"></div>
+              <ShieldCheckIcon className="w-8 h-8 sm:w-10 sm:h-10 text-emerald-400 relative z-10" />
+            </div>
+            <h1 className="text-2xl md:text-3xl font-bold text-white">Billing</h1>
+          </div>
+          <p className="text-gray-400 text-sm sm:text-base ml-0 sm:ml-14">
+            Set spending limits so your wallet never drains unexpectedly
+          </p>
+        </div>
+
+        <BillingTabs />
+
+        {/* Current State */}
+        {state !== 'ok' && (
+          <div
+            className={`mb-6 flex items-start gap-3 p-4 rounded-xl border ${
+              state === 'exceeded' ? 'bg-red-500/5 border-red-500/30 text-red-300' : 'bg-amber-500/5 border-amber-500/30 text-amber-300'
+            }`}
+          >
+            <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <div className="text-sm space-y-1">
+              {messages.map((message) => (
+                <p key={message}>{message}</p>
+              ))}
+              {state === 'exceeded' && (
+                <p className="text-gray-400">Generations will ask for confirmation until the budget resets or is raised.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Spend So Far */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-8">
+          <SpendMeter label="Spent today" spent={budget?.spent_today} limit={budget?.daily_limit} />
+          <SpendMeter label="Spent this month" spent={budget?.spent_this_month} limit={budget?.monthly_limit} />
+        </div>
+
+        {/* Limits */}
+        <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-5 sm:p-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+            {FIELDS.map(({ key, label, hint }) => (
+              <label key={key} className="block">
+                <span className="text-xs font-medium text-gray-400 uppercase tracking-wider">{label}</span>
+                <div className="relative mt-2">
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    inputMode="decimal"
+                    value={values[key]}
+                    onChange={(e) => handleChange(key, e.target.value)}
+                    placeholder="No limit"
+                    className={`w-full h-10 pl-3 pr-16 bg-slate-950/40 border rounded-lg text-sm text-gray-100 placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-emerald-500/40 ${
+                      errors[key] ? 'border-red-500/60' : 'border-slate-700/60'
+                    }`}
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-500">credits</span>
+                </div>
+                <span className={`block mt-1.5 text-xs ${errors[key] ? 'text-red-400' : 'text-gray-500'}`}>
+                  {errors[key] ?? hint}
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-end gap-4 mt-6 pt-5 border-t border-slate-800">
+            {saveError && <span className="text-sm text-red-400">{saveError}</span>}
+            {savedAt && !draft && (
+              <span className="flex items-center gap-1.5 text-sm text-emerald-400">
+                <CheckCircleIcon className="w-4 h-4" />
+                Saved
+              </span>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !draft}
+              className="flex items-center gap-2 px-5 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-sm font-semibold text-white transition-colors disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed"
+            >
+              {isSaving && <ArrowPathIcon className="w-4 h-4 animate-spin" />}
+              Save budgets
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// SUB-COMPONENTS
+
+function SpendMeter({ label, spent, limit }: { label: string; spent?: number; limit?: number | null }) {
+  const ratio = limit ? Math.min(1, (spent ?? 0) / limit) : 0;
+  const color = ratio >= 1 ? 'bg-red-500' : ratio >= NEAR_LIMIT_RATIO ? 'bg-amber-500' : 'bg-emerald-500';
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-5">
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">{label}</p>
+      <p className="text-xl font-bold text-white font-mono">
+        {spent === undefined ? '—' : formatCredits(spent)}
+        <span className="ml-1.5 text-sm font-normal text-gray-500">
+          {limit ? `of ${formatCredits(limit)}` : 'no limit'}
+        </span>
+      </p>
+      {limit ? (
+        <div className="mt-3 h-1.5 rounded-full bg-slate-800 overflow-hidden">
+          <div className={`h-full ${color} transition-all duration-500`} style={{ width: `${ratio * 100}%` }} />
+        </div>
+      ) : null}
+    </div>
+  );
+}
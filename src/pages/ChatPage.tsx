@@ -1,70 +1,206 @@
-import { useState, useEffect, useRef, useCallback } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
+import useSWR, { mutate } from "swr";
 import {
   CpuChipIcon,
   CheckIcon,
   ChevronDownIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
   DocumentDuplicateIcon,
-  ClipboardDocumentIcon,
+  ArrowPathIcon,
+  LinkIcon,
+  PencilSquareIcon,
+  ViewColumnsIcon,
 } from "@heroicons/react/24/solid";
-import ReactMarkdown from "react-markdown";
-import type { Components } from "react-markdown";
-import remarkGfm from "remark-gfm";
-import remarkMath from "remark-math";
-import rehypeKatex from "rehype-katex";
-import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
-import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
 import { useAuth } from "../context/AuthContext";
-import "katex/dist/katex.min.css";
 import { useChatReset } from "../context/ChatResetContext";
+import { useWorkspace } from "../context/WorkspaceContext";
 import ChatInput from "../components/ChatInput";
 import ModelSelector from "../components/ModelSelector";
+import ExportMenu from "../components/ExportMenu";
+import ShareDialog from "../components/ShareDialog";
+import PersonaMenu from "../components/PersonaMenu";
+import GenerationSettings from "../components/GenerationSettings";
+import ChatMarkdown from "../components/ChatMarkdown";
+import AttachmentPills from "../components/AttachmentPills";
+import { isSelectable, modelsOfKind, resolveEntry, useCatalog } from "../hooks/useCatalog";
+import { useCostCheck } from "../hooks/useCostCheck";
+import { useBudget } from "../hooks/useBudget";
+import { usePreferences } from "../hooks/usePreferences";
+import { chatSocketUrl, getChat, getChatHistory, updateChat, uploadChatFiles } from "../api/chat";
+import { listPersonas } from "../api/personas";
+import { listPrompts } from "../api/prompts";
+import { refreshAccessToken } from "../api/client";
+import { ApiError } from "../api/errors";
+import { isTokenExpired } from "../api/token";
+import {
+  exportChats,
+  titleFromMessages,
+  type ExportFormat,
+} from "../utils/chatExport";
+import { balanceStatus, estimateChatCost, type CostEstimate } from "../utils/costEstimate";
+import { formatCredits } from "../utils/credits";
+import {
+  describeParams,
+  hasParams,
+  parseStoredParams,
+  sanitizeParams,
+  supportedParams,
+} from "../utils/generationParams";
+import type {
+  Attachment,
+  ChatClientFrame,
+  ChatHistoryMessage,
+  ChatRole,
+  ChatServerFrame,
+  GenerationParams,
+  Persona,
+  UploadedFileMeta,
+} from "../api/types";
 
 // Types
 
-type Attachment = {
-  name: string;
-  type: string;
-  size: number;
-  mime_type?: string;
-};
-
-type CodeProps = {
-  node?: any;
-  inline?: boolean;
-  className?: string;
-  children?: React.ReactNode;
-  [key: string]: any;
-};
-
 type Message = {
-  role: "user" | "ai" | "system";
+  role: ChatRole;
   content: string;
   model?: string | null;
   timestamp?: number;
   id: string;
+  // Credits charged for this reply, from the `cost` event
+  cost?: number;
+  // Messages form a tree: edits and regenerations add siblings under the same parent.
+  // System notes hang off the message they follow but never count as a branch.
+  parentId: string | null;
   attachments?: Attachment[];
+  // Sampling overrides the reply was generated with
+  params?: GenerationParams | null;
 };
 
-type UploadedFileMeta = {
-  id: string;
-  name: string;
-  type: string;
-  size: number;
-  mime_type: string;
+// Replies currently streaming over the socket, used to resume or cancel them.
+// A normal turn has one reply; a comparison has one per model.
+type StreamCursor = {
+  // The user message being answered
+  parentId: string | null;
+  // resumeFrom: cursor of a replay already requested, so a gap asks only once
+  replies: Record<
+    string,
+    { lastSeq: number; done: boolean; model?: string; resumeFrom?: number }
+  >;
+  expected: number;
+  compare: boolean;
+  cancelled: boolean;
+  // Sent with the request, recorded on each reply
+  params?: GenerationParams;
 };
 
-type WebSocketPayload =
-  | { type: "content"; delta: string }
-  | {
-      type: "system";
-      event: "chat_id" | "route" | "cost" | "warning";
-      payload: string;
-    }
-  | { type: "error"; message: string };
+const newStreamCursor = (
+  parentId: string | null,
+  expected = 1,
+  compare = false,
+  params?: GenerationParams
+): StreamCursor => ({
+  parentId,
+  replies: {},
+  expected,
+  compare,
+  cancelled: false,
+  params,
+});
+
+// Selected child id per parent ("root" for the first turn)
+type BranchSelection = Record<string, string>;
+
+// Open comparisons: user message id -> models answering it
+type CompareTurns = Record<string, string[]>;
 
 type CopiedState = { [key: string]: boolean };
 
+const parentKey = (parentId: string | null) => parentId ?? "root";
+
+const fromHistory = (hist: ChatHistoryMessage[]): Message[] => {
+  let previousId: string | null = null;
+  return hist.map((m, idx) => {
+    const id = m.id || `hist-${idx}-${Date.now()}`;
+    // Chats saved before branching have no parent links: chain them in order
+    const parentId = m.parent_id !== undefined ? m.parent_id : previousId;
+    if (m.role !== "system") previousId = id;
+
+    return {
+      role: m.role,
+      content: m.content,
+      model: m.model,
+      id,
+      parentId,
+      timestamp: new Date(m.created_at).getTime(),
+      attachments: m.attachments || [],
+      params: m.params,
+    };
+  });
+};
+
+const toHistoryMessage = (m: Message): ChatHistoryMessage => ({
+  id: m.id,
+  parent_id: m.parentId,
+  role: m.role,
+  content: m.content,
+  model: m.model,
+  created_at: new Date(m.timestamp ?? Date.now()).toISOString(),
+  attachments: m.attachments,
+  params: m.params,
+});
+
+// Versions of a turn, oldest first
+const siblingsOf = (messages: Message[], parentId: string | null) =>
+  messages.filter((m) => m.role !== "system" && m.parentId === parentId);
+
+const lastNodeId = (messages: Message[]) =>
+  [...messages].reverse().find((m) => m.role !== "system")?.id ?? null;
+
+// Select every version on the way to `messageId` so it becomes visible
+function selectionFor(messages: Message[], messageId: string) {
+  const selection: BranchSelection = {};
+  let node = messages.find((m) => m.id === messageId);
+
+  while (node) {
+    const { parentId } = node;
+    if (node.role !== "system") selection[parentKey(parentId)] = node.id;
+    node = parentId ? messages.find((m) => m.id === parentId) : undefined;
+  }
+  return selection;
+}
+
+// Walk from the root along the selected (default: newest) version of each turn.
+// The path stops at an open comparison until one answer is promoted.
+function buildVisiblePath(
+  messages: Message[],
+  selection: BranchSelection,
+  compareTurns: CompareTurns
+) {
+  const path: Message[] = [];
+  let parentId: string | null = null;
+
+  for (;;) {
+    const current = parentId;
+    path.push(
+      ...messages.filter((m) => m.role === "system" && m.parentId === current)
+    );
+
+    if (current && compareTurns[current]) break;
+
+    const versions = siblingsOf(messages, current);
+    if (versions.length === 0) break;
+
+    const chosen: Message =
+      versions.find((m) => m.id === selection[parentKey(current)]) ??
+      versions[versions.length - 1];
+    path.push(chosen);
+    parentId = chosen.id;
+  }
+
+  return path;
+}
+
 const PLACEHOLDERS = [
   "Ask me anything... I'm ready to help 🚀",
   "Need code? Documentation? Analysis? Just ask...",
@@ -75,27 +211,125 @@ const PLACEHOLDERS = [
 
 export default function ChatPage() {
   const { token, refreshProfile } = useAuth();
+  const { activeWorkspaceId: workspaceId } = useWorkspace();
   const { chatId: routeChatId } = useParams();
   const navigate = useNavigate();
+  // Set by search results to open the chat at a specific message
+  const [searchParams] = useSearchParams();
+  const focusMessageId = searchParams.get("message");
 
   // State
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
 
-  const [model, setModel] = useState(() => {
-    return sessionStorage.getItem("selectedModel") || "auto";
-  });
+  // A model picked this session wins over the saved default; until then the
+  // default from Settings applies, including once the profile loads
+  const { default_chat_model } = usePreferences();
+  const [pickedModel, setPickedModel] = useState(() => sessionStorage.getItem("selectedModel"));
+  const model = pickedModel || default_chat_model || "auto";
   const [isStreaming, setIsStreaming] = useState(false);
   const [isThinking, setIsThinking] = useState(false);
   const [thinkingMessage, setThinkingMessage] = useState("");
   const [showScrollButton, setShowScrollButton] = useState(false);
   const [copiedStates, setCopiedStates] = useState<CopiedState>({});
-  const [expandedCodeBlocks, setExpandedCodeBlocks] = useState<{
-    [key: string]: boolean;
-  }>({});
+  const [branchSelection, setBranchSelection] = useState<BranchSelection>({});
+  const [compareModels, setCompareModels] = useState<string[]>([]);
+  const [compareTurns, setCompareTurns] = useState<CompareTurns>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  // Id the server gave a chat started on this page, whose URL was swapped in place
+  const [createdChatId, setCreatedChatId] = useState<string | null>(null);
+  // Instructions for this chat: a persona and/or its own system prompt
+  const [personaId, setPersonaId] = useState<string | null>(null);
+  const [systemPrompt, setSystemPrompt] = useState<string | null>(null);
+  const { data: personas } = useSWR("/personas", listPersonas);
+  const { data: prompts } = useSWR("/prompts", listPrompts);
+  const persona = personas?.find((p) => p.id === personaId) ?? null;
 
   const activeChatId = routeChatId || null;
+  const savedChatId = activeChatId ?? createdChatId;
+
+  // A saved model may have been retired since; fall back to smart routing
+  const { catalog, isLoading: isCatalogLoading } = useCatalog();
+  const chatModels = modelsOfKind(catalog, "chat");
+  const isOffered = (id: string) =>
+    chatModels.some((m) => m.id === id && isSelectable(m));
+  const activeModel =
+    model === "auto" || isCatalogLoading || isOffered(model) ? model : "auto";
+  const activeCompareModels = compareModels.filter(isOffered);
+
+  // Sampling overrides, kept for the session like the model
+  const [genParams, setGenParams] = useState<GenerationParams>(() =>
+    parseStoredParams(sessionStorage.getItem("generationParams"))
+  );
+  // Only what every model the message may reach accepts; smart routing could pick any
+  const paramSupport = supportedParams(
+    activeCompareModels.length > 1
+      ? chatModels.filter((m) => activeCompareModels.includes(m.id))
+      : activeModel === "auto"
+      ? chatModels.filter(isSelectable)
+      : chatModels.filter((m) => m.id === activeModel)
+  );
+  const sentParams = sanitizeParams(genParams, paramSupport);
+
+  // The conversation as currently shown, following the selected versions
+  const visibleMessages = useMemo(
+    () => buildVisiblePath(messages, branchSelection, compareTurns),
+    [messages, branchSelection, compareTurns]
+  );
+  const leafId = lastNodeId(visibleMessages);
+
+  // Pre-flight estimate: smart routing is priced at the default model
+  const costModel =
+    activeModel === "auto" ? resolveEntry(chatModels, null) : chatModels.find((m) => m.id === activeModel);
+  const estimateReply = (text: string, history: Message[], files: File[], compare: boolean) =>
+    estimateChatCost(compare ? activeCompareModels.map((id) => chatModels.find((m) => m.id === id)) : [costModel], {
+      text,
+      historyChars: history.reduce((sum, m) => sum + m.content.length, 0),
+      files,
+    });
+  const hasDraft = !!input.trim() || selectedFiles.length > 0;
+  const chatCost = useCostCheck(
+    hasDraft ? estimateReply(input, visibleMessages, selectedFiles, activeCompareModels.length > 1) : null
+  );
+
+  // Regenerating and editing have no draft to show a cost hint for, so they check here
+  const canAfford = (estimate: CostEstimate | null) => {
+    if (balanceStatus(estimate, chatCost.credits) !== "insufficient") return true;
+    alert(
+      `Not enough credits: this needs about ${formatCredits(estimate?.minimum ?? 0)}, you have ${formatCredits(
+        chatCost.credits ?? 0
+      )}.`
+    );
+    return false;
+  };
+  const { confirmOverBudget } = useBudget();
+  const openComparison = useMemo(() => {
+    const models = leafId ? compareTurns[leafId] : undefined;
+    if (!leafId || !models) return null;
+
+    // One column per answer, then placeholders for models not started yet
+    const answers = siblingsOf(messages, leafId);
+    const unrouted = answers.filter(
+      (a) => !a.model || !models.includes(a.model)
+    ).length;
+    const pending = models
+      .filter((m) => !answers.some((a) => a.model === m))
+      .slice(unrouted);
+
+    return {
+      models,
+      columns: [
+        ...answers.map((answer) => ({ modelId: answer.model ?? "", answer })),
+        ...pending.map((modelId) => ({ modelId, answer: null })),
+      ],
+    };
+  }, [leafId, compareTurns, messages]);
+  const hasOpenComparison = !!openComparison;
 
   // Placeholder State
   const [placeholderText, setPlaceholderText] = useState(PLACEHOLDERS[0]);
@@ -111,9 +345,8 @@ export default function ChatPage() {
   const { resetKey } = useChatReset();
 
   const internalChatIdRef = useRef<string | null>(activeChatId);
-  const isStreamingRef = useRef(false);
-
-  const API_BASE = import.meta.env.VITE_API_URL;
+  // Cursor of the reply being streamed, used to resume or cancel it
+  const streamRef = useRef<StreamCursor | null>(null);
 
   // Sync Internal Ref when Route Changes
   useEffect(() => {
@@ -121,8 +354,8 @@ export default function ChatPage() {
   }, [activeChatId]);
 
   useEffect(() => {
-    sessionStorage.setItem("selectedModel", model);
-  }, [model]);
+    sessionStorage.setItem("generationParams", JSON.stringify(genParams));
+  }, [genParams]);
 
   // Auto-focus text box on typing
   useEffect(() => {
@@ -161,39 +394,45 @@ export default function ChatPage() {
 
     async function loadHistory() {
       if (!activeChatId || !token) {
-        if (isActive) setMessages([]);
+        if (isActive) {
+          setMessages([]);
+          setBranchSelection({});
+          setPersonaId(null);
+          setSystemPrompt(null);
+        }
         return;
       }
 
       try {
-        const res = await fetch(
-          `${API_BASE}/api/v1/chat/history/${activeChatId}`,
-          {
-            headers: { Authorization: `Bearer ${token}` },
-          }
-        );
-
-        if (res.ok) {
-          const histMessages = await res.json();
-          const formattedMessages: Message[] = histMessages.map(
-            (m: any, idx: number) => ({
-              role: m.role,
-              content: m.content,
-              model: m.model,
-              id: m.id || `hist-${idx}-${Date.now()}`,
-              timestamp: new Date(m.created_at).getTime(),
-              attachments: m.attachments || [],
-            })
-          );
-
-          if (isActive) {
-            setMessages(formattedMessages);
-          }
-        } else {
-          if (isActive) navigate("/dashboard");
+        const [histMessages, chat] = await Promise.all([
+          getChatHistory(activeChatId),
+          // Older chats may have no metadata; the messages still load without it
+          getChat(activeChatId).catch((e) => {
+            console.error("Failed to load chat settings", e);
+            return null;
+          }),
+        ]);
+        if (isActive) {
+          setPersonaId(chat?.persona_id ?? null);
+          setSystemPrompt(chat?.system_prompt ?? null);
+          const loaded = fromHistory(histMessages);
+          const focusTarget =
+            focusMessageId && loaded.some((m) => m.id === focusMessageId)
+              ? focusMessageId
+              : null;
+
+          // Land on the linked message instead of the end of the chat
+          if (focusTarget) isAutoScrollEnabled.current = false;
+          setMessages(loaded);
+          setBranchSelection(focusTarget ? selectionFor(loaded, focusTarget) : {});
+          setHighlightedId(focusTarget);
         }
       } catch (e) {
-        console.error("Failed to load history", e);
+        if (e instanceof ApiError && !e.isNetworkError) {
+          if (isActive) navigate("/dashboard");
+        } else {
+          console.error("Failed to load history", e);
+        }
       }
     }
 
@@ -202,25 +441,64 @@ export default function ChatPage() {
     return () => {
       isActive = false;
     };
-  }, [activeChatId, token, navigate]);
+  }, [activeChatId, token, navigate, focusMessageId]);
+
+  // Bring a linked message into view and flash it briefly
+  useEffect(() => {
+    if (!highlightedId) return;
+    const frame = requestAnimationFrame(() =>
+      document
+        .getElementById(`message-${highlightedId}`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" })
+    );
+    const timer = setTimeout(() => setHighlightedId(null), 2500);
+    return () => {
+      cancelAnimationFrame(frame);
+      clearTimeout(timer);
+    };
+  }, [highlightedId]);
 
   // WebSocket Connection
   useEffect(() => {
     if (!token) return;
     let isCleanup = false;
     let reconnectTimer: number | undefined;
-    const protocol = window.location.protocol === "https:" ? "wss" : "ws";
-    const host =
-      window.location.hostname === "localhost"
-        ? "localhost:8000"
-        : "api.multiaimodel.com";
+
+    const send = (socket: WebSocket, frame: ChatClientFrame) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(frame));
+      }
+    };
+
+    const finishStream = () => {
+      setIsStreaming(false);
+      setIsThinking(false);
+      streamRef.current = null;
+      currentStreamModel.current = null;
+    };
+
+    // Notes attach after the reply in progress, or the latest message
+    const appendSystemMessage = (content: string, id: string) => {
+      const stream = streamRef.current;
+      const anchor =
+        (stream && !stream.compare && Object.keys(stream.replies)[0]) ||
+        stream?.parentId ||
+        null;
+      setMessages((prev) => [
+        ...prev,
+        { role: "system", content, id, parentId: anchor ?? lastNodeId(prev) },
+      ]);
+    };
 
     const connect = () => {
       const targetChatId = internalChatIdRef.current || activeChatId || "";
 
-      const wsUrl = `${protocol}://${host}/api/v1/chat/ws?token=${token}&model=${model}${
-        targetChatId ? `&chat_id=${targetChatId}` : ""
-      }`;
+      const wsUrl = chatSocketUrl({
+        token,
+        model: activeModel,
+        chatId: targetChatId,
+        workspaceId,
+      });
 
       const socket = new WebSocket(wsUrl);
       ws.current = socket;
@@ -230,27 +508,50 @@ export default function ChatPage() {
           socket?.close();
           return;
         }
+
+        // Pick up interrupted replies from the last delta we received
+        const stream = streamRef.current;
+        if (stream && !stream.cancelled) {
+          const unfinished = Object.entries(stream.replies).filter(
+            ([, reply]) => !reply.done
+          );
+          if (unfinished.length === 0) {
+            send(socket, { type: "resume", message_id: null, last_seq: 0 });
+          }
+          unfinished.forEach(([messageId, reply]) => {
+            reply.resumeFrom = reply.lastSeq;
+            send(socket, {
+              type: "resume",
+              message_id: messageId,
+              last_seq: reply.lastSeq,
+            });
+          });
+        }
       };
 
       socket.onclose = (event) => {
         if (isCleanup) return;
 
-        setIsStreaming(false);
-        setIsThinking(false);
-        isStreamingRef.current = false;
-
         if (event.code === 1008) {
-          setMessages((prev) => [
-            ...prev,
-            {
-              role: "system",
-              content:
-                "⚠️ Disconnected: Insufficient credits or authentication issue.",
-              id: `sys-${Date.now()}`,
-            },
-          ]);
+          // Expired token: refresh and let the token change reconnect us.
+          // A failed refresh ends the session via AuthContext.
+          if (isTokenExpired(token)) {
+            refreshAccessToken().catch(() => undefined);
+            return;
+          }
+          appendSystemMessage(
+            "⚠️ Disconnected: Insufficient credits or authentication issue.",
+            `sys-${Date.now()}`
+          );
+          finishStream();
           return;
         }
+
+        // Keep a live stream's state so it can resume after reconnecting
+        if (!streamRef.current || streamRef.current.cancelled) {
+          finishStream();
+        }
+
         reconnectTimer = setTimeout(() => {
           if (!isCleanup) connect();
         }, 3000);
@@ -260,7 +561,7 @@ export default function ChatPage() {
         if (isCleanup) return;
 
         try {
-          const data: WebSocketPayload = JSON.parse(event.data);
+          const data: ChatServerFrame = JSON.parse(event.data);
 
           if (data.type === "system") {
             const { event: sysEvent, payload } = data;
@@ -268,6 +569,7 @@ export default function ChatPage() {
             if (sysEvent === "chat_id") {
               const newId = payload;
               internalChatIdRef.current = newId;
+              setCreatedChatId(newId);
 
               if (!activeChatId) {
                 window.history.replaceState(
@@ -275,73 +577,142 @@ export default function ChatPage() {
                   "",
                   `/dashboard/chat/${newId}`
                 );
+                // Show the new conversation in the sidebar
+                mutate("/chat/recent");
               }
             } else if (sysEvent === "warning") {
               console.warn("System Warning:", payload);
-              setMessages((prev) => [
-                ...prev,
-                {
-                  role: "system",
-                  content: `⚠️ Warning: ${payload}`,
-                  id: `warn-${Date.now()}`,
-                },
-              ]);
+              appendSystemMessage(`⚠️ Warning: ${payload}`, `warn-${Date.now()}`);
             } else if (sysEvent === "route") {
-              currentStreamModel.current = payload;
+              const stream = streamRef.current;
+              if (data.message_id && stream) {
+                // The route may arrive before the reply's first delta
+                const replyId = data.message_id;
+                stream.replies[replyId] = {
+                  ...(stream.replies[replyId] ?? { lastSeq: 0, done: false }),
+                  model: payload,
+                };
+                setMessages((prev) =>
+                  prev.map((m) => (m.id === replyId ? { ...m, model: payload } : m))
+                );
+              } else {
+                currentStreamModel.current = payload;
+              }
             } else if (sysEvent === "cost") {
               refreshProfile();
-              setIsStreaming(false);
-              isStreamingRef.current = false;
-              currentStreamModel.current = null;
+              const stream = streamRef.current;
+              const replyId =
+                data.message_id ??
+                (stream ? Object.keys(stream.replies).pop() : undefined);
+              const amount = Number(payload);
+
+              if (replyId && !Number.isNaN(amount)) {
+                setMessages((prev) =>
+                  prev.map((m) => (m.id === replyId ? { ...m, cost: amount } : m))
+                );
+              }
+
+              // A comparison ends once every model has reported its cost
+              if (stream && data.message_id && stream.replies[data.message_id]) {
+                stream.replies[data.message_id].done = true;
+                const finished = Object.values(stream.replies).filter(
+                  (r) => r.done
+                ).length;
+                if (finished < stream.expected) return;
+              }
+              finishStream();
+            } else if (sysEvent === "cancelled") {
+              refreshProfile();
+              finishStream();
+            } else if (sysEvent === "resume_unavailable") {
+              // The reply finished (or expired) while we were away: the
+              // stored history has the final text.
+              finishStream();
+              const chatId = internalChatIdRef.current;
+              if (chatId) {
+                getChatHistory(chatId)
+                  .then((hist) => setMessages(fromHistory(hist)))
+                  .catch((e) => console.error("Failed to reload history", e));
+              }
             }
             return;
           }
 
           if (data.type === "error") {
-            setMessages((prev) => [
-              ...prev,
-              {
-                role: "system",
-                content: `⚠️ Error: ${data.message}`,
-                id: `err-${Date.now()}`,
-              },
-            ]);
-            setIsStreaming(false);
-            setIsThinking(false);
-            isStreamingRef.current = false;
+            appendSystemMessage(`⚠️ Error: ${data.message}`, `err-${Date.now()}`);
+            finishStream();
             return;
           }
 
           if (data.type === "content") {
-            const textChunk = data.delta;
+            const { message_id: messageId, seq, delta } = data;
+            const stream = streamRef.current ?? newStreamCursor(null);
+
+            // Late deltas of a cancelled reply
+            if (stream.cancelled) return;
+
+            const reply = stream.replies[messageId] ?? { lastSeq: 0, done: false };
+
+            // Replayed deltas we already have
+            if (seq <= reply.lastSeq) return;
+
+            // Missed deltas: ask the server to replay from our cursor, once
+            // per gap; later deltas are dropped until the replay catches up
+            if (seq > reply.lastSeq + 1) {
+              if (reply.resumeFrom !== reply.lastSeq) {
+                reply.resumeFrom = reply.lastSeq;
+                stream.replies[messageId] = reply;
+                streamRef.current = stream;
+                send(socket, {
+                  type: "resume",
+                  message_id: messageId,
+                  last_seq: reply.lastSeq,
+                });
+              }
+              return;
+            }
 
-            setIsThinking(false);
+            reply.lastSeq = seq;
+            reply.resumeFrom = undefined;
+            stream.replies[messageId] = reply;
+            streamRef.current = stream;
 
+            setIsThinking(false);
             setIsStreaming(true);
-            const wasStreaming = isStreamingRef.current;
-            isStreamingRef.current = true;
 
+            const replyParentId = stream.parentId;
+            const replyModel = reply.model ?? currentStreamModel.current;
             setMessages((prev) => {
-              const lastMsg = prev[prev.length - 1];
-              if (lastMsg && lastMsg.role === "ai" && wasStreaming) {
-                return [
-                  ...prev.slice(0, -1),
-                  { ...lastMsg, content: lastMsg.content + textChunk },
-                ];
-              } else {
-                return [
-                  ...prev,
-                  {
-                    role: "ai",
-                    content: textChunk,
-                    model: currentStreamModel.current,
-                    id: `ai-${Date.now()}`,
-                  },
-                ];
+              const existing = prev.find((m) => m.id === messageId);
+              if (existing) {
+                return prev.map((m) =>
+                  m.id === messageId ? { ...m, content: m.content + delta } : m
+                );
               }
+              return [
+                ...prev,
+                {
+                  role: "ai",
+                  content: delta,
+                  model: replyModel,
+                  id: messageId,
+                  parentId: replyParentId ?? lastNodeId(prev),
+                  timestamp: Date.now(),
+                  params: stream.params,
+                },
+              ];
             });
+
+            // Show a fresh version (e.g. a regeneration) as soon as it starts.
+            // Comparison replies stay side by side until one is promoted.
+            if (replyParentId && !stream.compare) {
+              setBranchSelection((prev) => ({
+                ...prev,
+                [parentKey(replyParentId)]: messageId,
+              }));
+            }
           }
-        } catch (e) {
+        } catch {
           console.error("Failed to parse WebSocket message:", event.data);
         }
       };
@@ -353,7 +724,7 @@ export default function ChatPage() {
       clearTimeout(reconnectTimer);
       if (ws.current) ws.current.close();
     };
-  }, [token, model, activeChatId]);
+  }, [token, activeModel, activeChatId, workspaceId]);
 
   // Scroll Logic
   const scrollToBottom = useCallback(() => {
@@ -373,17 +744,22 @@ export default function ChatPage() {
     setShowScrollButton(!isAtBottom);
   };
 
-  const sendMessage = async () => {
-    if (
-      (!input.trim() && selectedFiles.length === 0) ||
-      !ws.current ||
-      isStreaming ||
-      isThinking
-    )
-      return;
+  // Send a user turn under `parentId` (the current leaf, or a fork point when editing)
+  const submitUserMessage = async ({
+    content,
+    files,
+    parentId,
+    compare = false,
+  }: {
+    content: string;
+    files: File[];
+    parentId: string | null;
+    compare?: boolean;
+  }) => {
+    if (!ws.current) return false;
 
     // Optimistic UI Update with attachment metadata
-    const attachmentMeta: Attachment[] = selectedFiles.map((f) => ({
+    const attachmentMeta: Attachment[] = files.map((f) => ({
       name: f.name,
       size: f.size,
       type: f.type,
@@ -391,55 +767,43 @@ export default function ChatPage() {
 
     console.log(
       "Sending message:",
-      input,
-      selectedFiles.length > 0
-        ? `[Attachments: ${selectedFiles.map((f) => f.name).join(", ")}]`
+      content,
+      files.length > 0
+        ? `[Attachments: ${files.map((f) => f.name).join(", ")}]`
         : ""
     );
 
+    const messageId = crypto.randomUUID();
     setMessages((prev) => [
       ...prev,
       {
         role: "user",
-        content: input,
+        content,
         attachments: attachmentMeta,
-        id: `user-${Date.now()}`,
+        id: messageId,
+        parentId,
+        timestamp: Date.now(),
       },
     ]);
+    setBranchSelection((prev) => ({ ...prev, [parentKey(parentId)]: messageId }));
 
     // Set Thinking / Loading State
     setThinkingMessage(
-      selectedFiles.length > 0 ? "Uploading and analyzing..." : "Thinking..."
+      files.length > 0 ? "Uploading and analyzing..." : "Thinking..."
     );
     setIsThinking(true);
 
     // Handle File Uploads
     let processedAttachments: UploadedFileMeta[] = [];
-    if (selectedFiles.length > 0) {
+    if (files.length > 0) {
       try {
-        const formData = new FormData();
-        selectedFiles.forEach((file) => {
-          formData.append("files", file);
-        });
-
-        const res = await fetch(`${API_BASE}/api/v1/chat/upload`, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-          body: formData,
-        });
-
-        if (!res.ok) {
-          const errData = await res.json();
-          throw new Error(errData.detail || "Upload failed");
-        }
-
-        const data = await res.json();
-        processedAttachments = data.files.filter((f: any) => f.id);
+        const data = await uploadChatFiles(files);
+        processedAttachments = data.files.filter(
+          (f): f is UploadedFileMeta => !!f.id
+        );
 
         // Check for failed
-        const failedFiles = data.files.filter((f: any) => !f.id);
+        const failedFiles = data.files.filter((f) => !f.id);
         if (failedFiles.length > 0) {
           console.error("Some files failed to upload:", failedFiles);
         }
@@ -451,49 +815,229 @@ export default function ChatPage() {
             role: "system",
             content: "⚠️ Failed to upload attachments. Please try again.",
             id: `sys-${Date.now()}`,
+            parentId: messageId,
           },
         ]);
         setIsThinking(false);
-        return;
+        return false;
       }
     }
 
     // Send WebSocket Payload
-    const payload = JSON.stringify({
-      type: "user_message",
+    const payload: ChatClientFrame = compare
+      ? {
+          type: "compare",
+          message_id: messageId,
+          parent_id: parentId,
+          content,
+          attachments: processedAttachments,
+          persona_id: personaId,
+          system_prompt: systemPrompt,
+          params: sentParams,
+          models: activeCompareModels,
+        }
+      : {
+          type: "user_message",
+          message_id: messageId,
+          parent_id: parentId,
+          content,
+          attachments: processedAttachments,
+          persona_id: personaId,
+          system_prompt: systemPrompt,
+          params: sentParams,
+        };
+
+    if (compare) {
+      setCompareTurns((prev) => ({ ...prev, [messageId]: activeCompareModels }));
+    }
+    streamRef.current = newStreamCursor(
+      messageId,
+      compare ? activeCompareModels.length : 1,
+      compare,
+      sentParams
+    );
+    ws.current.send(JSON.stringify(payload));
+
+    isAutoScrollEnabled.current = true;
+    setTimeout(scrollToBottom, 10);
+    return true;
+  };
+
+  const sendMessage = async () => {
+    if (
+      (!input.trim() && selectedFiles.length === 0) ||
+      !ws.current ||
+      isStreaming ||
+      isThinking ||
+      hasOpenComparison ||
+      chatCost.status === "insufficient"
+    )
+      return;
+    if (!confirmOverBudget()) return;
+
+    const sent = await submitUserMessage({
       content: input,
-      attachments: processedAttachments,
+      files: selectedFiles,
+      parentId: leafId,
+      compare: activeCompareModels.length > 1,
     });
-
-    ws.current.send(payload);
+    if (!sent) return;
 
     // Cleanup
     setInput("");
     setSelectedFiles([]);
+  };
+
+  // Ask for a new answer to `userMessageId`; it is added as a sibling version
+  const handleRegenerate = (userMessageId: string) => {
+    if (!ws.current || isStreaming || isThinking) return;
+    // The reply is priced on the conversation up to the question being answered
+    const index = visibleMessages.findIndex((m) => m.id === userMessageId);
+    const history = index === -1 ? visibleMessages : visibleMessages.slice(0, index + 1);
+    if (!canAfford(estimateReply("", history, [], false))) return;
+    if (!confirmOverBudget()) return;
+
+    const frame: ChatClientFrame = {
+      type: "regenerate",
+      parent_id: userMessageId,
+      params: sentParams,
+    };
+    streamRef.current = newStreamCursor(userMessageId, 1, false, sentParams);
+    ws.current.send(JSON.stringify(frame));
 
+    setThinkingMessage("Regenerating...");
+    setIsThinking(true);
     isAutoScrollEnabled.current = true;
-    setTimeout(scrollToBottom, 10);
+  };
+
+  // Editing forks a new branch next to the original message.
+  // Only the text is re-sent; attachments stay with the original version.
+  const handleEditSubmit = async (original: Message, content: string) => {
+    if (!content.trim() || isStreaming || isThinking) return;
+    const index = visibleMessages.findIndex((m) => m.id === original.id);
+    const history = index === -1 ? visibleMessages : visibleMessages.slice(0, index);
+    if (!canAfford(estimateReply(content, history, [], false))) return;
+    if (!confirmOverBudget()) return;
+    setEditingId(null);
+    await submitUserMessage({ content, files: [], parentId: original.parentId });
+  };
+
+  const selectVersion = (msg: Message, direction: -1 | 1) => {
+    const siblings = siblingsOf(messages, msg.parentId);
+    const index = siblings.findIndex((m) => m.id === msg.id);
+    const next = siblings[index + direction];
+    if (!next) return;
+    setBranchSelection((prev) => ({ ...prev, [parentKey(msg.parentId)]: next.id }));
+  };
+
+  // Continue the conversation from one of the compared answers
+  const promoteAnswer = (answer: Message) => {
+    if (!answer.parentId) return;
+    const userMessageId = answer.parentId;
+
+    setBranchSelection((prev) => ({ ...prev, [userMessageId]: answer.id }));
+    setCompareTurns((prev) => {
+      const next = { ...prev };
+      delete next[userMessageId];
+      return next;
+    });
+
+    if (ws.current?.readyState === WebSocket.OPEN) {
+      const frame: ChatClientFrame = { type: "promote", message_id: answer.id };
+      ws.current.send(JSON.stringify(frame));
+    }
+  };
+
+  // Saved chats also store the change right away; new chats get it with the first message
+  const updateInstructions = (next: {
+    persona_id: string | null;
+    system_prompt: string | null;
+  }) => {
+    setPersonaId(next.persona_id);
+    setSystemPrompt(next.system_prompt);
+    if (savedChatId) {
+      updateChat(savedChatId, next).catch((err) =>
+        console.error("Saving chat instructions failed", err)
+      );
+    }
+  };
+
+  const selectPersona = (next: Persona | null) => {
+    updateInstructions({ persona_id: next?.id ?? null, system_prompt: null });
+    // A persona's model only applies when starting a chat
+    if (next?.default_model && messages.length === 0) setPickedModel(next.default_model);
+  };
+
+  // Only an explicit pick is remembered for the session
+  const pickModel = (value: string) => {
+    setPickedModel(value);
+    sessionStorage.setItem("selectedModel", value);
   };
 
   // Handle New Chat Reset
   useEffect(() => {
     setMessages([]);
+    setBranchSelection({});
+    setCompareTurns({});
+    setEditingId(null);
     setIsStreaming(false);
     setIsThinking(false);
-    isStreamingRef.current = false;
+    streamRef.current = null;
     currentStreamModel.current = null;
     internalChatIdRef.current = null;
+    setCreatedChatId(null);
+    setPersonaId(null);
+    setSystemPrompt(null);
 
     ws.current?.close();
     ws.current = null;
   }, [resetKey]);
 
+  // Cancel the reply but keep the session open for the next message
   const handleStop = () => {
-    if (ws.current && (isStreaming || isThinking)) {
-      setIsStreaming(false);
-      setIsThinking(false);
-      isStreamingRef.current = false;
-      ws.current.close();
+    if (!isStreaming && !isThinking) return;
+
+    const stream = streamRef.current;
+    if (stream) stream.cancelled = true;
+
+    // Without a single known reply the server cancels everything in progress
+    const replyIds = stream ? Object.keys(stream.replies) : [];
+    if (ws.current?.readyState === WebSocket.OPEN) {
+      const frame: ChatClientFrame = {
+        type: "cancel",
+        message_id: replyIds.length === 1 ? replyIds[0] : null,
+      };
+      ws.current.send(JSON.stringify(frame));
+    }
+
+    setIsStreaming(false);
+    setIsThinking(false);
+  };
+
+  // JSON keeps every version; Markdown and PDF follow the thread on screen
+  const handleExport = async (format: ExportFormat) => {
+    const all = messages.map(toHistoryMessage);
+    if (all.length === 0) return;
+
+    setIsExporting(true);
+    try {
+      await exportChats(
+        [
+          {
+            id: internalChatIdRef.current ?? activeChatId ?? undefined,
+            title: titleFromMessages(all),
+            created_at: all[0].created_at,
+            messages:
+              format === "json" ? all : visibleMessages.map(toHistoryMessage),
+          },
+        ],
+        format
+      );
+    } catch (err) {
+      console.error("Export failed", err);
+      alert("Failed to export conversation.");
+    } finally {
+      setIsExporting(false);
     }
   };
 
@@ -510,303 +1054,115 @@ export default function ChatPage() {
     }
   };
 
-  const toggleCodeBlock = (id: string) => {
-    setExpandedCodeBlocks((prev) => ({ ...prev, [id]: !prev[id] }));
-  };
-
-  // File Icon & Color Helper
-  const getFileInfo = (type: string, name: string) => {
-    const lowerName = name.toLowerCase();
-
-    if (
-      type.startsWith("image/") ||
-      lowerName.match(/\.(jpg|jpeg|png|gif|webp|svg|bmp|ico)$/i)
-    ) {
-      return {
-        icon: "🖼️",
-        color: "from-pink-500/20 to-rose-500/20",
-        border: "border-pink-400/40",
-        text: "text-pink-200",
-      };
-    }
-    if (
-      type.startsWith("video/") ||
-      lowerName.match(/\.(mp4|avi|mov|mkv|webm)$/i)
-    ) {
-      return {
-        icon: "🎥",
-        color: "from-purple-500/20 to-violet-500/20",
-        border: "border-purple-400/40",
-        text: "text-purple-200",
-      };
-    }
-    if (
-      type.startsWith("audio/") ||
-      lowerName.match(/\.(mp3|wav|ogg|flac|m4a)$/i)
-    ) {
-      return {
-        icon: "🎵",
-        color: "from-cyan-500/20 to-blue-500/20",
-        border: "border-cyan-400/40",
-        text: "text-cyan-200",
-      };
-    }
-    if (type === "application/pdf" || lowerName.endsWith(".pdf")) {
-      return {
-        icon: "📄",
-        color: "from-red-500/20 to-orange-500/20",
-        border: "border-red-400/40",
-        text: "text-red-200",
-      };
-    }
-    if (
-      type.includes("document") ||
-      lowerName.match(/\.(doc|docx|txt|rtf)$/i)
-    ) {
-      return {
-        icon: "📝",
-        color: "from-blue-500/20 to-indigo-500/20",
-        border: "border-blue-400/40",
-        text: "text-blue-200",
-      };
-    }
-    if (type.includes("spreadsheet") || lowerName.match(/\.(xls|xlsx|csv)$/i)) {
-      return {
-        icon: "📊",
-        color: "from-green-500/20 to-emerald-500/20",
-        border: "border-green-400/40",
-        text: "text-green-200",
-      };
-    }
-    if (type.includes("presentation") || lowerName.match(/\.(ppt|pptx)$/i)) {
-      return {
-        icon: "📊",
-        color: "from-orange-500/20 to-amber-500/20",
-        border: "border-orange-400/40",
-        text: "text-orange-200",
-      };
-    }
-    if (
-      type.includes("zip") ||
-      type.includes("compressed") ||
-      lowerName.match(/\.(zip|rar|7z|tar|gz)$/i)
-    ) {
-      return {
-        icon: "📦",
-        color: "from-yellow-500/20 to-amber-500/20",
-        border: "border-yellow-400/40",
-        text: "text-yellow-200",
-      };
-    }
-    if (
-      lowerName.match(/\.(js|jsx|ts|tsx|py|java|cpp|c|html|css|json|xml)$/i)
-    ) {
-      return {
-        icon: "💻",
-        color: "from-slate-500/20 to-gray-500/20",
-        border: "border-slate-400/40",
-        text: "text-slate-200",
-      };
-    }
-
-    return {
-      icon: "📎",
-      color: "from-gray-500/20 to-slate-500/20",
-      border: "border-gray-400/40",
-      text: "text-gray-200",
-    };
-  };
-
-  const formatSize = (bytes: number) => {
-    if (bytes < 1024) return bytes + " B";
-    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
-    return (bytes / (1024 * 1024)).toFixed(1) + " MB";
-  };
-
-  // Enhanced Markdown Components
-  const sharedComponents: Partial<Components> = {
-    p: ({ children }) => (
-      <p className="mb-4 last:mb-0 leading-[1.75] text-gray-100 text-sm sm:text-[15px]">
-        {children}
-      </p>
-    ),
-    ul: ({ children }) => (
-      <ul className="list-disc list-outside ml-5 sm:ml-6 mb-4 space-y-2 text-gray-100 text-sm sm:text-[15px]">
-        {children}
-      </ul>
-    ),
-    ol: ({ children }) => (
-      <ol className="list-decimal list-outside ml-5 sm:ml-6 mb-4 space-y-2 text-gray-100 text-sm sm:text-[15px]">
-        {children}
-      </ol>
-    ),
-    li: ({ children }) => <li className="leading-[1.75] pl-1">{children}</li>,
-    h1: ({ children }) => (
-      <h1 className="text-2xl sm:text-3xl font-bold mb-4 sm:mb-5 mt-6 sm:mt-7 text-white border-b border-gray-700/50 pb-2 sm:pb-3">
-        {children}
-      </h1>
-    ),
-    h2: ({ children }) => (
-      <h2 className="text-xl sm:text-2xl font-bold mb-3 sm:mb-4 mt-5 sm:mt-6 text-white">
-        {children}
-      </h2>
-    ),
-    h3: ({ children }) => (
-      <h3 className="text-lg sm:text-xl font-semibold mb-2 sm:mb-3 mt-4 sm:mt-5 text-gray-100">
-        {children}
-      </h3>
-    ),
-    h4: ({ children }) => (
-      <h4 className="text-base sm:text-lg font-semibold mb-2 mt-3 sm:mt-4 text-gray-200">
-        {children}
-      </h4>
-    ),
-    blockquote: ({ children }) => (
-      <blockquote className="border-l-4 border-blue-500/80 bg-blue-500/5 pl-4 sm:pl-5 pr-3 sm:pr-4 py-2 sm:py-3 italic my-4 sm:my-5 text-gray-200 rounded-r-lg text-sm sm:text-base">
-        {children}
-      </blockquote>
-    ),
-    table: ({ children }) => (
-      <div className="overflow-x-auto my-4 sm:my-6 rounded-lg border border-gray-700/50">
-        <table className="min-w-full divide-y divide-gray-700/50">
-          {children}
-        </table>
-      </div>
-    ),
-    thead: ({ children }) => (
-      <thead className="bg-gray-800/50">{children}</thead>
-    ),
-    tbody: ({ children }) => (
-      <tbody className="divide-y divide-gray-700/30 bg-gray-900/20">
-        {children}
-      </tbody>
-    ),
-    th: ({ children }) => (
-      <th className="px-3 sm:px-5 py-2 sm:py-3.5 text-left text-xs sm:text-sm font-semibold text-gray-200 uppercase tracking-wider">
-        {children}
-      </th>
-    ),
-    td: ({ children }) => (
-      <td className="px-3 sm:px-5 py-2 sm:py-3.5 text-xs sm:text-sm text-gray-300 leading-relaxed">
-        {children}
-      </td>
-    ),
-    a: ({ href, children }) => (
-      <a
-        href={href}
-        target="_blank"
-        rel="noopener noreferrer"
-        className="text-blue-400 hover:text-blue-300 underline underline-offset-2 transition-colors"
-      >
-        {children}
-      </a>
-    ),
-    strong: ({ children }) => (
-      <strong className="font-semibold text-white">{children}</strong>
-    ),
-    em: ({ children }) => <em className="italic text-gray-200">{children}</em>,
-    hr: () => <hr className="my-4 sm:my-6 border-gray-700/50" />,
-    code: (props: CodeProps) => {
-      const { node, className, children, inline = false, ...rest } = props;
-      const match = /language-(\w+)/.exec(className || "");
-      const language = match ? match[1] : "";
-      const codeString = String(children).replace(/\n$/, "");
-      const codeId = `code-${node?.position?.start.offset || Math.random()}`;
-      const isExpanded = expandedCodeBlocks[codeId];
-      const lineCount = codeString.split("\n").length;
-      const shouldTruncate = lineCount > 20;
-
-      return !inline && match ? (
-        <div className="my-4 sm:my-6 rounded-xl overflow-hidden bg-[#1e1e1e] border border-gray-700/40 shadow-2xl">
-          <div className="flex items-center justify-between px-3 sm:px-5 py-2 sm:py-3 bg-[#2d2d2d]/80 border-b border-gray-700/40 backdrop-blur-sm">
-            <div className="flex items-center gap-2 sm:gap-3">
-              <div className="hidden sm:flex gap-2">
-                <div className="w-3 h-3 rounded-full bg-red-500/90 shadow-sm" />
-                <div className="w-3 h-3 rounded-full bg-yellow-500/90 shadow-sm" />
-                <div className="w-3 h-3 rounded-full bg-green-500/90 shadow-sm" />
-              </div>
-              <span className="text-[10px] sm:text-xs text-gray-400 font-mono font-semibold uppercase tracking-wide">
-                {language || "plaintext"}
-              </span>
-              <span className="text-[10px] sm:text-xs text-gray-500 font-mono">
-                {lineCount} {lineCount === 1 ? "line" : "lines"}
-              </span>
-            </div>
-            <div className="flex items-center gap-1 sm:gap-2">
-              {shouldTruncate && (
-                <button
-                  onClick={() => toggleCodeBlock(codeId)}
-                  className="text-[10px] sm:text-xs text-gray-400 hover:text-blue-400 flex items-center gap-1 sm:gap-1.5 px-1.5 sm:px-2 py-1 rounded hover:bg-gray-700/30 transition-all"
-                >
-                  <span className="hidden sm:inline">
-                    {isExpanded ? "Collapse" : "Expand"}
-                  </span>
-                  <ChevronDownIcon
-                    className={`w-3 sm:w-3.5 h-3 sm:h-3.5 transition-transform ${
-                      isExpanded ? "rotate-180" : ""
-                    }`}
-                  />
-                </button>
-              )}
-              <button
-                onClick={() => handleCopy(codeString, codeId)}
-                className="text-gray-400 hover:text-emerald-400 p-1 sm:p-1.5 rounded hover:bg-gray-700/30 transition-all"
-                title="Copy code"
-              >
-                {copiedStates[codeId] ? (
-                  <CheckIcon className="w-3.5 sm:w-4 h-3.5 sm:h-4 text-emerald-400" />
-                ) : (
-                  <ClipboardDocumentIcon className="w-3.5 sm:w-4 h-3.5 sm:h-4" />
-                )}
-              </button>
-            </div>
-          </div>
-          <div
-            className={`relative overflow-hidden transition-all duration-300 ${
-              shouldTruncate && !isExpanded
-                ? "max-h-[400px] sm:max-h-[500px]"
-                : "max-h-none"
-            }`}
-          >
-            <SyntaxHighlighter
-              style={vscDarkPlus}
-              language={language}
-              PreTag="div"
-              customStyle={{
-                margin: 0,
-                padding: "1rem",
-                background: "#1e1e1e",
-                fontSize: "0.8rem",
-                lineHeight: "1.6",
-              }}
-              showLineNumbers={lineCount > 5}
-              wrapLines={true}
-              {...rest}
+  // Version switcher, edit and regenerate actions under a message
+  const renderTurnControls = (msg: Message) => {
+    const isBusy = isStreaming || isThinking;
+    const versions = siblingsOf(messages, msg.parentId);
+    const versionIndex = versions.findIndex((m) => m.id === msg.id);
+    const canEdit = msg.role === "user" && editingId !== msg.id && !isBusy;
+    const canRegenerate =
+      msg.role === "ai" && msg.id === leafId && !!msg.parentId && !isBusy;
+
+    if (versions.length < 2 && !canEdit && !canRegenerate) return null;
+
+    return (
+      <div className="flex items-center gap-1 mt-3 px-1 text-[11px] text-gray-500">
+        {versions.length > 1 && (
+          <div className="flex items-center gap-0.5">
+            <button
+              onClick={() => selectVersion(msg, -1)}
+              disabled={isBusy || versionIndex === 0}
+              className="p-1 rounded hover:bg-gray-800/60 hover:text-gray-300 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              title="Previous version"
             >
-              {codeString}
-            </SyntaxHighlighter>
-            {shouldTruncate && !isExpanded && (
-              <div className="absolute bottom-0 left-0 right-0 h-20 sm:h-24 bg-gradient-to-t from-[#1e1e1e] via-[#1e1e1e]/80 to-transparent pointer-events-none" />
-            )}
+              <ChevronLeftIcon className="w-3.5 h-3.5" />
+            </button>
+            <span className="font-mono tabular-nums">
+              {versionIndex + 1}/{versions.length}
+            </span>
+            <button
+              onClick={() => selectVersion(msg, 1)}
+              disabled={isBusy || versionIndex === versions.length - 1}
+              className="p-1 rounded hover:bg-gray-800/60 hover:text-gray-300 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              title="Next version"
+            >
+              <ChevronRightIcon className="w-3.5 h-3.5" />
+            </button>
           </div>
-        </div>
-      ) : (
-        <code
-          className="bg-gray-800/60 text-blue-300 rounded-md px-1.5 sm:px-2 py-0.5 text-[0.85em] sm:text-[0.9em] font-mono border border-gray-700/40"
-          {...rest}
-        >
-          {children}
-        </code>
-      );
-    },
+        )}
+
+        {canEdit && (
+          <button
+            onClick={() => {
+              setEditingId(msg.id);
+              setEditDraft(msg.content);
+            }}
+            className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-800/60 hover:text-gray-300 transition-colors"
+            title="Edit message"
+          >
+            <PencilSquareIcon className="w-3.5 h-3.5" />
+            <span>Edit</span>
+          </button>
+        )}
+
+        {canRegenerate && (
+          <button
+            onClick={() => msg.parentId && handleRegenerate(msg.parentId)}
+            className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-800/60 hover:text-gray-300 transition-colors"
+            title="Regenerate response"
+          >
+            <ArrowPathIcon className="w-3.5 h-3.5" />
+            <span>Regenerate</span>
+          </button>
+        )}
+      </div>
+    );
   };
 
   return (
     <div className="flex flex-col h-full bg-gradient-to-br from-[#0a0b0f] via-[#0d0e14] to-[#0a0b0f] relative">
       {/* Header */}
       <div className="absolute top-0 left-0 right-0 z-20 px-3 sm:px-3 md:px-5 py-2.5 sm:py-3.5 flex items-center justify-end bg-transparent border-none shadow-none pointer-events-none">
-        <div className="pointer-events-auto">
-          <ModelSelector model={model} setModel={setModel} />
+        <div className="pointer-events-auto flex items-start gap-2">
+          {savedChatId && messages.length > 0 && (
+            <button
+              onClick={() => setIsShareOpen(true)}
+              disabled={isStreaming || isThinking}
+              className="flex items-center gap-1.5 h-9 px-3 bg-[#1a1d26] hover:bg-[#1f2229] text-gray-300 rounded-lg border border-gray-700/50 hover:border-blue-500/50 text-xs font-semibold transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <LinkIcon className="w-4 h-4" />
+              <span className="hidden sm:inline">Share</span>
+            </button>
+          )}
+          <PersonaMenu
+            personas={personas ?? []}
+            persona={persona}
+            systemPrompt={systemPrompt}
+            onSelect={selectPersona}
+            onSavePrompt={(prompt) =>
+              updateInstructions({ persona_id: personaId, system_prompt: prompt })
+            }
+            disabled={isStreaming || isThinking}
+          />
+          {messages.length > 0 && (
+            <ExportMenu
+              onExport={handleExport}
+              disabled={isStreaming || isThinking}
+              isExporting={isExporting}
+            />
+          )}
+          <GenerationSettings
+            params={genParams}
+            setParams={setGenParams}
+            support={paramSupport}
+            disabled={isStreaming || isThinking}
+          />
+          <ModelSelector
+            model={activeModel}
+            setModel={pickModel}
+            compareModels={compareModels}
+            setCompareModels={setCompareModels}
+          />
         </div>
       </div>
 
@@ -819,7 +1175,7 @@ export default function ChatPage() {
         <div
           className={`mx-auto space-y-4 sm:space-y-5 transition-all duration-300 max-w-5xl`}
         >
-          {messages.length === 0 && (
+          {visibleMessages.length === 0 && (
             <div className="h-[60vh] sm:h-[65vh] flex flex-col items-center justify-center text-center animate-in fade-in duration-1000 px-4">
               <div className="relative mb-8 sm:mb-10">
                 <div className="absolute inset-0 bg-gradient-to-r from-blue-600 via-purple-600 to-pink-600 rounded-2xl sm:rounded-3xl blur-2xl sm:blur-3xl opacity-20 animate-pulse" />
@@ -846,15 +1202,40 @@ export default function ChatPage() {
                 Ask questions, write code, analyze data, or explore ideas
                 together
               </p>
+
+              {/* Persona Picker */}
+              {personas && personas.length > 0 && (
+                <div className="mt-8 flex flex-wrap justify-center gap-2 max-w-2xl">
+                  {personas.map((p) => (
+                    <button
+                      key={p.id}
+                      onClick={() => selectPersona(p.id === personaId ? null : p)}
+                      className={`flex items-center gap-2 px-3.5 py-2 rounded-xl border text-xs sm:text-sm transition-all ${
+                        p.id === personaId
+                          ? "bg-blue-500/15 border-blue-500/50 text-white"
+                          : "bg-[#13151c] border-gray-700/40 text-gray-400 hover:text-gray-200 hover:border-gray-600"
+                      }`}
+                    >
+                      <span>{p.icon}</span>
+                      <span className="font-medium">{p.name}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           )}
 
-          {messages.map((msg) => (
+          {visibleMessages.map((msg) => (
             <div
               key={msg.id}
-              className={`flex w-full ${
-                msg.role === "user" ? "justify-end" : "justify-start"
-              } animate-in slide-in-from-bottom-2 duration-400`}
+              id={`message-${msg.id}`}
+              className={`flex flex-col w-full ${
+                msg.role === "user" ? "items-end" : "items-start"
+              } ${
+                highlightedId === msg.id
+                  ? "rounded-2xl ring-2 ring-yellow-400/40 ring-offset-4 ring-offset-[#0d0e14]"
+                  : ""
+              } transition-shadow animate-in slide-in-from-bottom-2 duration-400`}
             >
               <div
                 className={`relative group ${
@@ -873,25 +1254,24 @@ export default function ChatPage() {
               >
                 {msg.role === "ai" ? (
                   <div className="flex flex-col gap-3">
-                    <div className="prose prose-invert max-w-none prose-headings:font-bold prose-a:text-blue-400">
-                      <ReactMarkdown
-                        remarkPlugins={[remarkGfm, remarkMath]}
-                        rehypePlugins={[rehypeKatex]}
-                        components={sharedComponents}
-                      >
-                        {msg.content}
-                      </ReactMarkdown>
-                    </div>
+                    <ChatMarkdown content={msg.content} />
 
                     {/* Model Badge */}
-                    {msg.model && (
-                      <div className="flex items-center gap-2 mt-1 pt-3 border-t border-gray-700/40">
-                        <div className="flex items-center gap-1.5 px-2.5 py-1 bg-purple-500/10 rounded-lg border border-purple-500/20">
-                          <CpuChipIcon className="w-3 sm:w-3.5 h-3 sm:h-3.5 text-purple-400" />
-                          <span className="text-[10px] sm:text-[11px] font-semibold text-purple-300 uppercase tracking-wide">
-                            {msg.model}
+                    {(msg.model || hasParams(msg.params)) && (
+                      <div className="flex flex-wrap items-center gap-2 mt-1 pt-3 border-t border-gray-700/40">
+                        {msg.model && (
+                          <div className="flex items-center gap-1.5 px-2.5 py-1 bg-purple-500/10 rounded-lg border border-purple-500/20">
+                            <CpuChipIcon className="w-3 sm:w-3.5 h-3 sm:h-3.5 text-purple-400" />
+                            <span className="text-[10px] sm:text-[11px] font-semibold text-purple-300 uppercase tracking-wide">
+                              {msg.model}
+                            </span>
+                          </div>
+                        )}
+                        {msg.params && hasParams(msg.params) && (
+                          <span className="text-[10px] sm:text-[11px] font-mono text-gray-500">
+                            {describeParams(msg.params).join(" · ")}
                           </span>
-                        </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -901,63 +1281,49 @@ export default function ChatPage() {
                   </div>
                 ) : (
                   <div className="space-y-3">
-                    {msg.content && (
-                      <div className="leading-[1.7] break-words whitespace-pre-wrap text-sm sm:text-[15px]">
-                        {msg.content}
+                    {editingId === msg.id ? (
+                      <div className="space-y-2 min-w-[240px] sm:min-w-[420px]">
+                        <textarea
+                          value={editDraft}
+                          onChange={(e) => setEditDraft(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter" && !e.shiftKey) {
+                              e.preventDefault();
+                              handleEditSubmit(msg, editDraft);
+                            } else if (e.key === "Escape") {
+                              setEditingId(null);
+                            }
+                          }}
+                          autoFocus
+                          rows={3}
+                          className="w-full bg-blue-900/40 text-white text-sm sm:text-[15px] leading-relaxed rounded-lg border border-white/20 p-2.5 resize-y focus:outline-none focus:ring-2 focus:ring-white/30"
+                        />
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => setEditingId(null)}
+                            className="px-3 py-1.5 text-xs font-medium rounded-lg text-blue-100 hover:bg-white/10 transition-colors"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() => handleEditSubmit(msg, editDraft)}
+                            disabled={!editDraft.trim()}
+                            className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-white text-blue-700 hover:bg-blue-50 disabled:opacity-50 transition-colors"
+                          >
+                            Send
+                          </button>
+                        </div>
                       </div>
+                    ) : (
+                      msg.content && (
+                        <div className="leading-[1.7] break-words whitespace-pre-wrap text-sm sm:text-[15px]">
+                          {msg.content}
+                        </div>
+                      )
                     )}
 
-                    {/* Enhanced Attachment Pills */}
                     {msg.attachments && msg.attachments.length > 0 && (
-                      <div className="space-y-2 pt-2">
-                        <div className="flex items-center gap-1.5 text-[10px] sm:text-xs text-blue-200/70 font-medium">
-                          <svg
-                            className="w-3 h-3"
-                            fill="currentColor"
-                            viewBox="0 0 20 20"
-                          >
-                            <path
-                              fillRule="evenodd"
-                              d="M8 4a3 3 0 00-3 3v4a5 5 0 0010 0V7a1 1 0 112 0v4a7 7 0 11-14 0V7a5 5 0 0110 0v4a3 3 0 11-6 0V7a1 1 0 012 0v4a1 1 0 102 0V7a3 3 0 00-3-3z"
-                              clipRule="evenodd"
-                            />
-                          </svg>
-                          <span>
-                            {msg.attachments.length}{" "}
-                            {msg.attachments.length === 1
-                              ? "Attachment"
-                              : "Attachments"}
-                          </span>
-                        </div>
-                        <div className="flex flex-wrap gap-2">
-                          {msg.attachments.map((file, idx) => {
-                            const fileInfo = getFileInfo(file.type, file.name);
-
-                            return (
-                              <div
-                                key={idx}
-                                className={`group/file relative flex items-center gap-2 bg-gradient-to-br ${fileInfo.color} backdrop-blur-sm border ${fileInfo.border} rounded-lg px-3 py-2 transition-all duration-200 hover:scale-[1.02] hover:shadow-lg`}
-                              >
-                                <div className="flex items-center justify-center w-8 h-8 rounded-md bg-white/10 backdrop-blur-sm">
-                                  <span className="text-lg">
-                                    {fileInfo.icon}
-                                  </span>
-                                </div>
-                                <div className="flex flex-col min-w-0 flex-1">
-                                  <span
-                                    className={`text-xs font-semibold ${fileInfo.text} truncate max-w-[180px] sm:max-w-[280px]`}
-                                  >
-                                    {file.name}
-                                  </span>
-                                  <span className="text-[10px] text-blue-300/60 font-medium">
-                                    {formatSize(file.size)}
-                                  </span>
-                                </div>
-                              </div>
-                            );
-                          })}
-                        </div>
-                      </div>
+                      <AttachmentPills attachments={msg.attachments} />
                     )}
                   </div>
                 )}
@@ -992,9 +1358,92 @@ export default function ChatPage() {
                   </button>
                 )}
               </div>
+
+              {msg.role !== "system" && renderTurnControls(msg)}
             </div>
           ))}
 
+          {/* Comparison Columns */}
+          {openComparison && (
+            <div className="space-y-3 animate-in fade-in duration-300">
+              <div className="flex items-center gap-2 px-1 text-[11px] sm:text-xs text-gray-400">
+                <ViewColumnsIcon className="w-4 h-4 text-purple-400" />
+                <span>
+                  Comparing {openComparison.models.length} models. Pick the
+                  answer to continue with.
+                </span>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3 sm:gap-4">
+                {openComparison.columns.map(({ modelId, answer }, idx) => {
+                  const isDone =
+                    !!answer &&
+                    (answer.cost !== undefined || (!isStreaming && !isThinking));
+
+                  return (
+                    <div
+                      key={answer?.id ?? `pending-${idx}`}
+                      className="flex flex-col min-w-0 bg-[#13151c] border border-gray-700/30 rounded-2xl shadow-2xl"
+                    >
+                      <div className="flex items-center justify-between gap-2 px-4 py-2.5 border-b border-gray-700/40">
+                        <div className="flex items-center gap-1.5 px-2.5 py-1 bg-purple-500/10 rounded-lg border border-purple-500/20 min-w-0">
+                          <CpuChipIcon className="w-3.5 h-3.5 text-purple-400 shrink-0" />
+                          <span className="text-[10px] sm:text-[11px] font-semibold text-purple-300 uppercase tracking-wide truncate">
+                            {answer?.model || modelId}
+                          </span>
+                        </div>
+                        {answer?.cost !== undefined && (
+                          <span className="text-[11px] font-mono text-emerald-400 shrink-0">
+                            {answer.cost} credits
+                          </span>
+                        )}
+                      </div>
+
+                      <div className="flex-1 px-4 py-4 min-h-[120px] max-h-[60vh] overflow-y-auto">
+                        {answer ? (
+                          <ChatMarkdown content={answer.content} />
+                        ) : (
+                          <span className="text-xs sm:text-sm text-blue-300/80 animate-pulse">
+                            Waiting for response...
+                          </span>
+                        )}
+                      </div>
+
+                      <div className="flex items-center justify-end gap-2 px-4 py-2.5 border-t border-gray-700/40">
+                        {answer?.params && hasParams(answer.params) && (
+                          <span className="mr-auto text-[10px] font-mono text-gray-500 truncate">
+                            {describeParams(answer.params).join(" · ")}
+                          </span>
+                        )}
+                        {answer && (
+                          <button
+                            onClick={() =>
+                              handleCopy(answer.content, `msg-${answer.id}`)
+                            }
+                            className="p-1.5 rounded-lg text-gray-400 hover:text-gray-200 hover:bg-gray-800/60 transition-colors"
+                            title="Copy answer"
+                          >
+                            {copiedStates[`msg-${answer.id}`] ? (
+                              <CheckIcon className="w-4 h-4 text-emerald-400" />
+                            ) : (
+                              <DocumentDuplicateIcon className="w-4 h-4" />
+                            )}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => answer && promoteAnswer(answer)}
+                          disabled={!isDone}
+                          className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-purple-600 text-white hover:bg-purple-500 disabled:opacity-40 disabled:hover:bg-purple-600 transition-colors"
+                        >
+                          Use this answer
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Thinking State */}
           {isThinking && (
             <div className="flex items-start gap-3 sm:gap-4 animate-in fade-in pl-2 sm:pl-3">
@@ -1046,6 +1495,14 @@ export default function ChatPage() {
         </button>
       )}
 
+      {savedChatId && (
+        <ShareDialog
+          chatId={savedChatId}
+          isOpen={isShareOpen}
+          onClose={() => setIsShareOpen(false)}
+        />
+      )}
+
       <ChatInput
         input={input}
         setInput={setInput}
@@ -1055,11 +1512,13 @@ export default function ChatPage() {
         isThinking={isThinking}
         onSend={sendMessage}
         onStop={handleStop}
+        cost={chatCost}
         textareaRef={textareaRef}
         isFullWidth={false}
-        showEmptyStatePlaceholder={messages.length === 0}
+        showEmptyStatePlaceholder={visibleMessages.length === 0}
         placeholderText={placeholderText}
         fadePlaceholder={fadePlaceholder}
+        prompts={prompts}
       />
     </div>
   );
@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  ArrowPathIcon,
+  CheckCircleIcon,
+  ClockIcon,
+  ExclamationTriangleIcon,
+  XCircleIcon,
+} from '@heroicons/react/24/outline';
+import { getCheckoutSession } from '../api/billing';
+import type { CheckoutSessionStatus } from '../api/types';
+import { useAuth } from '../context/AuthContext';
+
+// The webhook that credits the wallet can land a little after the redirect
+const POLL_INTERVAL = 2000;
+const MAX_POLLS = 15;
+
+type ConfirmState =
+  | { phase: 'confirming' }
+  | { phase: 'complete'; session: CheckoutSessionStatus }
+  | { phase: 'expired' }
+  | { phase: 'pending' }
+  | { phase: 'error'; message: string };
+
+// Landing page for Stripe's success_url and cancel_url
+export default function CheckoutReturnPage({ outcome }: { outcome: 'success' | 'cancel' }) {
+  const [searchParams] = useSearchParams();
+  const sessionId = searchParams.get('session_id');
+
+  if (outcome === 'cancel') {
+    return (
+      <ReturnCard
+        icon={<XCircleIcon className="w-12 h-12 text-gray-500" />}
+        title="Checkout cancelled"
+        message="No payment was taken. You can pick a pack and try again whenever you like."
+      />
+    );
+  }
+
+  if (!sessionId) {
+    return (
+      <ReturnCard
+        icon={<ExclamationTriangleIcon className="w-12 h-12 text-amber-400" />}
+        title="Missing checkout session"
+        message="This link doesn't include a checkout session. If you were charged, your credits will still be added."
+      />
+    );
+  }
+
+  return <ConfirmPayment sessionId={sessionId} />;
+}
+
+// SUB-COMPONENTS
+
+// Waits for the backend to confirm the payment
+function ConfirmPayment({ sessionId }: { sessionId: string }) {
+  const { refreshProfile } = useAuth();
+  const [state, setState] = useState<ConfirmState>({ phase: 'confirming' });
+  // refreshProfile is recreated on every AuthProvider render; only the session should restart polling
+  const refreshProfileRef = useRef(refreshProfile);
+
+  useEffect(() => {
+    refreshProfileRef.current = refreshProfile;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    let polls = 0;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const check = async () => {
+      polls += 1;
+      try {
+        const session = await getCheckoutSession(sessionId);
+        if (cancelled) return;
+
+        if (session.status === 'complete') {
+          setState({ phase: 'complete', session });
+          refreshProfileRef.current();
+          return;
+        }
+        if (session.status === 'expired') {
+          setState({ phase: 'expired' });
+          return;
+        }
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Checkout status check failed', err);
+        setState({ phase: 'error', message: 'We could not confirm this payment.' });
+        return;
+      }
+
+      if (polls >= MAX_POLLS) {
+        setState({ phase: 'pending' });
+        refreshProfileRef.current();
+        return;
+      }
+      timer = setTimeout(check, POLL_INTERVAL);
+    };
+
+    check();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [sessionId]);
+
+  switch (state.phase) {
+    case 'confirming':
+      return (
+        <ReturnCard
+          icon={<ArrowPathIcon className="w-12 h-12 text-blue-400 animate-spin" />}
+          title="Confirming your payment..."
+          message="This usually takes a few seconds."
+          hideActions
+        />
+      );
+    case 'complete':
+      return (
+        <ReturnCard
+          icon={<CheckCircleIcon className="w-12 h-12 text-emerald-400" />}
+          title="Payment successful"
+          message={
+            state.session.credits_added !== null
+              ? `${state.session.credits_added.toLocaleString()} credits were added to your wallet.`
+              : 'Your credits were added to your wallet.'
+          }
+        />
+      );
+    case 'expired':
+      return (
+        <ReturnCard
+          icon={<XCircleIcon className="w-12 h-12 text-red-400" />}
+          title="Checkout expired"
+          message="The payment was not completed and you were not charged."
+        />
+      );
+    case 'pending':
+      return (
+        <ReturnCard
+          icon={<ClockIcon className="w-12 h-12 text-amber-400" />}
+          title="Payment is still processing"
+          message="Your credits will appear in your balance as soon as the payment is confirmed."
+        />
+      );
+    case 'error':
+      return (
+        <ReturnCard
+          icon={<ExclamationTriangleIcon className="w-12 h-12 text-amber-400" />}
+          title="Something went wrong"
+          message={`${state.message} If you were charged, your credits will still be added.`}
+        />
+      );
+  }
+}
+
+function ReturnCard({
+  icon,
+  title,
+  message,
+  hideActions = false,
+}: {
+  icon: React.ReactNode;
+  title: string;
+  message: string;
+  hideActions?: boolean;
+}) {
+  return (
+    <div className="h-full flex items-center justify-center p-4">
+      <div className="max-w-md w-full text-center bg-slate-900/50 border border-slate-800 rounded-2xl p-8 animate-in fade-in zoom-in-95 duration-300">
+        <div className="flex justify-center mb-4">{icon}</div>
+        <h1 className="text-xl font-bold text-white mb-2">{title}</h1>
+        <p className="text-sm text-gray-400 mb-6">{message}</p>
+        {!hideActions && (
+          <div className="flex justify-center gap-3">
+            <Link
+              to="/dashboard/billing"
+              className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm font-medium text-gray-200 transition-colors"
+            >
+              Back to billing
+            </Link>
+            <Link
+              to="/dashboard"
+              className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-medium text-white transition-colors"
+            >
+              Go to chat
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { requestPasswordReset } from '../api/auth';
+import AuthCard from '../components/AuthCard';
+import AuthField from '../components/AuthField';
+import { authErrorMessage, validateEmail } from '../utils/authForm';
+
+export default function ForgotPassword() {
+  const location = useLocation();
+  // Carried over from the sign-in form so it doesn't have to be retyped
+  const [email, setEmail] = useState((location.state as { email?: string } | null)?.email ?? '');
+  const [emailError, setEmailError] = useState<string | undefined>();
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const invalid = validateEmail(email);
+    setEmailError(invalid);
+    setError('');
+    if (invalid) return;
+
+    setIsSubmitting(true);
+    try {
+      await requestPasswordReset(email.trim());
+      setSent(true);
+    } catch (err) {
+      setError(authErrorMessage(err, 'reset'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const footer = (
+    <Link to="/login" state={{ email: email.trim() }} className="font-semibold text-gray-900 hover:underline">
+      Back to sign in
+    </Link>
+  );
+
+  if (sent) {
+    return (
+      <AuthCard
+        title="Check your inbox"
+        subtitle={`If an account exists for ${email.trim()}, we sent it a link to choose a new password.`}
+        footer={footer}
+      >
+        <button
+          onClick={() => setSent(false)}
+          className="w-full border border-gray-300 text-gray-800 p-3 rounded-lg font-semibold hover:bg-gray-50 transition"
+        >
+          Use a different email
+        </button>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard
+      title="Reset your password"
+      subtitle="Enter the email you signed up with and we'll send you a reset link."
+      footer={footer}
+    >
+      {error && <p className="text-red-500 text-sm mb-4 text-center">{error}</p>}
+      <form onSubmit={handleSubmit} noValidate className="space-y-4">
+        <AuthField
+          label="Email"
+          type="email"
+          autoComplete="email"
+          value={email}
+          onChange={(value) => {
+            setEmail(value);
+            setEmailError(undefined);
+          }}
+          error={emailError}
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full bg-gray-900 text-white p-3 rounded-lg font-semibold hover:bg-gray-800 transition disabled:opacity-60"
+        >
+          {isSubmitting ? 'Sending…' : 'Send reset link'}
+        </button>
+      </form>
+    </AuthCard>
+  );
+}
@@ -1,31 +1,241 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import useSWR from 'swr';
+import useSWR, { mutate as mutateGlobal } from 'swr';
+import useSWRInfinite from 'swr/infinite';
 import { 
   ChatBubbleLeftRightIcon, 
   ClockIcon, 
   ChevronRightIcon, 
   CalendarDaysIcon,
-  TrashIcon
+  TrashIcon,
+  MagnifyingGlassIcon,
+  XMarkIcon,
+  FunnelIcon,
+  PencilSquareIcon,
+  BookmarkIcon,
+  ArchiveBoxIcon,
+  ArchiveBoxArrowDownIcon,
+  FolderIcon,
+  FolderPlusIcon,
+  InboxStackIcon,
+  ArrowUpTrayIcon,
+  CheckCircleIcon
 } from '@heroicons/react/24/outline';
-import api from '../api/client';
+import { BookmarkIcon as BookmarkSolidIcon } from '@heroicons/react/24/solid';
+import {
+  createFolder,
+  deleteChat,
+  deleteFolder,
+  getChatHistory,
+  importChat,
+  listFolders,
+  renameFolder,
+  searchChats,
+  updateChat,
+} from '../api/chat';
+import type {
+  ChatExportItem,
+  ChatHistoryItem,
+  ChatSearchPage,
+  ChatSearchParams,
+  ChatSearchResult,
+  ChatUpdateRequest,
+} from '../api/types';
 import DeleteModal from '../components/DeleteModal';
+import ExportMenu from '../components/ExportMenu';
+import { exportChats, parseChatImport, type ExportFormat } from '../utils/chatExport';
+import { modelsOfKind, useCatalog } from '../hooks/useCatalog';
 
-// Types
-type ChatHistoryItem = {
-  id: string;
-  title: string;
-  created_at: string;
-};
+const PAGE_SIZE = 20;
 
-// SWR Fetcher
-const fetcher = (url: string) => api.get(url).then((res) => res.data);
+type SearchKey = readonly ['/chat/search', ChatSearchParams];
+
+// 'all', 'archived', or a folder id
+type HistoryView = string;
 
 export default function HistoryPage() {
   const navigate = useNavigate();
+  const { catalog } = useCatalog();
+
+  // Filters
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [modelFilter, setModelFilter] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+
+  // Folders
+  const [view, setView] = useState<HistoryView>('all');
+  const isFolderView = view !== 'all' && view !== 'archived';
+  const { data: folders, mutate: mutateFolders } = useSWR('/chat/folders', listFolders);
+  const [newFolderName, setNewFolderName] = useState<string | null>(null);
+  const [editingFolderId, setEditingFolderId] = useState<string | null>(null);
+  const [folderDraft, setFolderDraft] = useState('');
+  const [folderToDelete, setFolderToDelete] = useState<string | null>(null);
+  const [isDeletingFolder, setIsDeletingFolder] = useState(false);
+
+  // Drag & Drop
+  const [draggedChat, setDraggedChat] = useState<ChatSearchResult | null>(null);
+  const [dropTarget, setDropTarget] = useState<HistoryView | null>(null);
+
+  // Wait for typing to pause before hitting the search endpoint
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const filters: ChatSearchParams = {
+    q: debouncedQuery || undefined,
+    model: modelFilter || undefined,
+    date_from: dateFrom || undefined,
+    date_to: dateTo || undefined,
+    archived: view === 'archived' || undefined,
+    folder_id: isFolderView ? view : undefined,
+    limit: PAGE_SIZE,
+  };
+  const hasFilters = !!(debouncedQuery || modelFilter || dateFrom || dateTo);
+
+  // Cursor pagination: each page key carries the cursor from the previous page
+  const getKey = (pageIndex: number, previousPage: ChatSearchPage | null): SearchKey | null => {
+    if (previousPage && !previousPage.next_cursor) return null;
+    return ['/chat/search', { ...filters, cursor: pageIndex === 0 ? undefined : previousPage?.next_cursor }];
+  };
+
+  const { data: pages, error, isLoading, isValidating, size, setSize, mutate } = useSWRInfinite(
+    getKey,
+    ([, params]: SearchKey) => searchChats(params),
+    { revalidateFirstPage: false }
+  );
+
+  const chats = pages?.flatMap((page) => page.items);
+  const hasMore = !!pages && !!pages[pages.length - 1]?.next_cursor;
+  const isLoadingMore = isValidating && !!pages && size > pages.length;
+
+  // Infinite scroll: load the next page when the sentinel comes into view
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isLoadingMore) setSize((s) => s + 1);
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, setSize]);
+
+  const clearFilters = () => {
+    setQuery('');
+    setDebouncedQuery('');
+    setModelFilter('');
+    setDateFrom('');
+    setDateTo('');
+  };
+
+  // Search hits open the chat scrolled to the matching message
+  const openChat = (chat: ChatSearchResult) => {
+    const messageId = chat.match?.message_id;
+    navigate(`/dashboard/chat/${chat.id}${messageId ? `?message=${encodeURIComponent(messageId)}` : ''}`);
+  };
+
+  // Apply a change locally, then persist it; the row leaves the list if it no
+  // longer belongs to the current view
+  const patchChat = async (chat: ChatSearchResult, patch: ChatUpdateRequest) => {
+    const updated = { ...chat, ...patch };
+    const stillListed =
+      (view === 'archived') === !!updated.archived &&
+      (!isFolderView || updated.folder_id === view);
+
+    const previousData = pages;
+    mutate(
+      (currentPages) =>
+        currentPages?.map((page) => ({
+          ...page,
+          items: stillListed
+            ? page.items.map((c) => (c.id === chat.id ? updated : c))
+            : page.items.filter((c) => c.id !== chat.id),
+        })),
+      false
+    );
+
+    try {
+      await updateChat(chat.id, patch);
+      // Pinning changes the order, so refetch from the server
+      mutate();
+      mutateGlobal('/chat/recent');
+    } catch (error) {
+      console.error("Failed to update chat", error);
+      alert("Failed to update conversation.");
+      mutate(previousData, false);
+    }
+  };
+
+  // Dropping on a tab files the chat there
+  const handleDrop = (target: HistoryView) => {
+    setDropTarget(null);
+    if (!draggedChat) return;
+
+    if (target === 'archived') {
+      if (!draggedChat.archived) patchChat(draggedChat, { archived: true });
+    } else if (target === 'all') {
+      if (draggedChat.folder_id || draggedChat.archived) {
+        patchChat(draggedChat, { folder_id: null, archived: false });
+      }
+    } else if (draggedChat.folder_id !== target) {
+      patchChat(draggedChat, { folder_id: target, archived: false });
+    }
+    setDraggedChat(null);
+  };
+
+  // Folder Handlers
+  const submitNewFolder = async () => {
+    const name = newFolderName?.trim();
+    setNewFolderName(null);
+    if (!name) return;
 
-  // Destructure mutate to allow manual updates
-  const { data: chats, error, isLoading, mutate } = useSWR<ChatHistoryItem[]>('/chat/list', fetcher);
+    try {
+      const folder = await createFolder(name);
+      mutateFolders((current) => [...(current || []), folder], false);
+    } catch (error) {
+      console.error("Failed to create folder", error);
+      alert("Failed to create folder.");
+    }
+  };
+
+  const submitFolderRename = async (folderId: string) => {
+    const name = folderDraft.trim();
+    setEditingFolderId(null);
+    const folder = folders?.find((f) => f.id === folderId);
+    if (!name || !folder || folder.name === name) return;
+
+    mutateFolders((current) => current?.map((f) => (f.id === folderId ? { ...f, name } : f)), false);
+    try {
+      await renameFolder(folderId, name);
+    } catch (error) {
+      console.error("Failed to rename folder", error);
+      alert("Failed to rename folder.");
+      mutateFolders();
+    }
+  };
+
+  const confirmDeleteFolder = async () => {
+    if (!folderToDelete) return;
+    setIsDeletingFolder(true);
+
+    try {
+      await deleteFolder(folderToDelete);
+      mutateFolders((current) => current?.filter((f) => f.id !== folderToDelete), false);
+      if (view === folderToDelete) setView('all');
+      mutate();
+      setFolderToDelete(null);
+    } catch (error) {
+      console.error("Failed to delete folder", error);
+      alert("Failed to delete folder.");
+    } finally {
+      setIsDeletingFolder(false);
+    }
+  };
 
   // Delete State
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
@@ -45,15 +255,20 @@ export default function HistoryPage() {
     setIsDeleting(true);
 
     // Remove locally immediately
-    const previousData = chats;
+    const previousData = pages;
     mutate(
-      (currentData) => currentData?.filter((chat) => chat.id !== itemToDelete),
+      (currentPages) =>
+        currentPages?.map((page) => ({
+          ...page,
+          items: page.items.filter((chat) => chat.id !== itemToDelete),
+        })),
       false // Revalidate = false to prevent immediate refetch flicker
     );
 
     try {
-      await api.delete(`/chat/${itemToDelete}`);
+      await deleteChat(itemToDelete);
       mutate();
+      mutateGlobal('/chat/recent');
       setDeleteModalOpen(false);
       setItemToDelete(null);
     } catch (error) {
@@ -65,9 +280,83 @@ export default function HistoryPage() {
     }
   };
 
-  // Group chats by Date
+  // Bulk Export & Import
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const toggleSelecting = () => {
+    setIsSelecting(!isSelecting);
+    setSelectedIds([]);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  };
+
+  const handleBulkExport = async (format: ExportFormat) => {
+    const selected = chats?.filter((chat) => selectedIds.includes(chat.id)) ?? [];
+    if (selected.length === 0) return;
+
+    setIsExporting(true);
+    try {
+      const exported = await Promise.all(
+        selected.map(async (chat) => ({
+          id: chat.id,
+          title: chat.title || 'Untitled Conversation',
+          created_at: chat.created_at,
+          messages: await getChatHistory(chat.id),
+        }))
+      );
+      await exportChats(exported, format);
+      setIsSelecting(false);
+      setSelectedIds([]);
+    } catch (error) {
+      console.error("Failed to export chats", error);
+      alert("Failed to export conversations.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    let imported: ChatExportItem[] = [];
+    const created: ChatHistoryItem[] = [];
+    try {
+      imported = parseChatImport(await file.text());
+      for (const chat of imported) {
+        created.push(await importChat(chat));
+      }
+
+      // A single conversation opens straight away
+      if (created.length === 1) {
+        navigate(`/dashboard/chat/${created[0].id}`);
+      }
+    } catch (error) {
+      console.error("Failed to import chats", error);
+      const reason = error instanceof Error ? error.message : "Failed to import conversations.";
+      // Say how far it got, so a retry doesn't duplicate what already went in
+      alert(created.length > 0 ? `Imported ${created.length} of ${imported.length} conversations. ${reason}` : reason);
+    } finally {
+      // Show whatever was created, even if a later chat failed
+      if (created.length > 0) {
+        mutateGlobal('/chat/recent');
+        mutate();
+      }
+      setIsImporting(false);
+    }
+  };
+
+  // Group chats by Date, pinned ones first
   const groupedChats = chats?.reduce((acc, chat) => {
-    const date = new Date(chat.created_at).toLocaleDateString(undefined, {
+    const date = chat.pinned ? 'Pinned' : new Date(chat.created_at).toLocaleDateString(undefined, {
       weekday: 'long', 
       year: 'numeric', 
       month: 'long', 
@@ -76,7 +365,7 @@ export default function HistoryPage() {
     if (!acc[date]) acc[date] = [];
     acc[date].push(chat);
     return acc;
-  }, {} as Record<string, ChatHistoryItem[]>);
+  }, {} as Record<string, ChatSearchResult[]>);
 
   return (
     <div className="p-6 max-w-4xl mx-auto h-full flex flex-col">
@@ -91,15 +380,247 @@ export default function HistoryPage() {
         isDeleting={isDeleting}
       />
 
+      <DeleteModal 
+        isOpen={!!folderToDelete}
+        onClose={() => { if(!isDeletingFolder) setFolderToDelete(null); }}
+        onConfirm={confirmDeleteFolder}
+        title="Delete Folder"
+        message="Delete this folder? Its conversations are kept and move back to All Chats."
+        isDeleting={isDeletingFolder}
+      />
+
       {/* Header */}
       <div className="flex items-center justify-between mb-8">
         <h1 className="text-2xl sm:text-2xl md:text-3xl font-bold text-white flex items-center gap-3">
           <ClockIcon className="w-8 h-8 text-blue-500" />
           Chat History
         </h1>
-        <div className="text-sm text-gray-500">
-            {chats?.length || 0} Conversations
+        <div className="flex items-center gap-2">
+          <div className="text-sm text-gray-500 hidden sm:block mr-2">
+              {chats?.length || 0}{hasMore ? '+' : ''} {hasFilters ? 'Results' : 'Conversations'}
+          </div>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center gap-1.5 h-9 px-3 bg-[#1a1d26] hover:bg-[#1f2229] text-gray-300 rounded-lg border border-gray-700/50 hover:border-blue-500/50 text-xs font-semibold transition-all disabled:opacity-40"
+            title="Import conversations from a JSON export"
+          >
+            <ArrowUpTrayIcon className={`w-4 h-4 ${isImporting ? 'animate-bounce' : ''}`} />
+            <span className="hidden sm:inline">{isImporting ? 'Importing...' : 'Import'}</span>
+          </button>
+          <button
+            onClick={toggleSelecting}
+            className={`flex items-center gap-1.5 h-9 px-3 rounded-lg border text-xs font-semibold transition-all ${
+              isSelecting
+                ? 'bg-blue-600/10 border-blue-500/40 text-blue-300'
+                : 'bg-[#1a1d26] border-gray-700/50 text-gray-300 hover:border-blue-500/50'
+            }`}
+          >
+            <CheckCircleIcon className="w-4 h-4" />
+            <span className="hidden sm:inline">{isSelecting ? 'Cancel' : 'Select'}</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Selection Toolbar */}
+      {isSelecting && (
+        <div className="flex items-center justify-between gap-3 mb-4 px-4 py-2.5 bg-blue-600/10 border border-blue-500/20 rounded-xl animate-in fade-in duration-200">
+          <div className="flex items-center gap-3 text-sm text-blue-200">
+            <span>{selectedIds.length} selected</span>
+            <button
+              onClick={() => setSelectedIds(chats?.map((chat) => chat.id) ?? [])}
+              className="text-xs text-blue-300/80 hover:text-blue-200 underline-offset-2 hover:underline"
+            >
+              Select all loaded
+            </button>
+          </div>
+          <ExportMenu
+            onExport={handleBulkExport}
+            disabled={selectedIds.length === 0}
+            isExporting={isExporting}
+            label="Export selected"
+          />
         </div>
+      )}
+
+      {/* Folder Tabs (drop targets) */}
+      <div className="flex items-center gap-2 mb-4 overflow-x-auto pb-1 [&::-webkit-scrollbar]:hidden [scrollbar-width:'none']">
+        {[
+          { id: 'all', name: 'All Chats', icon: InboxStackIcon },
+          { id: 'archived', name: 'Archived', icon: ArchiveBoxIcon },
+          ...(folders || []).map((f) => ({ id: f.id, name: f.name, icon: FolderIcon })),
+        ].map((tab) => {
+          const isFolder = tab.id !== 'all' && tab.id !== 'archived';
+          const isActive = view === tab.id;
+
+          if (editingFolderId === tab.id) {
+            return (
+              <input
+                key={tab.id}
+                value={folderDraft}
+                onChange={(e) => setFolderDraft(e.target.value)}
+                onBlur={() => submitFolderRename(tab.id)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') submitFolderRename(tab.id);
+                  if (e.key === 'Escape') setEditingFolderId(null);
+                }}
+                autoFocus
+                className="w-36 flex-shrink-0 px-3 py-1.5 bg-[#0f1117] border border-blue-500/50 rounded-lg text-sm text-gray-200 focus:outline-none"
+              />
+            );
+          }
+
+          return (
+            <div
+              key={tab.id}
+              onDragOver={(e) => {
+                if (!draggedChat) return;
+                e.preventDefault();
+                setDropTarget(tab.id);
+              }}
+              onDragLeave={() => setDropTarget((t) => (t === tab.id ? null : t))}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(tab.id);
+              }}
+              className={`group/tab flex items-center flex-shrink-0 rounded-lg border text-sm transition-all ${
+                dropTarget === tab.id
+                  ? 'border-blue-400 bg-blue-500/20 text-blue-200 scale-105'
+                  : isActive
+                  ? 'border-blue-500/40 bg-blue-600/10 text-blue-300'
+                  : 'border-gray-800 bg-[#1a1d26] text-gray-400 hover:text-gray-200'
+              }`}
+            >
+              <button
+                onClick={() => setView(tab.id)}
+                onDoubleClick={() => {
+                  if (!isFolder) return;
+                  setEditingFolderId(tab.id);
+                  setFolderDraft(tab.name);
+                }}
+                className="flex items-center gap-1.5 pl-3 pr-3 py-1.5"
+                title={isFolder ? 'Double-click to rename' : undefined}
+              >
+                <tab.icon className="w-4 h-4" />
+                <span className="whitespace-nowrap">{tab.name}</span>
+              </button>
+              {isFolder && isActive && (
+                <button
+                  onClick={() => setFolderToDelete(tab.id)}
+                  className="pr-2 text-gray-500 hover:text-red-400 transition-colors"
+                  title="Delete folder"
+                >
+                  <XMarkIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+
+        {newFolderName !== null ? (
+          <input
+            value={newFolderName}
+            onChange={(e) => setNewFolderName(e.target.value)}
+            onBlur={submitNewFolder}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitNewFolder();
+              if (e.key === 'Escape') setNewFolderName(null);
+            }}
+            placeholder="Folder name"
+            autoFocus
+            className="w-36 flex-shrink-0 px-3 py-1.5 bg-[#0f1117] border border-blue-500/50 rounded-lg text-sm text-gray-200 placeholder-gray-600 focus:outline-none"
+          />
+        ) : (
+          <button
+            onClick={() => setNewFolderName('')}
+            className="flex items-center gap-1.5 flex-shrink-0 px-3 py-1.5 rounded-lg border border-dashed border-gray-700 text-sm text-gray-500 hover:text-gray-300 hover:border-gray-500 transition-colors"
+          >
+            <FolderPlusIcon className="w-4 h-4" />
+            New Folder
+          </button>
+        )}
+      </div>
+
+      {/* Search & Filters */}
+      <div className="mb-8 space-y-3">
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <MagnifyingGlassIcon className="w-5 h-5 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search titles and messages..."
+              className="w-full pl-10 pr-4 py-2.5 bg-[#1a1d26] border border-gray-800 focus:border-blue-500/50 rounded-xl text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 transition-all"
+            />
+          </div>
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`flex items-center gap-2 px-3 py-2.5 rounded-xl border text-sm transition-colors ${
+              showFilters || modelFilter || dateFrom || dateTo
+                ? 'bg-blue-600/10 border-blue-500/40 text-blue-300'
+                : 'bg-[#1a1d26] border-gray-800 text-gray-400 hover:text-gray-200'
+            }`}
+          >
+            <FunnelIcon className="w-4 h-4" />
+            <span className="hidden sm:inline">Filters</span>
+          </button>
+        </div>
+
+        {showFilters && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 p-4 bg-[#1a1d26] border border-gray-800 rounded-xl animate-in fade-in duration-200">
+            <label className="flex flex-col gap-1.5 text-xs text-gray-500">
+              Model
+              <select
+                value={modelFilter}
+                onChange={(e) => setModelFilter(e.target.value)}
+                className="bg-[#0f1117] border border-gray-700/50 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/30"
+              >
+                <option value="">All models</option>
+                {modelsOfKind(catalog, 'chat').map((m) => (
+                  <option key={m.id} value={m.id}>{m.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1.5 text-xs text-gray-500">
+              From
+              <input
+                type="date"
+                value={dateFrom}
+                max={dateTo || undefined}
+                onChange={(e) => setDateFrom(e.target.value)}
+                className="bg-[#0f1117] border border-gray-700/50 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/30 [color-scheme:dark]"
+              />
+            </label>
+            <label className="flex flex-col gap-1.5 text-xs text-gray-500">
+              To
+              <input
+                type="date"
+                value={dateTo}
+                min={dateFrom || undefined}
+                onChange={(e) => setDateTo(e.target.value)}
+                className="bg-[#0f1117] border border-gray-700/50 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/30 [color-scheme:dark]"
+              />
+            </label>
+          </div>
+        )}
+
+        {hasFilters && (
+          <button
+            onClick={clearFilters}
+            className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-300 transition-colors"
+          >
+            <XMarkIcon className="w-3.5 h-3.5" />
+            Clear search and filters
+          </button>
+        )}
       </div>
 
       {/* Loading State */}
@@ -118,8 +639,19 @@ export default function HistoryPage() {
         </div>
       )}
 
+      {/* No Results */}
+      {!isLoading && chats && chats.length === 0 && (hasFilters || view !== 'all') && (
+        <div className="flex flex-col items-center justify-center py-20 text-gray-500">
+          <MagnifyingGlassIcon className="w-10 h-10 opacity-50 mb-4" />
+          <h3 className="text-lg font-medium text-gray-300 mb-1">
+            {hasFilters ? 'No matching conversations' : view === 'archived' ? 'Nothing archived' : 'This folder is empty'}
+          </h3>
+          <p>{hasFilters ? 'Try different keywords or widen the filters.' : 'Drag conversations onto a tab above to file them.'}</p>
+        </div>
+      )}
+
       {/* Empty State */}
-      {!isLoading && chats && chats.length === 0 && (
+      {!isLoading && chats && chats.length === 0 && !hasFilters && view === 'all' && (
         <div className="flex flex-col items-center justify-center py-20 text-gray-500">
           <div className="w-20 h-20 bg-gray-800/50 rounded-full flex items-center justify-center mb-6">
             <ChatBubbleLeftRightIcon className="w-10 h-10 opacity-50" />
@@ -141,59 +673,215 @@ export default function HistoryPage() {
           {Object.entries(groupedChats).map(([date, items]) => (
             <div key={date}>
               <div className="flex items-center gap-2 mb-4 text-xs font-semibold text-gray-500 uppercase tracking-wider sticky top-0 bg-[#0f1117] py-2 z-10">
-                <CalendarDaysIcon className="w-4 h-4" />
+                {date === 'Pinned' ? <BookmarkIcon className="w-4 h-4" /> : <CalendarDaysIcon className="w-4 h-4" />}
                 {date}
               </div>
               
               <div className="flex flex-col gap-3">
                 {items.map((chat) => (
-                  <div
+                  <ChatRow
                     key={chat.id}
-                    onClick={() => navigate(`/dashboard/chat/${chat.id}`)}
-                    className="group relative flex items-center justify-between p-4 bg-[#1a1d26] hover:bg-[#20242f] border border-gray-800 hover:border-blue-500/30 rounded-xl cursor-pointer transition-all duration-200"
-                  >
-                    <div className="flex items-center gap-4 min-w-0 flex-1">
-                      {/* Icon */}
-                      <div className="w-10 h-10 rounded-full bg-blue-500/10 flex items-center justify-center text-blue-400 group-hover:scale-110 transition-transform flex-shrink-0">
-                        <ChatBubbleLeftRightIcon className="w-5 h-5" />
-                      </div>
-
-                      {/* Content */}
-                      <div className="min-w-0 flex-1">
-                        <h3 className="text-gray-200 font-medium truncate group-hover:text-blue-400 transition-colors">
-                          {chat.title || "Untitled Conversation"}
-                        </h3>
-                        <div className="flex items-center gap-2 mt-1">
-                          <span className="text-xs text-gray-500 bg-gray-800/50 px-2 py-0.5 rounded border border-gray-700/50">
-                             {new Date(chat.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                          </span>
-                        </div>
-                      </div>
-                    </div>
-
-                    {/* Actions */}
-                    <div className="flex items-center gap-2 pl-4">
-                        {/* Delete Button (Visible on hover) */}
-                        <button
-                            onClick={(e) => promptDelete(e, chat.id)}
-                            className="p-2 text-gray-600 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-all opacity-0 group-hover:opacity-100 focus:opacity-100"
-                            title="Delete Conversation"
-                        >
-                            <TrashIcon className="w-5 h-5" />
-                        </button>
-
-                        {/* Arrow */}
-                        <div className="text-gray-600 group-hover:text-blue-400 transition-colors">
-                            <ChevronRightIcon className="w-5 h-5" />
-                        </div>
-                    </div>
-                  </div>
+                    chat={chat}
+                    query={debouncedQuery}
+                    onOpen={() => (isSelecting ? toggleSelected(chat.id) : openChat(chat))}
+                    isSelecting={isSelecting}
+                    isSelected={selectedIds.includes(chat.id)}
+                    onRename={(title) => patchChat(chat, { title })}
+                    onTogglePin={() => patchChat(chat, { pinned: !chat.pinned })}
+                    onToggleArchive={() => patchChat(chat, { archived: !chat.archived })}
+                    onDelete={(e) => promptDelete(e, chat.id)}
+                    onDragStart={() => setDraggedChat(chat)}
+                    onDragEnd={() => {
+                      setDraggedChat(null);
+                      setDropTarget(null);
+                    }}
+                  />
                 ))}
               </div>
             </div>
           ))}
+
+          {/* Pagination */}
+          <div ref={sentinelRef} className="h-1" />
+          {isLoadingMore && (
+            <div className="h-20 bg-gray-800/50 rounded-xl border border-gray-800 animate-pulse" />
+          )}
         </div>
       )}
     </div>
   );
+}
+
+// Chat Row Component
+function ChatRow({
+  chat,
+  query,
+  onOpen,
+  onRename,
+  onTogglePin,
+  onToggleArchive,
+  onDelete,
+  onDragStart,
+  onDragEnd,
+  isSelecting = false,
+  isSelected = false,
+}: {
+  chat: ChatSearchResult;
+  query: string;
+  isSelecting?: boolean;
+  isSelected?: boolean;
+  onOpen: () => void;
+  onRename: (title: string) => void;
+  onTogglePin: () => void;
+  onToggleArchive: () => void;
+  onDelete: (e: React.MouseEvent) => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [titleDraft, setTitleDraft] = useState('');
+
+  const submitRename = () => {
+    setIsEditing(false);
+    const title = titleDraft.trim();
+    if (title && title !== chat.title) onRename(title);
+  };
+
+  // Keep row clicks from opening the chat
+  const action = (handler: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    handler();
+  };
+
+  return (
+    <div
+      draggable={!isEditing}
+      onDragStart={(e) => {
+        e.dataTransfer.setData('text/plain', chat.id);
+        e.dataTransfer.effectAllowed = 'move';
+        onDragStart();
+      }}
+      onDragEnd={onDragEnd}
+      onClick={() => { if (!isEditing) onOpen(); }}
+      className={`group relative flex items-center justify-between p-4 bg-[#1a1d26] hover:bg-[#20242f] border rounded-xl cursor-pointer transition-all duration-200 ${
+        isSelected ? 'border-blue-500/60' : 'border-gray-800 hover:border-blue-500/30'
+      }`}
+    >
+      <div className="flex items-center gap-4 min-w-0 flex-1">
+        {/* Icon (checkbox while selecting) */}
+        {isSelecting ? (
+          <div className={`w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0 border-2 transition-colors ${
+            isSelected ? 'bg-blue-600 border-blue-500 text-white' : 'border-gray-700 text-transparent'
+          }`}>
+            <CheckCircleIcon className="w-6 h-6" />
+          </div>
+        ) : (
+          <div className="w-10 h-10 rounded-full bg-blue-500/10 flex items-center justify-center text-blue-400 group-hover:scale-110 transition-transform flex-shrink-0">
+            <ChatBubbleLeftRightIcon className="w-5 h-5" />
+          </div>
+        )}
+
+        {/* Content */}
+        <div className="min-w-0 flex-1">
+          {isEditing ? (
+            <input
+              value={titleDraft}
+              onChange={(e) => setTitleDraft(e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              onBlur={submitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') submitRename();
+                if (e.key === 'Escape') setIsEditing(false);
+              }}
+              autoFocus
+              className="w-full bg-[#0f1117] border border-blue-500/50 rounded-lg px-2 py-1 text-gray-200 font-medium focus:outline-none"
+            />
+          ) : (
+            <h3 className="flex items-center gap-2 text-gray-200 font-medium group-hover:text-blue-400 transition-colors">
+              {chat.pinned && <BookmarkSolidIcon className="w-4 h-4 text-amber-400 flex-shrink-0" />}
+              <span className="truncate">
+                <Highlighted text={chat.title || "Untitled Conversation"} query={query} />
+              </span>
+            </h3>
+          )}
+          {chat.match?.message_id && (
+            <p className="text-sm text-gray-400 mt-1 line-clamp-2 break-words">
+              <Highlighted text={chat.match.snippet} query={query} />
+            </p>
+          )}
+          <div className="flex items-center gap-2 mt-1 flex-wrap">
+            <span className="text-xs text-gray-500 bg-gray-800/50 px-2 py-0.5 rounded border border-gray-700/50">
+               {new Date(chat.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </span>
+            {chat.models?.slice(0, 3).map((m) => (
+              <span key={m} className="text-[10px] text-purple-300/80 bg-purple-500/10 px-2 py-0.5 rounded border border-purple-500/20 uppercase tracking-wide">
+                {m}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Actions (Visible on hover) */}
+      <div className="flex items-center gap-1 pl-4">
+          <div className={`flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity ${isSelecting ? 'hidden' : ''}`}>
+            <button
+                onClick={action(() => {
+                  setTitleDraft(chat.title || '');
+                  setIsEditing(true);
+                })}
+                className="p-2 text-gray-600 hover:text-blue-400 hover:bg-blue-500/10 rounded-lg transition-all"
+                title="Rename"
+            >
+                <PencilSquareIcon className="w-5 h-5" />
+            </button>
+            <button
+                onClick={action(onTogglePin)}
+                className="p-2 text-gray-600 hover:text-amber-400 hover:bg-amber-500/10 rounded-lg transition-all"
+                title={chat.pinned ? 'Unpin' : 'Pin to top'}
+            >
+                <BookmarkIcon className="w-5 h-5" />
+            </button>
+            <button
+                onClick={action(onToggleArchive)}
+                className="p-2 text-gray-600 hover:text-gray-300 hover:bg-gray-500/10 rounded-lg transition-all"
+                title={chat.archived ? 'Restore from archive' : 'Archive'}
+            >
+                {chat.archived ? <ArchiveBoxArrowDownIcon className="w-5 h-5" /> : <ArchiveBoxIcon className="w-5 h-5" />}
+            </button>
+            <button
+                onClick={onDelete}
+                className="p-2 text-gray-600 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-all"
+                title="Delete Conversation"
+            >
+                <TrashIcon className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Arrow */}
+          <div className="text-gray-600 group-hover:text-blue-400 transition-colors">
+              <ChevronRightIcon className="w-5 h-5" />
+          </div>
+      </div>
+    </div>
+  );
+}
+
+// Search Term Highlighting
+function Highlighted({ text, query }: { text: string; query: string }) {
+  const terms = query.split(/\s+/).filter(Boolean).map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (terms.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`(${terms.join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-yellow-400/20 text-yellow-200 rounded px-0.5">{part}</mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
 }
\ No newline at end of file
@@ -55,7 +55,7 @@ export default function Home() {
             </Link>
           ) : (
              <Link 
-              to="/login" 
+              to="/register" 
               className="px-8 py-4 bg-blue-600 text-white text-lg font-semibold rounded-xl hover:bg-blue-700 transition"
             >
               Get Started for Free
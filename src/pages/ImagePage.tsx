@@ -1,6 +1,9 @@
 import { useState, useRef, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import useSWR from "swr";
-import api from "../api/client";
+import { deleteImage, generateImage, listImages, uploadMedia } from "../api/media";
+import { ApiError } from "../api/errors";
+import type { CatalogModel, ImageFile } from "../api/types";
 import {
   PhotoIcon,
   PlayCircleIcon,
@@ -19,58 +22,64 @@ import {
 } from "@heroicons/react/24/solid";
 import { useAuth } from "../context/AuthContext";
 import DeleteModal from "../components/DeleteModal";
+import JobList from "../components/JobList";
+import CostHint from "../components/CostHint";
+import { useJobs } from "../context/JobsContext";
+import {
+  formatPrice,
+  isSelectable,
+  modelsOfKind,
+  resolveEntry,
+  useCatalog,
+} from "../hooks/useCatalog";
+import { useCostCheck } from "../hooks/useCostCheck";
+import { useBudget } from "../hooks/useBudget";
+import { usePreferences } from "../hooks/usePreferences";
+import { estimateImageCost } from "../utils/costEstimate";
+import { SIZES, pickQuality, qualitiesFor } from "../utils/imageOptions";
 
 // Types
-interface ImageFile {
-  id: string;
-  prompt: string;
-  public_url: string;
-  created_at: string;
-  model: string;
-  size: string;
-  quality: string;
-}
-
 interface ConfigOption {
   id: string;
   name: string;
   value: string;
+  // Secondary line, e.g. the price
+  hint?: string | null;
+  disabled?: boolean;
 }
 
 // Configuration Options
-const MODELS: ConfigOption[] = [
-  { id: "dall-e-3", name: "DALL·E 3", value: "dall-e-3" },
-  { id: "gpt-image-1.5", name: "GPT Image 1.5", value: "gpt-image-1.5" },
-];
-
-const GPT_QUALITIES: ConfigOption[] = [
-  { id: "low", name: "Low", value: "low" },
-  { id: "medium", name: "Medium", value: "medium" },
-  { id: "high", name: "High", value: "high" },
-];
-
-const DALLE_QUALITIES: ConfigOption[] = [
-  { id: "standard", name: "Standard", value: "standard" },
-  { id: "hd", name: "HD Quality", value: "hd" },
-];
-
-const SIZES: ConfigOption[] = [
-  { id: "1024x1024", name: "Square (1024x1024)", value: "1024x1024" },
-  { id: "1024x1792", name: "Portrait (1024x1792)", value: "1024x1792" },
-  { id: "1792x1024", name: "Landscape (1792x1024)", value: "1792x1024" },
-];
-
-// SWR Fetcher
-const fetcher = (url: string) => api.get(url).then((res) => res.data);
+const toModelOption = (m: CatalogModel): ConfigOption => ({
+  id: m.id,
+  name: m.label,
+  value: m.id,
+  hint: isSelectable(m) ? formatPrice(m.price) : "Temporarily unavailable",
+  disabled: !isSelectable(m),
+});
 
 export default function ImagePage() {
   const { refreshProfile } = useAuth();
   const [prompt, setPrompt] = useState("");
 
   // Configuration State
-  const [selectedModel, setSelectedModel] = useState(MODELS[0]);
-  const [selectedQuality, setSelectedQuality] = useState(GPT_QUALITIES[1]);
-  const [selectedSize, setSelectedSize] = useState(SIZES[0]);
+  const { catalog } = useCatalog();
+  const imageModels = modelsOfKind(catalog, "image");
+  const preferences = usePreferences();
+  const [selectedModelId, setSelectedModelId] = useState(preferences.default_image_model);
+  // Falls back to the default model if the chosen one leaves the catalog
+  const selectedModelEntry = resolveEntry(imageModels, selectedModelId);
+  const selectedModel: ConfigOption = selectedModelEntry
+    ? toModelOption(selectedModelEntry)
+    : { id: "", name: "No models available", value: "", disabled: true };
+  // Only models that accept image input can take a reference image
+  const supportsReference = !!selectedModelEntry?.capabilities.vision;
+
+  const [selectedQuality, setSelectedQuality] = useState(() =>
+    pickQuality(selectedModel.value, preferences.default_image_quality)
+  );
+  const [selectedSize, setSelectedSize] = useState(
+    () => SIZES.find((s) => s.value === preferences.default_image_size) ?? SIZES[0]
+  );
 
   // Reference Image State
   const [referenceImage, setReferenceImage] = useState<File | null>(null);
@@ -78,7 +87,6 @@ export default function ImagePage() {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [isGenerating, setIsGenerating] = useState(false);
-  const [lastGeneratedId, setLastGeneratedId] = useState<string | null>(null);
 
   // Delete Modal State
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
@@ -90,18 +98,15 @@ export default function ImagePage() {
     data: imageFiles,
     mutate,
     isLoading,
-  } = useSWR<ImageFile[]>("/media/images/list", fetcher);
+  } = useSWR("/media/images/list", () => listImages());
 
   // Dynamic Quality Options based on Model
-  const currentQualities =
-    selectedModel.value === "gpt-image-1.5" ? GPT_QUALITIES : DALLE_QUALITIES;
+  const currentQualities = qualitiesFor(selectedModel.value);
 
   // Reset Quality and Reference Image when Model changes
   useEffect(() => {
-    if (selectedModel.value === "gpt-image-1.5") {
-      setSelectedQuality(GPT_QUALITIES[1]);
-    } else {
-      setSelectedQuality(DALLE_QUALITIES[0]);
+    setSelectedQuality(pickQuality(selectedModel.value, preferences.default_image_quality));
+    if (!supportsReference) {
       setReferenceImage(null);
       setReferencePreview(null);
     }
@@ -122,28 +127,45 @@ export default function ImagePage() {
     if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
+  // Generations are tracked app-wide, so they keep running after leaving the page
+  const { jobs: allJobs, track, dismiss } = useJobs();
+  const jobs = allJobs.filter((job) => job.kind === "image");
+
+  // A notification link names its result; otherwise show the newest one
+  const [searchParams, setSearchParams] = useSearchParams();
+  const lastGeneratedId =
+    searchParams.get("result") ??
+    jobs.find((job) => job.status === "completed")?.resultId ??
+    null;
+
+  // A reference image is priced like any other option, under "reference"
+  const cost = useCostCheck(
+    estimateImageCost(selectedModelEntry, [
+      selectedQuality.value,
+      selectedSize.value,
+      ...(supportsReference && referenceImage ? ["reference"] : []),
+    ])
+  );
+  const isBlocked = cost.status === "insufficient";
+  const { confirmOverBudget } = useBudget();
+
   const handleGenerate = async () => {
-    if (!prompt.trim()) return;
+    if (!prompt.trim() || selectedModel.disabled || isBlocked) return;
+    if (!confirmOverBudget()) return;
 
-    setLastGeneratedId(null);
     setIsGenerating(true);
 
     try {
       let referenceImageUrl = null;
 
-      // Upload Reference Image if exists and model is GPT 1.5
-      if (selectedModel.value === "gpt-image-1.5" && referenceImage) {
-        const formData = new FormData();
-        formData.append("file", referenceImage);
-
-        const uploadRes = await api.post("/media/upload", formData, {
-          headers: { "Content-Type": "multipart/form-data" },
-        });
-        referenceImageUrl = uploadRes.data.public_url;
+      // Upload Reference Image if the model accepts one
+      if (supportsReference && referenceImage) {
+        const upload = await uploadMedia(referenceImage);
+        referenceImageUrl = upload.public_url;
       }
 
       // Trigger Generation
-      await api.post("/media/generate-image", {
+      const { task_id } = await generateImage({
         prompt,
         model: selectedModel.value,
         quality: selectedQuality.value,
@@ -151,43 +173,19 @@ export default function ImagePage() {
         reference_image_url: referenceImageUrl,
       });
 
+      track(task_id, "image", prompt.trim());
+      setPrompt("");
+      if (searchParams.has("result")) setSearchParams({}, { replace: true });
+      clearReferenceImage();
       refreshProfile();
-
-      // Poll for the new file
-      const startTime = Date.now();
-      const currentLatestId =
-        imageFiles && imageFiles.length > 0 ? imageFiles[0].id : null;
-
-      const pollInterval = setInterval(async () => {
-        const updatedList = await mutate();
-
-        if (!updatedList || updatedList.length === 0) return;
-
-        const newestFile = updatedList[0];
-
-        if (newestFile.id !== currentLatestId) {
-          clearInterval(pollInterval);
-          setLastGeneratedId(newestFile.id);
-          setPrompt("");
-          clearReferenceImage();
-          setIsGenerating(false);
-        }
-
-        if (Date.now() - startTime > 60000) {
-          clearInterval(pollInterval);
-          setIsGenerating(false);
-          alert(
-            "Generation taking longer than expected. Check history shortly."
-          );
-        }
-      }, 3000);
-    } catch (err: any) {
+    } catch (err) {
       console.error("Image Generation Failed", err);
-      if (err.response?.data?.detail) {
-        alert(`Error: ${err.response.data.detail}`);
+      if (err instanceof ApiError && !err.isNetworkError) {
+        alert(`Error: ${err.message}`);
       } else {
         alert("Failed to generate image. Please try again.");
       }
+    } finally {
       setIsGenerating(false);
     }
   };
@@ -211,7 +209,7 @@ export default function ImagePage() {
     );
 
     try {
-      await api.delete(`/media/images/${itemToDelete}`);
+      await deleteImage(itemToDelete);
       mutate();
       setDeleteModalOpen(false);
       setItemToDelete(null);
@@ -318,8 +316,8 @@ export default function ImagePage() {
                           label="Model"
                           icon={<StarIcon className="w-4 h-4" />}
                           selected={selectedModel}
-                          onChange={setSelectedModel}
-                          options={MODELS}
+                          onChange={(o) => setSelectedModelId(o.id)}
+                          options={imageModels.map(toModelOption)}
                         />
                         <ConfigSelector
                           label="Quality"
@@ -344,8 +342,8 @@ export default function ImagePage() {
                             {prompt.length} / 1000 chars
                           </span>
 
-                          {/* Reference Image Upload Trigger (Only for GPT 1.5) */}
-                          {selectedModel.value === "gpt-image-1.5" && (
+                          {/* Reference Image Upload Trigger (vision models only) */}
+                          {supportsReference && (
                             <>
                               <input
                                 type="file"
@@ -370,9 +368,9 @@ export default function ImagePage() {
 
                         <button
                           onClick={handleGenerate}
-                          disabled={isGenerating || !prompt.trim()}
+                          disabled={isGenerating || !prompt.trim() || isBlocked}
                           className={`w-full sm:w-auto relative flex items-center justify-center gap-2 px-8 py-2.5 rounded-xl font-semibold transition-all shadow-lg hover:shadow-pink-500/25 ${
-                            isGenerating || !prompt.trim()
+                            isGenerating || !prompt.trim() || isBlocked
                               ? "bg-slate-800 text-slate-500 cursor-not-allowed"
                               : "bg-gradient-to-r from-pink-600 to-purple-600 text-white hover:opacity-90 active:scale-95"
                           }`}
@@ -390,13 +388,23 @@ export default function ImagePage() {
                           )}
                         </button>
                       </div>
+
+                      {/* Cost Estimate */}
+                      {cost.estimate && (
+                        <div className="flex justify-end mt-3">
+                          <CostHint {...cost} />
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
               </div>
 
+              {/* Running Jobs */}
+              <JobList jobs={jobs} onDismiss={dismiss} />
+
               {/* Last Generated Image */}
-              {lastGeneratedImage && !isGenerating && (
+              {lastGeneratedImage && (
                 <div className="relative z-10 animate-in fade-in slide-in-from-top-2 duration-500">
                   <div className="flex items-center gap-2 mb-3">
                     <SparklesIcon className="w-4 h-4 text-green-400" />
@@ -704,18 +712,26 @@ function ConfigSelector({
                   onChange(option);
                   setIsOpen(false);
                 }}
-                className={`w-full text-left relative cursor-pointer select-none py-2.5 pl-3 pr-4 transition-colors flex items-center justify-between ${
+                disabled={option.disabled}
+                className={`w-full text-left relative cursor-pointer select-none py-2.5 pl-3 pr-4 transition-colors flex items-center justify-between disabled:opacity-40 disabled:cursor-not-allowed ${
                   selected.id === option.id
                     ? "bg-pink-600/20 text-pink-200"
                     : "text-gray-300 hover:bg-slate-800/70"
                 }`}
               >
-                <span
-                  className={`block truncate ${
-                    selected.id === option.id ? "font-semibold" : "font-normal"
-                  }`}
-                >
-                  {option.name}
+                <span className="flex flex-col min-w-0">
+                  <span
+                    className={`block truncate ${
+                      selected.id === option.id ? "font-semibold" : "font-normal"
+                    }`}
+                  >
+                    {option.name}
+                  </span>
+                  {option.hint && (
+                    <span className="text-[10px] text-gray-500 truncate">
+                      {option.hint}
+                    </span>
+                  )}
                 </span>
                 {selected.id === option.id && (
                   <CheckIcon className="h-4 w-4 text-pink-400" />
@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowPathIcon, CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { acceptInvite } from '../api/workspaces';
+import { ApiError } from '../api/errors';
+import type { Workspace } from '../api/types';
+import { useWorkspace } from '../context/WorkspaceContext';
+
+type InviteState =
+  | { status: 'accepting' }
+  | { status: 'joined'; workspace: Workspace }
+  | { status: 'error'; message: string };
+
+const inviteErrorMessage = (err: unknown) => {
+  if (err instanceof ApiError) {
+    if (err.status === 404 || err.status === 410) return 'This invitation is invalid or has expired. Ask for a new one.';
+    if (err.status === 403) return 'This invitation was sent to a different email address.';
+    if (err.status === 409) return "You're already a member of this workspace.";
+    if (!err.isNetworkError) return err.message;
+  }
+  return 'Could not accept the invitation. Please try again.';
+};
+
+// Landing page for the link in a workspace invitation email
+export default function InvitePage() {
+  const { token } = useParams();
+  const { refreshWorkspaces, switchWorkspace } = useWorkspace();
+  const [state, setState] = useState<InviteState>({ status: 'accepting' });
+
+  // Invitations are single-use; keep the latest context callbacks without re-running the accept
+  const attempted = useRef(false);
+  const actionsRef = useRef({ refreshWorkspaces, switchWorkspace });
+  useEffect(() => {
+    actionsRef.current = { refreshWorkspaces, switchWorkspace };
+  });
+
+  useEffect(() => {
+    if (!token || attempted.current) return;
+    attempted.current = true;
+
+    acceptInvite(token)
+      .then(async (workspace) => {
+        await actionsRef.current.refreshWorkspaces();
+        actionsRef.current.switchWorkspace(workspace.id);
+        setState({ status: 'joined', workspace });
+      })
+      .catch((err) => {
+        console.error('Accepting invitation failed', err);
+        setState({ status: 'error', message: inviteErrorMessage(err) });
+      });
+  }, [token]);
+
+  return (
+    <div className="h-full flex items-center justify-center p-4">
+      <div className="max-w-md w-full text-center bg-slate-900/50 border border-slate-800 rounded-2xl p-8 animate-in fade-in zoom-in-95 duration-300">
+        {state.status === 'accepting' ? (
+          <>
+            <ArrowPathIcon className="w-10 h-10 mx-auto mb-4 text-blue-400 animate-spin" />
+            <h1 className="text-xl font-bold text-white">Joining workspace…</h1>
+          </>
+        ) : state.status === 'joined' ? (
+          <>
+            <CheckCircleIcon className="w-12 h-12 mx-auto mb-4 text-emerald-400" />
+            <h1 className="text-xl font-bold text-white mb-2">Welcome to {state.workspace.name}</h1>
+            <p className="text-sm text-gray-400 mb-6">
+              Chats and generations are now billed to the team wallet. Switch back to your personal account any time
+              from the sidebar.
+            </p>
+            <Link
+              to="/dashboard"
+              className="inline-block px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-medium text-white transition-colors"
+            >
+              Start chatting
+            </Link>
+          </>
+        ) : (
+          <>
+            <ExclamationTriangleIcon className="w-12 h-12 mx-auto mb-4 text-amber-400" />
+            <h1 className="text-xl font-bold text-white mb-2">Couldn't join</h1>
+            <p className="text-sm text-gray-400 mb-6">{state.message}</p>
+            <Link
+              to="/dashboard"
+              className="inline-block px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm font-medium text-gray-200 transition-colors"
+            >
+              Back to dashboard
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
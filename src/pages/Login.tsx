@@ -1,75 +1,203 @@
 import { useState, useEffect } from 'react'; // Import useEffect
 import { useAuth } from '../context/AuthContext';
-import { useNavigate } from 'react-router-dom';
-import api from '../api/client';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { isTwoFactorChallenge, loginWithPassword, resendVerification } from '../api/auth';
+import { ApiError } from '../api/errors';
+import type { TokenResponse } from '../api/types';
 import GoogleAuthBtn from '../components/GoogleAuthBtn';
+import AuthCard from '../components/AuthCard';
+import AuthField from '../components/AuthField';
+import TwoFactorStep from '../components/TwoFactorStep';
+import {
+  authErrorMessage,
+  hasErrors,
+  serverFieldErrors,
+  validateEmail,
+  type AuthFieldErrors,
+} from '../utils/authForm';
+
+// Set by the pages that send people back here to sign in
+type LoginState = {
+  sessionExpired?: boolean;
+  email?: string;
+  // Where to go after signing in, e.g. back to a shared conversation
+  from?: string;
+} | null;
 
 export default function Login() {
-  const [email, setEmail] = useState('');
+  const location = useLocation();
+  const state = location.state as LoginState;
+  const [email, setEmail] = useState(state?.email ?? '');
   const [password, setPassword] = useState('');
   const { login, isAuthenticated } = useAuth();
   const navigate = useNavigate();
   const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<AuthFieldErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Set when the account exists but its email was never confirmed
+  const [needsVerification, setNeedsVerification] = useState(false);
+  const [resendStatus, setResendStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
+  // Set when the password was right but the account needs a 2FA code
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
 
   // Redirect if already logged in
   useEffect(() => {
     if (isAuthenticated) {
-      navigate('/dashboard', { replace: true });
+      navigate(state?.from ?? '/dashboard', { replace: true });
     }
-  }, [isAuthenticated, navigate]);
+  }, [isAuthenticated, navigate, state?.from]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const errors: AuthFieldErrors = {
+      email: validateEmail(email),
+      password: password ? undefined : 'Enter your password.',
+    };
+    setFieldErrors(errors);
+    setError('');
+    setNeedsVerification(false);
+    if (hasErrors(errors)) return;
+
+    setIsSubmitting(true);
+    try {
+      const res = await loginWithPassword({ email: email.trim(), password });
+      if (isTwoFactorChallenge(res)) {
+        setChallengeToken(res.challenge_token);
+        return;
+      }
+      completeLogin(res);
+    } catch (err) {
+      setError(authErrorMessage(err, 'login'));
+      setFieldErrors(serverFieldErrors(err));
+      setNeedsVerification(err instanceof ApiError && err.status === 403);
+      setResendStatus('idle');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const completeLogin = ({ access_token, refresh_token }: TokenResponse) => {
+    login(access_token, refresh_token);
+    navigate(state?.from ?? '/dashboard');
+  };
+
+  const handleResend = async () => {
+    setResendStatus('sending');
     try {
-      const res = await api.post('/auth/login', { email, password });
-      login(res.data.access_token);
-      navigate('/dashboard'); 
+      await resendVerification(email.trim());
+      setResendStatus('sent');
     } catch (err) {
-      setError('Invalid credentials');
+      setError(authErrorMessage(err, 'verify'));
+      setResendStatus('idle');
     }
   };
+
+  const updateField = (field: 'email' | 'password', value: string) => {
+    if (field === 'email') setEmail(value);
+    else setPassword(value);
+    setFieldErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  if (challengeToken) {
+    return (
+      <TwoFactorStep
+        challengeToken={challengeToken}
+        onVerified={completeLogin}
+        onCancel={() => {
+          setChallengeToken(null);
+          setPassword('');
+        }}
+      />
+    );
+  }
+
   return (
-    <div className="flex h-screen items-center justify-center bg-gray-100">
-      <div className="w-96 p-8 bg-white rounded-xl shadow-lg">
-        <h2 className="text-2xl font-bold mb-6 text-center text-gray-800">Welcome Back</h2>
-        
-        {/* The Google Button */}
-        <div className="mb-6">
-          <GoogleAuthBtn />
+    <AuthCard
+      title="Welcome Back"
+      footer={
+        <>
+          New here?{' '}
+          <Link to="/register" className="font-semibold text-gray-900 hover:underline">
+            Create an account
+          </Link>
+        </>
+      }
+    >
+      {/* The Google Button */}
+      <div className="mb-6">
+        <GoogleAuthBtn />
+      </div>
+
+      <div className="relative mb-6">
+        <div className="absolute inset-0 flex items-center">
+          <div className="w-full border-t border-gray-300"></div>
         </div>
+        <div className="relative flex justify-center text-sm">
+          <span className="px-2 bg-white text-gray-500">Or continue with email</span>
+        </div>
+      </div>
 
-        <div className="relative mb-6">
-          <div className="absolute inset-0 flex items-center">
-            <div className="w-full border-t border-gray-300"></div>
-          </div>
-          <div className="relative flex justify-center text-sm">
-            <span className="px-2 bg-white text-gray-500">Or continue with email</span>
-          </div>
+      {state?.sessionExpired && !error && (
+        <p className="text-amber-700 bg-amber-50 border border-amber-200 rounded-lg text-sm mb-4 p-3 text-center">
+          Your session has expired. Please sign in again.
+        </p>
+      )}
+
+      {error && (
+        <div className="text-red-500 text-sm mb-4 text-center">
+          <p>{error}</p>
+          {needsVerification && (
+            resendStatus === 'sent' ? (
+              <p className="mt-1 text-green-700">We sent a new link to {email.trim()}.</p>
+            ) : (
+              <button
+                type="button"
+                onClick={handleResend}
+                disabled={resendStatus === 'sending'}
+                className="mt-1 font-semibold text-gray-900 hover:underline disabled:opacity-50"
+              >
+                {resendStatus === 'sending' ? 'Sending…' : 'Resend the verification email'}
+              </button>
+            )
+          )}
         </div>
+      )}
 
-        {error && <p className="text-red-500 text-sm mb-4 text-center">{error}</p>}
-        
-        <form onSubmit={handleSubmit} className="space-y-4">
-           {/* Inputs and Button */}
-           <input 
-            type="email" 
-            placeholder="Email address" 
-            value={email}
-            onChange={e => setEmail(e.target.value)}
-            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
-          />
-          <input 
-            type="password" 
-            placeholder="Password" 
+      <form onSubmit={handleSubmit} noValidate className="space-y-4">
+        {/* Inputs and Button */}
+        <AuthField
+          label="Email"
+          type="email"
+          autoComplete="email"
+          placeholder="Email address"
+          value={email}
+          onChange={(value) => updateField('email', value)}
+          error={fieldErrors.email}
+        />
+        <div>
+          <AuthField
+            label="Password"
+            type="password"
+            autoComplete="current-password"
+            placeholder="Password"
             value={password}
-            onChange={e => setPassword(e.target.value)}
-            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            onChange={(value) => updateField('password', value)}
+            error={fieldErrors.password}
           />
-          <button type="submit" className="w-full bg-gray-900 text-white p-3 rounded-lg font-semibold hover:bg-gray-800 transition">
-            Sign In with Email
-          </button>
-        </form>
-      </div>
-    </div>
+          <div className="mt-1 text-right">
+            <Link to="/forgot-password" state={{ email: email.trim() }} className="text-xs text-gray-500 hover:text-gray-800 hover:underline">
+              Forgot password?
+            </Link>
+          </div>
+        </div>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full bg-gray-900 text-white p-3 rounded-lg font-semibold hover:bg-gray-800 transition disabled:opacity-60"
+        >
+          {isSubmitting ? 'Signing in…' : 'Sign In with Email'}
+        </button>
+      </form>
+    </AuthCard>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,416 @@
+import { useState } from 'react';
+import useSWR from 'swr';
+import {
+  ArrowPathIcon,
+  FaceSmileIcon,
+  PencilSquareIcon,
+  PlusIcon,
+  TrashIcon,
+  UserGroupIcon,
+} from '@heroicons/react/24/outline';
+import { createPersona, deletePersona, listPersonas, updatePersona } from '../api/personas';
+import { errorMessage } from '../api/errors';
+import type { Persona, PersonaInput } from '../api/types';
+import { useWorkspace } from '../context/WorkspaceContext';
+import { isSelectable, modelsOfKind, useCatalog } from '../hooks/useCatalog';
+import DeleteModal from '../components/DeleteModal';
+import SettingsSection from '../components/SettingsSection';
+import { inputClass } from '../components/settingsStyles';
+
+const MAX_NAME_LENGTH = 60;
+const MAX_PROMPT_LENGTH = 8000;
+const ICONS = ['🤖', '🧑‍💻', '✍️', '📊', '🎓', '🧪', '⚖️', '🎨', '🩺', '🌍'];
+
+export default function PersonasPage() {
+  const { data: personas, error: loadError, isLoading, mutate } = useSWR('/personas', listPersonas);
+  // null: no form open; 'new': creating; otherwise the persona being edited
+  const [editing, setEditing] = useState<Persona | 'new' | null>(null);
+  const [personaToDelete, setPersonaToDelete] = useState<Persona | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const own = (personas ?? []).filter((p) => p.is_owner);
+  const shared = (personas ?? []).filter((p) => !p.is_owner);
+
+  const handleSaved = async () => {
+    setEditing(null);
+    await mutate();
+  };
+
+  const handleDelete = async () => {
+    if (!personaToDelete) return;
+    setIsDeleting(true);
+    setActionError(null);
+    try {
+      await deletePersona(personaToDelete.id);
+      await mutate((prev) => prev?.filter((p) => p.id !== personaToDelete.id), false);
+    } catch (err) {
+      console.error('Deleting persona failed', err);
+      setActionError(errorMessage(err, 'Could not delete the persona.'));
+    } finally {
+      setPersonaToDelete(null);
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 sm:p-6 lg:p-8">
+      <div className="max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 sm:mb-10 animate-in fade-in slide-in-from-top-4 duration-500">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="relative">
+              <div className="absolute inset-0 bg-blue-500 blur-xl opacity-30 animate-pulse"></div>
+              <FaceSmileIcon className="w-8 h-8 sm:w-10 sm:h-10 text-blue-400 relative z-10" />
+            </div>
+            <h1 className="text-2xl md:text-3xl font-bold text-white">Personas</h1>
+          </div>
+          <p className="text-gray-400 text-sm sm:text-base ml-0 sm:ml-14">
+            Reusable instructions to pick when you start a chat
+          </p>
+        </div>
+
+        {actionError && (
+          <p className="mb-4 p-3 rounded-xl border border-red-500/30 bg-red-500/5 text-sm text-red-300">{actionError}</p>
+        )}
+
+        <div className="space-y-6">
+          {/* Own Personas */}
+          <SettingsSection
+            icon={FaceSmileIcon}
+            title="Your personas"
+            action={
+              editing === null && (
+                <button
+                  onClick={() => setEditing('new')}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-xs font-semibold text-white transition-colors"
+                >
+                  <PlusIcon className="w-4 h-4" />
+                  New persona
+                </button>
+              )
+            }
+          >
+            {editing === 'new' && <PersonaForm onSaved={handleSaved} onCancel={() => setEditing(null)} />}
+
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <ArrowPathIcon className="w-5 h-5 text-gray-500 animate-spin" />
+              </div>
+            ) : loadError ? (
+              <p className="text-sm text-red-400">
+                Could not load your personas.{' '}
+                <button onClick={() => mutate()} className="underline underline-offset-2 hover:text-red-300">
+                  Retry
+                </button>
+              </p>
+            ) : own.length === 0 ? (
+              editing !== 'new' && (
+                <p className="py-4 text-sm text-center text-gray-500">
+                  No personas yet. Create one to give chats a role, tone or standing instructions.
+                </p>
+              )
+            ) : (
+              <ul className="divide-y divide-slate-800">
+                {own.map((persona) =>
+                  editing !== null && editing !== 'new' && editing.id === persona.id ? (
+                    <li key={persona.id} className="py-4">
+                      <PersonaForm persona={persona} onSaved={handleSaved} onCancel={() => setEditing(null)} />
+                    </li>
+                  ) : (
+                    <PersonaRow
+                      key={persona.id}
+                      persona={persona}
+                      onEdit={() => setEditing(persona)}
+                      onDelete={() => setPersonaToDelete(persona)}
+                    />
+                  )
+                )}
+              </ul>
+            )}
+          </SettingsSection>
+
+          {/* Shared Personas */}
+          {shared.length > 0 && (
+            <SettingsSection icon={UserGroupIcon} title="Shared with you">
+              <ul className="divide-y divide-slate-800">
+                {shared.map((persona) => (
+                  <PersonaRow key={persona.id} persona={persona} />
+                ))}
+              </ul>
+            </SettingsSection>
+          )}
+        </div>
+      </div>
+
+      <DeleteModal
+        isOpen={!!personaToDelete}
+        onClose={() => setPersonaToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete persona"
+        message={`"${personaToDelete?.name}" will be removed. Chats that used it keep their history but lose its instructions.`}
+        isDeleting={isDeleting}
+      />
+    </div>
+  );
+}
+
+// SUB-COMPONENTS
+
+function PersonaForm({
+  persona,
+  onSaved,
+  onCancel,
+}: {
+  persona?: Persona;
+  onSaved: () => void;
+  onCancel: () => void;
+}) {
+  const { workspaces, activeWorkspace } = useWorkspace();
+  const { catalog } = useCatalog();
+  const chatModels = modelsOfKind(catalog, 'chat').filter(isSelectable);
+
+  const [icon, setIcon] = useState(persona?.icon ?? ICONS[0]);
+  const [name, setName] = useState(persona?.name ?? '');
+  const [systemPrompt, setSystemPrompt] = useState(persona?.system_prompt ?? '');
+  const [defaultModel, setDefaultModel] = useState(persona?.default_model ?? '');
+  const [temperature, setTemperature] = useState<number | null>(persona?.temperature ?? null);
+  const [workspaceId, setWorkspaceId] = useState(persona?.workspace_id ?? null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Shared with its original workspace, or offered for the one picked in the sidebar
+  const shareTarget = workspaces.find((w) => w.id === (persona?.workspace_id ?? activeWorkspace?.id)) ?? null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedName = name.trim();
+    const trimmedPrompt = systemPrompt.trim();
+    if (!trimmedName) return setError('Give the persona a name.');
+    if (trimmedName.length > MAX_NAME_LENGTH) return setError(`Keep the name under ${MAX_NAME_LENGTH} characters.`);
+    if (!trimmedPrompt) return setError('Write the instructions the assistant should follow.');
+    if (trimmedPrompt.length > MAX_PROMPT_LENGTH) {
+      return setError(`Keep the instructions under ${MAX_PROMPT_LENGTH.toLocaleString()} characters.`);
+    }
+
+    const body: PersonaInput = {
+      name: trimmedName,
+      icon: icon.trim() || ICONS[0],
+      system_prompt: trimmedPrompt,
+      default_model: defaultModel || null,
+      temperature,
+      workspace_id: workspaceId,
+    };
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (persona) await updatePersona(persona.id, body);
+      else await createPersona(body);
+      onSaved();
+    } catch (err) {
+      console.error('Saving persona failed', err);
+      setError(errorMessage(err, 'Could not save the persona.'));
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-6 p-4 rounded-xl bg-slate-950/40 border border-slate-800 space-y-4">
+      <div className="flex gap-3">
+        <label className="block w-20">
+          <span className="block text-xs font-medium text-gray-400 mb-1.5">Icon</span>
+          <input
+            value={icon}
+            onChange={(e) => setIcon(e.target.value)}
+            maxLength={8}
+            className={`${inputClass} text-center text-lg`}
+          />
+        </label>
+        <label className="block flex-1">
+          <span className="block text-xs font-medium text-gray-400 mb-1.5">Name</span>
+          <input
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value);
+              setError(null);
+            }}
+            autoFocus
+            placeholder="e.g. Code reviewer"
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {ICONS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setIcon(option)}
+            className={`w-8 h-8 rounded-lg text-base transition-colors ${
+              icon === option ? 'bg-blue-500/20 ring-1 ring-blue-500/60' : 'hover:bg-slate-800'
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+
+      <label className="block">
+        <span className="block text-xs font-medium text-gray-400 mb-1.5">Instructions</span>
+        <textarea
+          value={systemPrompt}
+          onChange={(e) => {
+            setSystemPrompt(e.target.value);
+            setError(null);
+          }}
+          rows={6}
+          placeholder="You are a meticulous senior engineer. Review code for bugs first, style second..."
+          className="w-full px-3 py-2 bg-slate-950/40 border border-slate-700/60 rounded-lg text-sm text-gray-100 placeholder-gray-600 leading-relaxed resize-y focus:outline-none focus:ring-2 focus:ring-blue-500/40"
+        />
+        <span
+          className={`block mt-1 text-right text-[11px] ${
+            systemPrompt.length > MAX_PROMPT_LENGTH ? 'text-red-400' : 'text-gray-600'
+          }`}
+        >
+          {systemPrompt.length.toLocaleString()} / {MAX_PROMPT_LENGTH.toLocaleString()}
+        </span>
+      </label>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="block">
+          <span className="block text-xs font-medium text-gray-400 mb-1.5">Default model</span>
+          <select value={defaultModel} onChange={(e) => setDefaultModel(e.target.value)} className={inputClass}>
+            <option value="">Keep the chat's model</option>
+            <option value="auto">Smart routing (auto)</option>
+            {Array.from(new Set(chatModels.map((m) => m.group))).map((group) => (
+              <optgroup key={group} label={group}>
+                {chatModels
+                  .filter((m) => m.group === group)
+                  .map((m) => (
+                    <option key={m.id} value={m.id}>
+                      {m.label}
+                    </option>
+                  ))}
+              </optgroup>
+            ))}
+          </select>
+        </label>
+
+        <div>
+          <label className="flex items-center gap-2 mb-1.5 text-xs font-medium text-gray-400">
+            <input
+              type="checkbox"
+              checked={temperature !== null}
+              onChange={(e) => setTemperature(e.target.checked ? 0.7 : null)}
+              className="rounded border-slate-600"
+            />
+            Temperature
+            {temperature !== null && <span className="ml-auto font-mono text-gray-300">{temperature.toFixed(1)}</span>}
+          </label>
+          {temperature !== null ? (
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.1}
+              value={temperature}
+              onChange={(e) => setTemperature(Number(e.target.value))}
+              className="w-full h-10 accent-blue-500"
+            />
+          ) : (
+            <p className="h-10 flex items-center text-xs text-gray-500">Model default</p>
+          )}
+        </div>
+      </div>
+
+      {shareTarget && (
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={workspaceId !== null}
+            onChange={(e) => setWorkspaceId(e.target.checked ? shareTarget.id : null)}
+            className="rounded border-slate-600"
+          />
+          Share with members of {shareTarget.name}
+        </label>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        {error && <span className="mr-auto text-xs text-red-400">{error}</span>}
+        <button type="button" onClick={onCancel} className="text-sm text-gray-400 hover:text-white transition-colors">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-semibold text-white transition-colors disabled:opacity-50"
+        >
+          {isSubmitting && <ArrowPathIcon className="w-4 h-4 animate-spin" />}
+          {persona ? 'Save changes' : 'Create persona'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// Shared personas have no actions
+function PersonaRow({
+  persona,
+  onEdit,
+  onDelete,
+}: {
+  persona: Persona;
+  onEdit?: () => void;
+  onDelete?: () => void;
+}) {
+  const { catalog } = useCatalog();
+  const { workspaces } = useWorkspace();
+  const modelLabel =
+    persona.default_model === 'auto'
+      ? 'Smart routing'
+      : persona.default_model
+        ? (modelsOfKind(catalog, 'chat').find((m) => m.id === persona.default_model)?.label ?? persona.default_model)
+        : null;
+  const workspaceName = workspaces.find((w) => w.id === persona.workspace_id)?.name;
+
+  const details = [
+    modelLabel,
+    persona.temperature !== null ? `Temperature ${persona.temperature.toFixed(1)}` : null,
+    persona.is_owner
+      ? workspaceName && `Shared with ${workspaceName}`
+      : persona.owner_name && `By ${persona.owner_name}`,
+  ].filter(Boolean);
+
+  return (
+    <li className="flex items-start gap-3 py-4">
+      <span className="flex-shrink-0 w-10 h-10 flex items-center justify-center rounded-xl bg-slate-800/60 text-xl">
+        {persona.icon}
+      </span>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-gray-100 truncate">{persona.name}</p>
+        <p className="mt-0.5 text-xs text-gray-500 line-clamp-2">{persona.system_prompt}</p>
+        {details.length > 0 && <p className="mt-1.5 text-[11px] text-gray-500">{details.join(' · ')}</p>}
+      </div>
+      {onEdit && onDelete && (
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onEdit}
+            className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-slate-800 transition-colors"
+            title="Edit persona"
+          >
+            <PencilSquareIcon className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onDelete}
+            className="p-2 rounded-lg text-gray-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+            title="Delete persona"
+          >
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,456 @@
+import { useState } from 'react';
+import useSWR from 'swr';
+import {
+  ArrowPathIcon,
+  BookOpenIcon,
+  MagnifyingGlassIcon,
+  PencilSquareIcon,
+  PlusIcon,
+  TrashIcon,
+  UserGroupIcon,
+} from '@heroicons/react/24/outline';
+import { createPrompt, deletePrompt, listPrompts, updatePrompt } from '../api/prompts';
+import { errorMessage } from '../api/errors';
+import type { PromptTemplate, PromptTemplateInput } from '../api/types';
+import { useWorkspace } from '../context/WorkspaceContext';
+import DeleteModal from '../components/DeleteModal';
+import SettingsSection from '../components/SettingsSection';
+import { inputClass } from '../components/settingsStyles';
+import { COMMAND_PATTERN, templateVariables, toCommand } from '../utils/promptTemplate';
+
+const MAX_TITLE_LENGTH = 80;
+const MAX_COMMAND_LENGTH = 32;
+const MAX_CATEGORY_LENGTH = 40;
+const MAX_BODY_LENGTH = 8000;
+const DEFAULT_CATEGORY = 'General';
+
+export default function PromptsPage() {
+  const { data: prompts, error: loadError, isLoading, mutate } = useSWR('/prompts', listPrompts);
+  // null: no form open; 'new': creating; otherwise the template being edited
+  const [editing, setEditing] = useState<PromptTemplate | 'new' | null>(null);
+  const [promptToDelete, setPromptToDelete] = useState<PromptTemplate | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState<string | null>(null);
+
+  const all = prompts ?? [];
+  const categories = Array.from(new Set(all.map((p) => p.category))).sort((a, b) => a.localeCompare(b));
+  const query = search.trim().toLowerCase();
+  const visible = all
+    .filter((p) => !category || p.category === category)
+    .filter(
+      (p) =>
+        !query ||
+        p.title.toLowerCase().includes(query) ||
+        p.command.includes(query) ||
+        p.body.toLowerCase().includes(query)
+    )
+    .sort((a, b) => a.command.localeCompare(b.command));
+  const own = visible.filter((p) => p.is_owner);
+  const shared = visible.filter((p) => !p.is_owner);
+
+  const handleSaved = async () => {
+    setEditing(null);
+    await mutate();
+  };
+
+  const handleDelete = async () => {
+    if (!promptToDelete) return;
+    setIsDeleting(true);
+    setActionError(null);
+    try {
+      await deletePrompt(promptToDelete.id);
+      await mutate((prev) => prev?.filter((p) => p.id !== promptToDelete.id), false);
+    } catch (err) {
+      console.error('Deleting prompt failed', err);
+      setActionError(errorMessage(err, 'Could not delete the prompt.'));
+    } finally {
+      setPromptToDelete(null);
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 sm:p-6 lg:p-8">
+      <div className="max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 sm:mb-10 animate-in fade-in slide-in-from-top-4 duration-500">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="relative">
+              <div className="absolute inset-0 bg-blue-500 blur-xl opacity-30 animate-pulse"></div>
+              <BookOpenIcon className="w-8 h-8 sm:w-10 sm:h-10 text-blue-400 relative z-10" />
+            </div>
+            <h1 className="text-2xl md:text-3xl font-bold text-white">Prompt Library</h1>
+          </div>
+          <p className="text-gray-400 text-sm sm:text-base ml-0 sm:ml-14">
+            Templates you can insert by typing <code className="text-gray-300">/</code> in a chat
+          </p>
+        </div>
+
+        {actionError && (
+          <p className="mb-4 p-3 rounded-xl border border-red-500/30 bg-red-500/5 text-sm text-red-300">{actionError}</p>
+        )}
+
+        {/* Filters */}
+        {all.length > 0 && (
+          <div className="mb-6 space-y-3">
+            <div className="relative">
+              <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search prompts"
+                className={`${inputClass} pl-9`}
+              />
+            </div>
+            {categories.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                {[null, ...categories].map((c) => (
+                  <button
+                    key={c ?? 'all'}
+                    onClick={() => setCategory(c)}
+                    className={`px-3 py-1 rounded-full border text-xs transition-colors ${
+                      category === c
+                        ? 'border-blue-500/60 bg-blue-500/10 text-white'
+                        : 'border-slate-700/60 text-gray-400 hover:text-gray-200 hover:border-slate-600'
+                    }`}
+                  >
+                    {c ?? 'All'}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-6">
+          {/* Own Prompts */}
+          <SettingsSection
+            icon={BookOpenIcon}
+            title="Your prompts"
+            action={
+              editing === null && (
+                <button
+                  onClick={() => setEditing('new')}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-xs font-semibold text-white transition-colors"
+                >
+                  <PlusIcon className="w-4 h-4" />
+                  New prompt
+                </button>
+              )
+            }
+          >
+            {editing === 'new' && (
+              <PromptForm
+                categories={categories}
+                takenCommands={all.filter((p) => p.is_owner).map((p) => p.command)}
+                onSaved={handleSaved}
+                onCancel={() => setEditing(null)}
+              />
+            )}
+
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <ArrowPathIcon className="w-5 h-5 text-gray-500 animate-spin" />
+              </div>
+            ) : loadError ? (
+              <p className="text-sm text-red-400">
+                Could not load your prompts.{' '}
+                <button onClick={() => mutate()} className="underline underline-offset-2 hover:text-red-300">
+                  Retry
+                </button>
+              </p>
+            ) : own.length === 0 ? (
+              editing !== 'new' && (
+                <p className="py-4 text-sm text-center text-gray-500">
+                  {all.some((p) => p.is_owner)
+                    ? 'No prompts match.'
+                    : 'No prompts yet. Save one you use often and add {{variables}} for the parts that change.'}
+                </p>
+              )
+            ) : (
+              <ul className="divide-y divide-slate-800">
+                {own.map((prompt) =>
+                  editing !== null && editing !== 'new' && editing.id === prompt.id ? (
+                    <li key={prompt.id} className="py-4">
+                      <PromptForm
+                        prompt={prompt}
+                        categories={categories}
+                        takenCommands={all
+                          .filter((p) => p.is_owner && p.id !== prompt.id)
+                          .map((p) => p.command)}
+                        onSaved={handleSaved}
+                        onCancel={() => setEditing(null)}
+                      />
+                    </li>
+                  ) : (
+                    <PromptRow
+                      key={prompt.id}
+                      prompt={prompt}
+                      onEdit={() => setEditing(prompt)}
+                      onDelete={() => setPromptToDelete(prompt)}
+                    />
+                  )
+                )}
+              </ul>
+            )}
+          </SettingsSection>
+
+          {/* Shared Prompts */}
+          {shared.length > 0 && (
+            <SettingsSection icon={UserGroupIcon} title="Shared with you">
+              <ul className="divide-y divide-slate-800">
+                {shared.map((prompt) => (
+                  <PromptRow key={prompt.id} prompt={prompt} />
+                ))}
+              </ul>
+            </SettingsSection>
+          )}
+        </div>
+      </div>
+
+      <DeleteModal
+        isOpen={!!promptToDelete}
+        onClose={() => setPromptToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete prompt"
+        message={`"/${promptToDelete?.command}" will be removed from your library${
+          promptToDelete?.workspace_id ? ' and from everyone it was shared with' : ''
+        }.`}
+        isDeleting={isDeleting}
+      />
+    </div>
+  );
+}
+
+// SUB-COMPONENTS
+
+function PromptForm({
+  prompt,
+  categories,
+  takenCommands,
+  onSaved,
+  onCancel,
+}: {
+  prompt?: PromptTemplate;
+  categories: string[];
+  // Commands of the user's other templates; each must be unique
+  takenCommands: string[];
+  onSaved: () => void;
+  onCancel: () => void;
+}) {
+  const { workspaces, activeWorkspace } = useWorkspace();
+  const [title, setTitle] = useState(prompt?.title ?? '');
+  const [command, setCommand] = useState(prompt?.command ?? '');
+  // New templates take their command from the title until it is edited
+  const [isCommandEdited, setIsCommandEdited] = useState(!!prompt);
+  const [category, setCategory] = useState(prompt?.category ?? DEFAULT_CATEGORY);
+  const [body, setBody] = useState(prompt?.body ?? '');
+  const [workspaceId, setWorkspaceId] = useState(prompt?.workspace_id ?? null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const variables = templateVariables(body);
+  // Shared with its original workspace, or offered for the one picked in the sidebar
+  const shareTarget = workspaces.find((w) => w.id === (prompt?.workspace_id ?? activeWorkspace?.id)) ?? null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedTitle = title.trim();
+    const trimmedCategory = category.trim() || DEFAULT_CATEGORY;
+    const trimmedBody = body.trim();
+    if (!trimmedTitle) return setError('Give the prompt a title.');
+    if (trimmedTitle.length > MAX_TITLE_LENGTH) return setError(`Keep the title under ${MAX_TITLE_LENGTH} characters.`);
+    if (!COMMAND_PATTERN.test(command) || command.length > MAX_COMMAND_LENGTH) {
+      return setError(`Commands use lowercase letters, digits and dashes, up to ${MAX_COMMAND_LENGTH} characters.`);
+    }
+    if (takenCommands.includes(command)) return setError(`You already have a /${command} prompt.`);
+    if (trimmedCategory.length > MAX_CATEGORY_LENGTH) {
+      return setError(`Keep the category under ${MAX_CATEGORY_LENGTH} characters.`);
+    }
+    if (!trimmedBody) return setError('Write the prompt text.');
+    if (trimmedBody.length > MAX_BODY_LENGTH) {
+      return setError(`Keep the prompt under ${MAX_BODY_LENGTH.toLocaleString()} characters.`);
+    }
+
+    const input: PromptTemplateInput = {
+      title: trimmedTitle,
+      command,
+      category: trimmedCategory,
+      body: trimmedBody,
+      workspace_id: workspaceId,
+    };
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (prompt) await updatePrompt(prompt.id, input);
+      else await createPrompt(input);
+      onSaved();
+    } catch (err) {
+      console.error('Saving prompt failed', err);
+      setError(errorMessage(err, 'Could not save the prompt.'));
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-6 p-4 rounded-xl bg-slate-950/40 border border-slate-800 space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="block">
+          <span className="block text-xs font-medium text-gray-400 mb-1.5">Title</span>
+          <input
+            value={title}
+            onChange={(e) => {
+              setTitle(e.target.value);
+              if (!isCommandEdited) setCommand(toCommand(e.target.value).slice(0, MAX_COMMAND_LENGTH));
+              setError(null);
+            }}
+            autoFocus
+            placeholder="e.g. Summarize meeting notes"
+            className={inputClass}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-xs font-medium text-gray-400 mb-1.5">Command</span>
+          <div className="relative">
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 font-mono text-sm text-gray-500">/</span>
+            <input
+              value={command}
+              onChange={(e) => {
+                setCommand(e.target.value.toLowerCase().replace(/\s+/g, '-'));
+                setIsCommandEdited(true);
+                setError(null);
+              }}
+              placeholder="summarize"
+              className={`${inputClass} pl-6 font-mono`}
+            />
+          </div>
+        </label>
+      </div>
+
+      <label className="block">
+        <span className="block text-xs font-medium text-gray-400 mb-1.5">Category</span>
+        <input
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          list="prompt-categories"
+          className={inputClass}
+        />
+        <datalist id="prompt-categories">
+          {categories.map((c) => (
+            <option key={c} value={c} />
+          ))}
+        </datalist>
+      </label>
+
+      <label className="block">
+        <span className="block text-xs font-medium text-gray-400 mb-1.5">Prompt</span>
+        <textarea
+          value={body}
+          onChange={(e) => {
+            setBody(e.target.value);
+            setError(null);
+          }}
+          rows={6}
+          placeholder={'Summarize these notes from {{meeting}} as action items with owners:\n\n{{notes}}'}
+          className="w-full px-3 py-2 bg-slate-950/40 border border-slate-700/60 rounded-lg text-sm text-gray-100 placeholder-gray-600 leading-relaxed resize-y focus:outline-none focus:ring-2 focus:ring-blue-500/40"
+        />
+        <span className="flex flex-wrap items-center gap-1.5 mt-1.5 text-[11px] text-gray-500">
+          {variables.length > 0 ? (
+            <>
+              Asks for:
+              {variables.map((name) => (
+                <code key={name} className="px-1.5 py-0.5 rounded bg-slate-800 text-blue-300">
+                  {name}
+                </code>
+              ))}
+            </>
+          ) : (
+            <>Wrap the parts that change in double braces, e.g. {'{{topic}}'}.</>
+          )}
+        </span>
+      </label>
+
+      {shareTarget && (
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={workspaceId !== null}
+            onChange={(e) => setWorkspaceId(e.target.checked ? shareTarget.id : null)}
+            className="rounded border-slate-600"
+          />
+          Share with members of {shareTarget.name}
+        </label>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        {error && <span className="mr-auto text-xs text-red-400">{error}</span>}
+        <button type="button" onClick={onCancel} className="text-sm text-gray-400 hover:text-white transition-colors">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-semibold text-white transition-colors disabled:opacity-50"
+        >
+          {isSubmitting && <ArrowPathIcon className="w-4 h-4 animate-spin" />}
+          {prompt ? 'Save changes' : 'Create prompt'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// Shared templates have no actions
+function PromptRow({
+  prompt,
+  onEdit,
+  onDelete,
+}: {
+  prompt: PromptTemplate;
+  onEdit?: () => void;
+  onDelete?: () => void;
+}) {
+  const { workspaces } = useWorkspace();
+  const workspaceName = workspaces.find((w) => w.id === prompt.workspace_id)?.name;
+  const variableCount = templateVariables(prompt.body).length;
+
+  const details = [
+    prompt.category,
+    variableCount > 0 && `${variableCount} ${variableCount === 1 ? 'variable' : 'variables'}`,
+    prompt.is_owner ? workspaceName && `Shared with ${workspaceName}` : prompt.owner_name && `By ${prompt.owner_name}`,
+  ].filter(Boolean);
+
+  return (
+    <li className="flex items-start gap-3 py-4">
+      <div className="flex-1 min-w-0">
+        <p className="flex items-center gap-2 text-sm">
+          <span className="font-mono text-blue-400">/{prompt.command}</span>
+          <span className="font-medium text-gray-100 truncate">{prompt.title}</span>
+        </p>
+        <p className="mt-0.5 text-xs text-gray-500 line-clamp-2 whitespace-pre-line">{prompt.body}</p>
+        <p className="mt-1.5 text-[11px] text-gray-500">{details.join(' · ')}</p>
+      </div>
+      {onEdit && onDelete && (
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onEdit}
+            className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-slate-800 transition-colors"
+            title="Edit prompt"
+          >
+            <PencilSquareIcon className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onDelete}
+            className="p-2 rounded-lg text-gray-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+            title="Delete prompt"
+          >
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { register, resendVerification } from '../api/auth';
+import { ApiError } from '../api/errors';
+import { useAuth } from '../context/AuthContext';
+import AuthCard from '../components/AuthCard';
+import AuthField from '../components/AuthField';
+import GoogleAuthBtn from '../components/GoogleAuthBtn';
+import {
+  MIN_PASSWORD_LENGTH,
+  authErrorMessage,
+  hasErrors,
+  serverFieldErrors,
+  validateEmail,
+  validateNewPassword,
+  type AuthFieldErrors,
+} from '../utils/authForm';
+
+type Form = { full_name: string; email: string; password: string; confirm: string };
+
+export default function Register() {
+  const { isAuthenticated } = useAuth();
+  const [form, setForm] = useState<Form>({ full_name: '', email: '', password: '', confirm: '' });
+  const [fieldErrors, setFieldErrors] = useState<AuthFieldErrors>({});
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [emailTaken, setEmailTaken] = useState(false);
+  // Address the verification link went to, once the account is created
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  if (isAuthenticated) return <Navigate to="/dashboard" replace />;
+
+  const update = (field: keyof Form, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    setFieldErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const errors: AuthFieldErrors = {
+      email: validateEmail(form.email),
+      password: validateNewPassword(form.password),
+      confirm: form.confirm === form.password ? undefined : "Passwords don't match.",
+    };
+    setFieldErrors(errors);
+    setError('');
+    if (hasErrors(errors)) return;
+
+    setIsSubmitting(true);
+    try {
+      const { email } = await register({
+        email: form.email.trim(),
+        password: form.password,
+        full_name: form.full_name.trim() || undefined,
+      });
+      setSentTo(email);
+    } catch (err) {
+      setError(authErrorMessage(err, 'register'));
+      setFieldErrors(serverFieldErrors(err));
+      setEmailTaken(err instanceof ApiError && err.status === 409);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (sentTo) {
+    return <VerificationSentCard email={sentTo} />;
+  }
+
+  return (
+    <AuthCard
+      title="Create your account"
+      footer={
+        <>
+          Already have an account?{' '}
+          <Link to="/login" className="font-semibold text-gray-900 hover:underline">
+            Sign in
+          </Link>
+        </>
+      }
+    >
+      <div className="mb-6">
+        <GoogleAuthBtn />
+      </div>
+
+      <div className="relative mb-6">
+        <div className="absolute inset-0 flex items-center">
+          <div className="w-full border-t border-gray-300"></div>
+        </div>
+        <div className="relative flex justify-center text-sm">
+          <span className="px-2 bg-white text-gray-500">Or sign up with email</span>
+        </div>
+      </div>
+
+      {error && (
+        <div className="text-red-500 text-sm mb-4 text-center">
+          <p>{error}</p>
+          {emailTaken && (
+            <p className="mt-1 text-gray-600">
+              <Link to="/login" state={{ email: form.email.trim() }} className="font-semibold text-gray-900 hover:underline">
+                Sign in
+              </Link>{' '}
+              or{' '}
+              <Link to="/forgot-password" state={{ email: form.email.trim() }} className="font-semibold text-gray-900 hover:underline">
+                reset your password
+              </Link>
+            </p>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} noValidate className="space-y-4">
+        <AuthField
+          label="Name (optional)"
+          autoComplete="name"
+          value={form.full_name}
+          onChange={(value) => update('full_name', value)}
+          error={fieldErrors.full_name}
+        />
+        <AuthField
+          label="Email"
+          type="email"
+          autoComplete="email"
+          value={form.email}
+          onChange={(value) => update('email', value)}
+          error={fieldErrors.email}
+        />
+        <AuthField
+          label="Password"
+          type="password"
+          autoComplete="new-password"
+          value={form.password}
+          onChange={(value) => update('password', value)}
+          error={fieldErrors.password}
+          hint={`At least ${MIN_PASSWORD_LENGTH} characters, with a letter and a number`}
+        />
+        <AuthField
+          label="Confirm password"
+          type="password"
+          autoComplete="new-password"
+          value={form.confirm}
+          onChange={(value) => update('confirm', value)}
+          error={fieldErrors.confirm}
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full bg-gray-900 text-white p-3 rounded-lg font-semibold hover:bg-gray-800 transition disabled:opacity-60"
+        >
+          {isSubmitting ? 'Creating account…' : 'Create account'}
+        </button>
+      </form>
+    </AuthCard>
+  );
+}
+
+// SUB-COMPONENTS
+
+// Shown after sign-up while the user checks their inbox
+function VerificationSentCard({ email }: { email: string }) {
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const [error, setError] = useState('');
+
+  const handleResend = async () => {
+    setStatus('sending');
+    setError('');
+    try {
+      await resendVerification(email);
+      setStatus('sent');
+    } catch (err) {
+      setError(authErrorMessage(err, 'verify'));
+      setStatus('idle');
+    }
+  };
+
+  return (
+    <AuthCard
+      title="Check your inbox"
+      subtitle={`We sent a verification link to ${email}. Open it to finish creating your account.`}
+      footer={
+        <Link to="/login" state={{ email }} className="font-semibold text-gray-900 hover:underline">
+          Back to sign in
+        </Link>
+      }
+    >
+      {error && <p className="text-red-500 text-sm mb-4 text-center">{error}</p>}
+      {status === 'sent' ? (
+        <p className="text-sm text-center text-green-700">A new link is on its way.</p>
+      ) : (
+        <button
+          onClick={handleResend}
+          disabled={status === 'sending'}
+          className="w-full border border-gray-300 text-gray-800 p-3 rounded-lg font-semibold hover:bg-gray-50 transition disabled:opacity-60"
+        >
+          {status === 'sending' ? 'Sending…' : "Didn't get it? Resend the email"}
+        </button>
+      )}
+    </AuthCard>
+  );
+}
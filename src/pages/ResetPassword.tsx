@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { confirmPasswordReset, isTwoFactorChallenge } from '../api/auth';
+import { ApiError } from '../api/errors';
+import type { TokenResponse } from '../api/types';
+import { useAuth } from '../context/AuthContext';
+import AuthCard from '../components/AuthCard';
+import AuthField from '../components/AuthField';
+import TwoFactorStep from '../components/TwoFactorStep';
+import {
+  MIN_PASSWORD_LENGTH,
+  authErrorMessage,
+  hasErrors,
+  serverFieldErrors,
+  validateNewPassword,
+  type AuthFieldErrors,
+} from '../utils/authForm';
+
+// Landing page for the link in the password reset email
+export default function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const { login } = useAuth();
+  const navigate = useNavigate();
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<AuthFieldErrors>({});
+  const [error, setError] = useState('');
+  // The token was rejected; the form can't succeed, so offer a new link instead
+  const [linkExpired, setLinkExpired] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Set when the password was saved but the account needs a 2FA code to sign in
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    const errors: AuthFieldErrors = {
+      password: validateNewPassword(password),
+      confirm: confirm === password ? undefined : "Passwords don't match.",
+    };
+    setFieldErrors(errors);
+    setError('');
+    if (hasErrors(errors)) return;
+
+    setIsSubmitting(true);
+    try {
+      const res = await confirmPasswordReset({ token, password });
+      if (isTwoFactorChallenge(res)) {
+        setChallengeToken(res.challenge_token);
+        return;
+      }
+      completeLogin(res);
+    } catch (err) {
+      setError(authErrorMessage(err, 'reset'));
+      setFieldErrors(serverFieldErrors(err));
+      setLinkExpired(err instanceof ApiError && (err.status === 400 || err.status === 404));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const completeLogin = ({ access_token, refresh_token }: TokenResponse) => {
+    login(access_token, refresh_token);
+    navigate('/dashboard', { replace: true });
+  };
+
+  if (challengeToken) {
+    return (
+      <TwoFactorStep
+        challengeToken={challengeToken}
+        onVerified={completeLogin}
+        onCancel={() => navigate('/login', { replace: true })}
+      />
+    );
+  }
+
+  if (!token || linkExpired) {
+    return (
+      <AuthCard
+        title="Link expired"
+        subtitle={error || 'This reset link is missing its code.'}
+        footer={
+          <Link to="/login" className="font-semibold text-gray-900 hover:underline">
+            Back to sign in
+          </Link>
+        }
+      >
+        <Link
+          to="/forgot-password"
+          className="block w-full text-center bg-gray-900 text-white p-3 rounded-lg font-semibold hover:bg-gray-800 transition"
+        >
+          Request a new link
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Choose a new password" subtitle="You'll be signed in once it's saved.">
+      {error && <p className="text-red-500 text-sm mb-4 text-center">{error}</p>}
+      <form onSubmit={handleSubmit} noValidate className="space-y-4">
+        <AuthField
+          label="New password"
+          type="password"
+          autoComplete="new-password"
+          value={password}
+          onChange={(value) => {
+            setPassword(value);
+            setFieldErrors((prev) => ({ ...prev, password: undefined }));
+          }}
+          error={fieldErrors.password}
+          hint={`At least ${MIN_PASSWORD_LENGTH} characters, with a letter and a number`}
+        />
+        <AuthField
+          label="Confirm new password"
+          type="password"
+          autoComplete="new-password"
+          value={confirm}
+          onChange={(value) => {
+            setConfirm(value);
+            setFieldErrors((prev) => ({ ...prev, confirm: undefined }));
+          }}
+          error={fieldErrors.confirm}
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full bg-gray-900 text-white p-3 rounded-lg font-semibold hover:bg-gray-800 transition disabled:opacity-60"
+        >
+          {isSubmitting ? 'Saving…' : 'Save password'}
+        </button>
+      </form>
+    </AuthCard>
+  );
+}
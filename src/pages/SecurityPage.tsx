@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import useSWR from 'swr';
+import {
+  ArrowPathIcon,
+  ArrowRightOnRectangleIcon,
+  ComputerDesktopIcon,
+  DevicePhoneMobileIcon,
+  ShieldCheckIcon,
+} from '@heroicons/react/24/outline';
+import { listSessions, revokeOtherSessions, revokeSession } from '../api/users';
+import { errorMessage } from '../api/errors';
+import type { AuthSession } from '../api/types';
+import { useAuth } from '../context/AuthContext';
+import SettingsSection from '../components/SettingsSection';
+import SettingsTabs from '../components/SettingsTabs';
+import TwoFactorSettings from '../components/TwoFactorSettings';
+import { minutesSince, timeAgo } from '../utils/time';
+
+const MOBILE_DEVICE = /iphone|ipad|android|mobile/i;
+
+// "Active now" for the last few minutes, then a coarse relative time
+const formatLastSeen = (iso: string) => (minutesSince(iso) < 5 ? 'Active now' : `Last seen ${timeAgo(iso)}`);
+
+export default function SecurityPage() {
+  const { logoutEverywhere } = useAuth();
+  const { data: sessions, error: loadError, isLoading, mutate } = useSWR('/users/me/sessions', listSessions);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [isRevokingOthers, setIsRevokingOthers] = useState(false);
+  const [isLoggingOut, setIsLoggingOut] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Current session first, then most recently used
+  const sorted = [...(sessions ?? [])].sort(
+    (a, b) => Number(b.current) - Number(a.current) || b.last_seen_at.localeCompare(a.last_seen_at)
+  );
+  const otherCount = sorted.filter((s) => !s.current).length;
+
+  const handleRevoke = async (session: AuthSession) => {
+    setRevokingId(session.id);
+    setActionError(null);
+    try {
+      await revokeSession(session.id);
+      await mutate((prev) => prev?.filter((s) => s.id !== session.id), false);
+    } catch (err) {
+      console.error('Revoking session failed', err);
+      setActionError(errorMessage(err, 'Could not sign out that session.'));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!window.confirm(`Sign out ${otherCount} other session${otherCount === 1 ? '' : 's'}?`)) return;
+    setIsRevokingOthers(true);
+    setActionError(null);
+    try {
+      await revokeOtherSessions();
+      await mutate((prev) => prev?.filter((s) => s.current), false);
+    } catch (err) {
+      console.error('Revoking other sessions failed', err);
+      setActionError(errorMessage(err, 'Could not sign out the other sessions.'));
+    } finally {
+      setIsRevokingOthers(false);
+    }
+  };
+
+  const handleLogoutEverywhere = async () => {
+    if (!window.confirm('Sign out of every device, including this one?')) return;
+    setIsLoggingOut(true);
+    setActionError(null);
+    try {
+      await logoutEverywhere();
+    } catch (err) {
+      console.error('Logging out everywhere failed', err);
+      setActionError(errorMessage(err, 'Could not sign out everywhere.'));
+      setIsLoggingOut(false);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 sm:p-6 lg:p-8">
+      <div className="max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 sm:mb-10 animate-in fade-in slide-in-from-top-4 duration-500">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="relative">
+              <div className="absolute inset-0 bg-blue-500 blur-xl opacity-30 animate-pulse"></div>
+              <ShieldCheckIcon className="w-8 h-8 sm:w-10 sm:h-10 text-blue-400 relative z-10" />
+            </div>
+            <h1 className="text-2xl md:text-3xl font-bold text-white">Settings</h1>
+          </div>
+          <p className="text-gray-400 text-sm sm:text-base ml-0 sm:ml-14">
+            Two-step sign-in and the devices where your account is signed in
+          </p>
+        </div>
+
+        <SettingsTabs />
+
+        {actionError && (
+          <p className="mb-4 p-3 rounded-xl border border-red-500/30 bg-red-500/5 text-sm text-red-300">{actionError}</p>
+        )}
+
+        <div className="space-y-6">
+          <TwoFactorSettings />
+
+          {/* Sessions */}
+          <SettingsSection
+            icon={ComputerDesktopIcon}
+            title="Active sessions"
+            action={
+              otherCount > 0 && (
+                <button
+                  onClick={handleRevokeOthers}
+                  disabled={isRevokingOthers}
+                  className="flex items-center gap-1.5 text-xs font-medium text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                >
+                  {isRevokingOthers && <ArrowPathIcon className="w-3.5 h-3.5 animate-spin" />}
+                  Sign out all other sessions
+                </button>
+              )
+            }
+          >
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <ArrowPathIcon className="w-5 h-5 text-gray-500 animate-spin" />
+              </div>
+            ) : loadError ? (
+              <p className="text-sm text-red-400">
+                Could not load your sessions.{' '}
+                <button onClick={() => mutate()} className="underline underline-offset-2 hover:text-red-300">
+                  Retry
+                </button>
+              </p>
+            ) : (
+              <ul className="divide-y divide-slate-800">
+                {sorted.map((session) => (
+                  <SessionRow
+                    key={session.id}
+                    session={session}
+                    isRevoking={revokingId === session.id}
+                    onRevoke={() => handleRevoke(session)}
+                  />
+                ))}
+              </ul>
+            )}
+          </SettingsSection>
+
+          {/* Log Out Everywhere */}
+          <SettingsSection icon={ArrowRightOnRectangleIcon} title="Sign out everywhere">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <p className="text-sm text-gray-400">
+                Ends every session, including this one. Use it if you think someone else has access to your account.
+              </p>
+              <button
+                onClick={handleLogoutEverywhere}
+                disabled={isLoggingOut}
+                className="flex items-center justify-center gap-2 px-4 py-2 flex-shrink-0 rounded-lg border border-red-500/40 text-sm font-semibold text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+              >
+                {isLoggingOut && <ArrowPathIcon className="w-4 h-4 animate-spin" />}
+                Log out everywhere
+              </button>
+            </div>
+          </SettingsSection>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// SUB-COMPONENTS
+
+function SessionRow({
+  session,
+  isRevoking,
+  onRevoke,
+}: {
+  session: AuthSession;
+  isRevoking: boolean;
+  onRevoke: () => void;
+}) {
+  const Icon = MOBILE_DEVICE.test(session.device) ? DevicePhoneMobileIcon : ComputerDesktopIcon;
+  const details = [session.ip_address, session.location].filter(Boolean).join(' · ');
+
+  return (
+    <li className="flex items-center gap-4 py-3 first:pt-0 last:pb-0">
+      <div className="p-2 rounded-lg bg-slate-800/60 text-gray-400">
+        <Icon className="w-5 h-5" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="flex items-center gap-2 text-sm text-gray-200">
+          <span className="truncate">{session.device}</span>
+          {session.current && (
+            <span className="px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wider bg-emerald-500/10 text-emerald-400">
+              This device
+            </span>
+          )}
+        </p>
+        <p className="text-xs text-gray-500 truncate">
+          {details && `${details} · `}
+          {session.current ? 'Active now' : formatLastSeen(session.last_seen_at)}
+        </p>
+      </div>
+      {!session.current && (
+        <button
+          onClick={onRevoke}
+          disabled={isRevoking}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-gray-400 hover:text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+        >
+          {isRevoking && <ArrowPathIcon className="w-3.5 h-3.5 animate-spin" />}
+          Sign out
+        </button>
+      )}
+    </li>
+  );
+}
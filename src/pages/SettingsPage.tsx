@@ -0,0 +1,370 @@
+import { useRef, useState } from 'react';
+import {
+  ArrowPathIcon,
+  BellIcon,
+  CheckCircleIcon,
+  Cog6ToothIcon,
+  CameraIcon,
+  SparklesIcon,
+  UserCircleIcon,
+} from '@heroicons/react/24/outline';
+import { uploadMedia } from '../api/media';
+import { errorMessage } from '../api/errors';
+import type { NotificationPreferences, UserPreferences } from '../api/types';
+import { useAuth } from '../context/AuthContext';
+import { isSelectable, modelsOfKind, resolveEntry, useCatalog, voicesFor } from '../hooks/useCatalog';
+import { usePreferences } from '../hooks/usePreferences';
+import { SIZES, qualitiesFor } from '../utils/imageOptions';
+import SettingsSection from '../components/SettingsSection';
+import { inputClass } from '../components/settingsStyles';
+import SettingsTabs from '../components/SettingsTabs';
+
+const MAX_NAME_LENGTH = 80;
+const MAX_AVATAR_SIZE = 5 * 1024 * 1024;
+
+const NOTIFICATION_OPTIONS: { key: keyof NotificationPreferences; label: string; hint: string }[] = [
+  { key: 'job_toasts', label: 'Generation toasts', hint: 'Show a notice in the app when a voice, image or video is ready' },
+  { key: 'browser_notifications', label: 'Desktop notifications', hint: 'Notify you from a background tab; your browser will ask for permission' },
+  { key: 'low_balance_alerts', label: 'Low-balance warnings', hint: 'Highlight the credit badge when your balance drops below your alert threshold' },
+];
+
+type SettingsForm = {
+  full_name: string;
+  avatar_url: string | null;
+  preferences: UserPreferences;
+};
+
+export default function SettingsPage() {
+  const { user, updateProfile } = useAuth();
+  const savedPreferences = usePreferences();
+  const { catalog } = useCatalog();
+
+  const saved: SettingsForm = {
+    full_name: user?.full_name ?? '',
+    avatar_url: user?.avatar_url ?? null,
+    preferences: savedPreferences,
+  };
+  // null until the user edits something; until then the form mirrors the profile
+  const [draft, setDraft] = useState<SettingsForm | null>(null);
+  const form = draft ?? saved;
+  const prefs = form.preferences;
+
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [avatarError, setAvatarError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const chatModels = modelsOfKind(catalog, 'chat').filter(isSelectable);
+  const imageModels = modelsOfKind(catalog, 'image').filter(isSelectable);
+  const voices = voicesFor(catalog, 'speech').filter(isSelectable);
+  // Quality names depend on the image model that will actually be used
+  const imageModelId = resolveEntry(imageModels, prefs.default_image_model)?.id ?? '';
+
+  // Functional so an avatar upload finishing later keeps edits made meanwhile
+  const update = (changes: Partial<SettingsForm>) => {
+    setDraft((prev) => ({ ...(prev ?? saved), ...changes }));
+    setSavedAt(null);
+  };
+
+  const updatePreferences = (changes: Partial<UserPreferences>) =>
+    update({ preferences: { ...prefs, ...changes } });
+
+  const handleAvatarSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      setAvatarError('Choose a PNG, JPEG or WebP image.');
+      return;
+    }
+    if (file.size > MAX_AVATAR_SIZE) {
+      setAvatarError('The image must be smaller than 5 MB.');
+      return;
+    }
+
+    setAvatarError(null);
+    setIsUploading(true);
+    try {
+      const { public_url } = await uploadMedia(file);
+      update({ avatar_url: public_url });
+    } catch (err) {
+      console.error('Avatar upload failed', err);
+      setAvatarError('Upload failed. Please try again.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const name = draft.full_name.trim();
+    if (name.length > MAX_NAME_LENGTH) {
+      setNameError(`Keep your name under ${MAX_NAME_LENGTH} characters.`);
+      return;
+    }
+
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await updateProfile({
+        full_name: name,
+        avatar_url: draft.avatar_url,
+        preferences: draft.preferences,
+      });
+      setDraft(null);
+      setSavedAt(Date.now());
+    } catch (err) {
+      console.error('Saving settings failed', err);
+      setSaveError(errorMessage(err, 'Could not save your settings.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const initial = (form.full_name || user?.email || '?')[0].toUpperCase();
+
+  return (
+    <div className="h-full overflow-y-auto p-4 sm:p-6 lg:p-8">
+      <div className="max-w-3xl mx-auto pb-24">
+        {/* Header */}
+        <div className="mb-8 sm:mb-10 animate-in fade-in slide-in-from-top-4 duration-500">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="relative">
+              <div className="absolute inset-0 bg-blue-500 blur-xl opacity-30 animate-pulse"></div>
+              <Cog6ToothIcon className="w-8 h-8 sm:w-10 sm:h-10 text-blue-400 relative z-10" />
+            </div>
+            <h1 className="text-2xl md:text-3xl font-bold text-white">Settings</h1>
+          </div>
+          <p className="text-gray-400 text-sm sm:text-base ml-0 sm:ml-14">
+            Your profile and the defaults every studio starts with
+          </p>
+        </div>
+
+        <SettingsTabs />
+
+        <div className="space-y-6">
+          {/* Profile */}
+          <SettingsSection icon={UserCircleIcon} title="Profile">
+            <div className="flex flex-col sm:flex-row gap-6">
+              <div className="flex flex-col items-center gap-2">
+                <div className="relative">
+                  {form.avatar_url ? (
+                    <img src={form.avatar_url} alt="" className="w-20 h-20 rounded-full object-cover border border-slate-700" />
+                  ) : (
+                    <div className="w-20 h-20 rounded-full bg-gradient-to-tr from-purple-500 to-blue-500 flex items-center justify-center text-2xl font-bold">
+                      {initial}
+                    </div>
+                  )}
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isUploading}
+                    className="absolute -bottom-1 -right-1 p-1.5 rounded-full bg-slate-800 border border-slate-700 text-gray-300 hover:text-white hover:bg-slate-700 transition-colors"
+                    title="Upload a new picture"
+                  >
+                    {isUploading ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : <CameraIcon className="w-4 h-4" />}
+                  </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/png, image/jpeg, image/webp"
+                    onChange={handleAvatarSelect}
+                    className="hidden"
+                  />
+                </div>
+                {form.avatar_url && (
+                  <button onClick={() => update({ avatar_url: null })} className="text-xs text-gray-500 hover:text-red-400 transition-colors">
+                    Remove
+                  </button>
+                )}
+              </div>
+
+              <div className="flex-1 space-y-4">
+                <Field label="Name" error={nameError}>
+                  <input
+                    value={form.full_name}
+                    onChange={(e) => {
+                      setNameError(null);
+                      update({ full_name: e.target.value });
+                    }}
+                    placeholder="Your name"
+                    className={inputClass}
+                  />
+                </Field>
+                <Field label="Email" hint="Used to sign in; it can't be changed here">
+                  <input value={user?.email ?? ''} disabled className={`${inputClass} opacity-60 cursor-not-allowed`} />
+                </Field>
+                {avatarError && <p className="text-xs text-red-400">{avatarError}</p>}
+              </div>
+            </div>
+          </SettingsSection>
+
+          {/* Defaults */}
+          <SettingsSection icon={SparklesIcon} title="Defaults">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <Field label="Chat model" hint="Used for new chats; the picker in a chat still overrides it">
+                <select
+                  value={prefs.default_chat_model ?? 'auto'}
+                  onChange={(e) =>
+                    updatePreferences({ default_chat_model: e.target.value === 'auto' ? null : e.target.value })
+                  }
+                  className={inputClass}
+                >
+                  <option value="auto">Smart routing (auto)</option>
+                  {Array.from(new Set(chatModels.map((m) => m.group))).map((group) => (
+                    <optgroup key={group} label={group}>
+                      {chatModels.filter((m) => m.group === group).map((m) => (
+                        <option key={m.id} value={m.id}>{m.label}</option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+              </Field>
+
+              <Field label="Voice">
+                <select
+                  value={prefs.default_voice ?? ''}
+                  onChange={(e) => updatePreferences({ default_voice: e.target.value || null })}
+                  className={inputClass}
+                >
+                  <option value="">Catalog default</option>
+                  {voices.map((v) => (
+                    <option key={v.id} value={v.id}>{v.name}</option>
+                  ))}
+                </select>
+              </Field>
+
+              <Field label="Image model">
+                <select
+                  value={prefs.default_image_model ?? ''}
+                  onChange={(e) =>
+                    updatePreferences({ default_image_model: e.target.value || null, default_image_quality: null })
+                  }
+                  className={inputClass}
+                >
+                  <option value="">Catalog default</option>
+                  {imageModels.map((m) => (
+                    <option key={m.id} value={m.id}>{m.label}</option>
+                  ))}
+                </select>
+              </Field>
+
+              <div className="grid grid-cols-2 gap-4">
+                <Field label="Size">
+                  <select
+                    value={prefs.default_image_size ?? SIZES[0].value}
+                    onChange={(e) => updatePreferences({ default_image_size: e.target.value })}
+                    className={inputClass}
+                  >
+                    {SIZES.map((s) => (
+                      <option key={s.id} value={s.value}>{s.name}</option>
+                    ))}
+                  </select>
+                </Field>
+                <Field label="Quality">
+                  <select
+                    value={prefs.default_image_quality ?? ''}
+                    onChange={(e) => updatePreferences({ default_image_quality: e.target.value || null })}
+                    className={inputClass}
+                  >
+                    <option value="">Model default</option>
+                    {qualitiesFor(imageModelId).map((q) => (
+                      <option key={q.id} value={q.value}>{q.name}</option>
+                    ))}
+                  </select>
+                </Field>
+              </div>
+            </div>
+          </SettingsSection>
+
+          {/* Notifications */}
+          <SettingsSection icon={BellIcon} title="Notifications">
+            <div className="divide-y divide-slate-800">
+              {NOTIFICATION_OPTIONS.map(({ key, label, hint }) => (
+                <label key={key} className="flex items-center justify-between gap-4 py-3 first:pt-0 last:pb-0 cursor-pointer">
+                  <span>
+                    <span className="block text-sm text-gray-200">{label}</span>
+                    <span className="block text-xs text-gray-500">{hint}</span>
+                  </span>
+                  <Switch
+                    checked={prefs.notifications[key]}
+                    onChange={(checked) =>
+                      updatePreferences({ notifications: { ...prefs.notifications, [key]: checked } })
+                    }
+                  />
+                </label>
+              ))}
+            </div>
+          </SettingsSection>
+        </div>
+
+        {/* Save Bar */}
+        <div className="sticky bottom-4 mt-6 flex items-center justify-end gap-4 p-4 rounded-2xl bg-[#1a1d26]/95 backdrop-blur border border-slate-800 shadow-2xl">
+          {saveError && <span className="text-sm text-red-400 mr-auto">{saveError}</span>}
+          {savedAt && !draft && (
+            <span className="flex items-center gap-1.5 text-sm text-emerald-400 mr-auto">
+              <CheckCircleIcon className="w-4 h-4" />
+              Settings saved
+            </span>
+          )}
+          {draft && (
+            <button onClick={() => setDraft(null)} className="text-sm text-gray-400 hover:text-white transition-colors">
+              Discard changes
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={!draft || isSaving || isUploading}
+            className="flex items-center gap-2 px-5 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-semibold text-white transition-colors disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed"
+          >
+            {isSaving && <ArrowPathIcon className="w-4 h-4 animate-spin" />}
+            Save settings
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// SUB-COMPONENTS
+
+function Field({
+  label,
+  hint,
+  error,
+  children,
+}: {
+  label: string;
+  hint?: string;
+  error?: string | null;
+  children: React.ReactNode;
+}) {
+  return (
+    <label className="block">
+      <span className="block text-xs font-medium text-gray-400 mb-1.5">{label}</span>
+      {children}
+      {(error || hint) && (
+        <span className={`block mt-1.5 text-xs ${error ? 'text-red-400' : 'text-gray-500'}`}>{error ?? hint}</span>
+      )}
+    </label>
+  );
+}
+
+function Switch({ checked, onChange }: { checked: boolean; onChange: (checked: boolean) => void }) {
+  return (
+    <button
+      type="button"
+      role="switch"
+      aria-checked={checked}
+      onClick={() => onChange(!checked)}
+      className={`relative w-10 h-6 flex-shrink-0 rounded-full transition-colors ${checked ? 'bg-blue-600' : 'bg-slate-700'}`}
+    >
+      <span
+        className={`absolute top-1 left-1 w-4 h-4 rounded-full bg-white shadow transition-transform ${checked ? 'translate-x-4' : ''}`}
+      />
+    </button>
+  );
+}
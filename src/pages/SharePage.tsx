@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import useSWR, { mutate } from "swr";
+import {
+  ArrowPathIcon,
+  ArrowRightIcon,
+  CpuChipIcon,
+  DocumentDuplicateIcon,
+  ExclamationTriangleIcon,
+  EyeIcon,
+} from "@heroicons/react/24/outline";
+import { Rocket } from "lucide-react";
+import { forkSharedChat, getSharedChat } from "../api/chat";
+import { ApiError, errorMessage } from "../api/errors";
+import type { ChatHistoryMessage } from "../api/types";
+import { useAuth } from "../context/AuthContext";
+import ChatMarkdown from "../components/ChatMarkdown";
+import AttachmentPills from "../components/AttachmentPills";
+
+const loadErrorMessage = (err: unknown) => {
+  if (err instanceof ApiError) {
+    if (err.status === 404 || err.status === 410) return "This link was revoked or never existed.";
+    if (err.status === 401) return "This conversation is shared with a team workspace. Sign in to view it.";
+    if (err.status === 403) return "This conversation is shared with a workspace you're not a member of.";
+  }
+  return "Could not load the conversation. Please try again.";
+};
+
+// Read-only view of a shared conversation; open to anyone for public links
+export default function SharePage() {
+  const { token: shareToken } = useParams();
+  const { isAuthenticated } = useAuth();
+  const navigate = useNavigate();
+  const [isForking, setIsForking] = useState(false);
+  const [forkError, setForkError] = useState<string | null>(null);
+
+  const { data: chat, error, isLoading } = useSWR(
+    shareToken ? (["/share", shareToken] as const) : null,
+    ([, t]) => getSharedChat(t),
+    { shouldRetryOnError: false }
+  );
+
+  const here = `/share/${shareToken}`;
+  const needsSignIn = error instanceof ApiError && error.status === 401 && !isAuthenticated;
+
+  const handleFork = async () => {
+    if (!shareToken) return;
+    setIsForking(true);
+    setForkError(null);
+    try {
+      const forked = await forkSharedChat(shareToken);
+      // Show the copy in the sidebar
+      mutate("/chat/recent");
+      navigate(`/dashboard/chat/${forked.id}`);
+    } catch (err) {
+      console.error("Forking shared chat failed", err);
+      setForkError(errorMessage(err, "Could not copy the conversation."));
+      setIsForking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#0a0b0f] via-[#0d0e14] to-[#0a0b0f] text-gray-100">
+      {/* Top Bar */}
+      <nav className="sticky top-0 z-20 flex items-center justify-between px-4 sm:px-8 py-3 bg-[#0a0b0f]/90 backdrop-blur border-b border-gray-800">
+        <Link to="/" className="flex items-center gap-2">
+          <Rocket className="h-5 w-5 text-blue-500" />
+          <span className="text-base font-bold tracking-tight text-white">AI Platform</span>
+        </Link>
+        <span className="flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-gray-800/60 border border-gray-700/50 text-[11px] font-medium text-gray-400">
+          <EyeIcon className="w-3.5 h-3.5" />
+          Read-only
+        </span>
+      </nav>
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 py-8 sm:py-10">
+        {isLoading ? (
+          <div className="py-24 flex justify-center">
+            <ArrowPathIcon className="w-8 h-8 text-blue-400 animate-spin" />
+          </div>
+        ) : error || !chat ? (
+          <div className="max-w-md mx-auto mt-16 text-center bg-slate-900/50 border border-slate-800 rounded-2xl p-8">
+            <ExclamationTriangleIcon className="w-12 h-12 mx-auto mb-4 text-amber-400" />
+            <h1 className="text-xl font-bold text-white mb-2">Can't open this conversation</h1>
+            <p className="text-sm text-gray-400 mb-6">{loadErrorMessage(error)}</p>
+            {needsSignIn ? (
+              <Link
+                to="/login"
+                state={{ from: here }}
+                className="inline-block px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-medium text-white transition-colors"
+              >
+                Sign in
+              </Link>
+            ) : (
+              <Link
+                to="/"
+                className="inline-block px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm font-medium text-gray-200 transition-colors"
+              >
+                Go to home page
+              </Link>
+            )}
+          </div>
+        ) : (
+          <>
+            {/* Title */}
+            <header className="mb-8 pb-5 border-b border-gray-800">
+              <h1 className="text-2xl sm:text-3xl font-bold text-white break-words">{chat.title || "Untitled chat"}</h1>
+              <p className="mt-2 text-sm text-gray-500">
+                {chat.shared_by ? `Shared by ${chat.shared_by} · ` : ""}
+                {new Date(chat.created_at).toLocaleDateString(undefined, { dateStyle: "medium" })}
+              </p>
+            </header>
+
+            {/* Messages */}
+            <div className="space-y-4 sm:space-y-5">
+              {chat.messages
+                .filter((m) => m.role !== "system")
+                .map((msg, idx) => (
+                  <SharedMessage key={msg.id ?? idx} message={msg} />
+                ))}
+            </div>
+
+            {/* Continue */}
+            <div className="mt-10 p-5 rounded-2xl bg-[#13151c] border border-gray-700/30 flex flex-col sm:flex-row sm:items-center gap-4">
+              <p className="flex-1 text-sm text-gray-400">
+                {isAuthenticated
+                  ? "Copy this conversation into your own history to keep chatting. The original stays unchanged."
+                  : "Sign in to copy this conversation into your own history and keep chatting."}
+              </p>
+              {isAuthenticated ? (
+                <button
+                  onClick={handleFork}
+                  disabled={isForking}
+                  className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-semibold text-white disabled:opacity-50 transition-colors"
+                >
+                  <DocumentDuplicateIcon className="w-4 h-4" />
+                  {isForking ? "Copying..." : "Fork into my chats"}
+                </button>
+              ) : (
+                <Link
+                  to="/login"
+                  state={{ from: here }}
+                  className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-semibold text-white transition-colors"
+                >
+                  Sign in
+                  <ArrowRightIcon className="w-4 h-4" />
+                </Link>
+              )}
+            </div>
+            {forkError && <p className="mt-2 text-xs text-red-400">{forkError}</p>}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// SUB-COMPONENTS
+
+// Styled like the chat view, without its controls
+function SharedMessage({ message }: { message: ChatHistoryMessage }) {
+  if (message.role === "user") {
+    return (
+      <div className="flex justify-end">
+        <div className="max-w-[90%] sm:max-w-[85%] space-y-3 bg-gradient-to-br from-blue-600 to-blue-700 text-white shadow-xl shadow-blue-500/20 px-4 sm:px-5 py-3 sm:py-4 rounded-2xl rounded-br-sm">
+          {message.content && (
+            <div className="leading-[1.7] break-words whitespace-pre-wrap text-sm sm:text-[15px]">
+              {message.content}
+            </div>
+          )}
+          {message.attachments && message.attachments.length > 0 && (
+            <AttachmentPills attachments={message.attachments} />
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex justify-start">
+      <div className="max-w-[95%] sm:max-w-[92%] flex flex-col gap-3 bg-[#13151c] border border-gray-700/30 text-gray-100 shadow-2xl px-4 sm:px-6 py-4 sm:py-5 rounded-2xl rounded-bl-sm">
+        <ChatMarkdown content={message.content} />
+        {message.model && (
+          <div className="flex items-center gap-2 mt-1 pt-3 border-t border-gray-700/40">
+            <div className="flex items-center gap-1.5 px-2.5 py-1 bg-purple-500/10 rounded-lg border border-purple-500/20">
+              <CpuChipIcon className="w-3.5 h-3.5 text-purple-400" />
+              <span className="text-[10px] sm:text-[11px] font-semibold text-purple-300 uppercase tracking-wide">
+                {message.model}
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState, useRef, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import useSWR from 'swr';
-import api from '../api/client';
+import { deleteAudio, generateAudio, listAudio } from '../api/media';
+import type { AudioFile, CatalogVoice } from '../api/types';
 import { 
   SpeakerWaveIcon, 
   PlayCircleIcon, 
@@ -15,97 +17,67 @@ import {
 } from '@heroicons/react/24/solid';
 import { useAuth } from '../context/AuthContext';
 import DeleteModal from '../components/DeleteModal';
-
-// Types
-interface AudioFile {
-  id: string;
-  text_prompt: string;
-  public_url: string;
-  created_at: string;
-  voice_name: string;
-}
-
-interface Voice {
-  id: string;
-  name: string;
-}
-
-// Available Voices Configuration
-const AVAILABLE_VOICES: Voice[] = [
-  { id: 'en-US-Neural2-A', name: 'Male (Calm)'},
-  { id: 'en-US-Neural2-C', name: 'Female (Professional)'},
-  { id: 'en-US-Neural2-D', name: 'Male (Deep)'},
-  { id: 'en-US-Neural2-E', name: 'Female (Soft)'},
-  { id: 'en-US-Neural2-F', name: 'Female (Energetic)'},
-  { id: 'en-US-Neural2-H', name: 'Female (Bright)'},
-  { id: 'en-US-Neural2-I', name: 'Male (Assertive)'},
-  { id: 'en-US-Neural2-J', name: 'Male (Steady)'},
-];
-
-// SWR Fetcher
-const fetcher = (url: string) => api.get(url).then((res) => res.data);
+import JobList from '../components/JobList';
+import { useJobs } from '../context/JobsContext';
+import CostHint from '../components/CostHint';
+import { formatPrice, isSelectable, resolveEntry, useCatalog, voicesFor } from '../hooks/useCatalog';
+import { useCostCheck } from '../hooks/useCostCheck';
+import { useBudget } from '../hooks/useBudget';
+import { usePreferences } from '../hooks/usePreferences';
+import { estimateSpeechCost } from '../utils/costEstimate';
 
 export default function TTSPage() {
   const { refreshProfile } = useAuth();
   const [text, setText] = useState('');
-  const [selectedVoice, setSelectedVoice] = useState(AVAILABLE_VOICES[4]);
+  const { catalog } = useCatalog();
+  const voices = voicesFor(catalog, 'speech');
+  const { default_voice } = usePreferences();
+  const [selectedVoiceId, setSelectedVoiceId] = useState(default_voice);
+  // Falls back to the default voice if the chosen one leaves the catalog
+  const selectedVoice = resolveEntry(voices, selectedVoiceId);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [lastGeneratedId, setLastGeneratedId] = useState<string | null>(null);
+  const cost = useCostCheck(text.trim() ? estimateSpeechCost(selectedVoice, text) : null);
+  const isBlocked = cost.status === 'insufficient';
+  const { confirmOverBudget } = useBudget();
   
   // Delete Modal State
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
   const [itemToDelete, setItemToDelete] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
 
-  const { data: audioFiles, mutate, isLoading } = useSWR<AudioFile[]>('/media/list', fetcher);
+  const { data: audioFiles, mutate, isLoading } = useSWR('/media/list', listAudio);
+
+  // Generations are tracked app-wide, so they keep running after leaving the page
+  const { jobs: allJobs, track, dismiss } = useJobs();
+  const jobs = allJobs.filter(job => job.kind === 'audio');
+
+  // A notification link names its result; otherwise show the newest one
+  const [searchParams, setSearchParams] = useSearchParams();
+  const lastGeneratedId = searchParams.get('result')
+    ?? jobs.find(job => job.status === 'completed')?.resultId
+    ?? null;
 
   const handleGenerate = async () => {
-    if (!text.trim()) return;
+    if (!text.trim() || !selectedVoice || isBlocked) return;
+    if (!confirmOverBudget()) return;
 
-    // Clear previous result & start loading
-    setLastGeneratedId(null);
     setIsGenerating(true);
 
     try {
       // Trigger Generation (returns immediately with task_id)
-      await api.post('/media/generate', { 
+      const { task_id } = await generateAudio({ 
         text,
         voice_name: selectedVoice.id
       });
-      
-      refreshProfile();
-      
-      // Poll for the new file
-      const startTime = Date.now();
-      const currentLatestId = audioFiles && audioFiles.length > 0 ? audioFiles[0].id : null;
-      
-      const pollInterval = setInterval(async () => {
-        // Force refresh data
-        const updatedList = await mutate();
-        
-        if (!updatedList || updatedList.length === 0) return;
-
-        const newestFile = updatedList[0];
-
-        // Check if a new file has appeared (ID is different from what we had before)
-        if (newestFile.id !== currentLatestId) {
-            clearInterval(pollInterval);
-            setLastGeneratedId(newestFile.id);
-            setText('');
-            setIsGenerating(false); // Stop loading animation only now
-        }
-
-        // Timeout after 30 seconds to prevent infinite loading
-        if (Date.now() - startTime > 30000) {
-            clearInterval(pollInterval);
-            setIsGenerating(false);
-            alert("Generation took too long. Please check history.");
-        }
-      }, 2000); // Check every 2 seconds
 
+      track(task_id, 'audio', text.trim());
+      setText('');
+      if (searchParams.has('result')) setSearchParams({}, { replace: true });
+      refreshProfile();
     } catch (err) {
       console.error('TTS Failed', err);
       alert('Failed to generate audio. Please try again.');
+    } finally {
       setIsGenerating(false);
     }
   };
@@ -129,7 +101,7 @@ export default function TTSPage() {
     );
 
     try {
-        await api.delete(`/media/audio/${itemToDelete}`);
+        await deleteAudio(itemToDelete);
         // Success
         mutate(); 
         setDeleteModalOpen(false);
@@ -208,7 +180,7 @@ export default function TTSPage() {
                     <div className="flex flex-col sm:flex-row gap-4 justify-between items-stretch sm:items-center">
                       {/* Voice Selector */}
                       <div className="flex-1 max-w-full sm:max-w-xs z-50">
-                        <VoiceSelector selected={selectedVoice} onChange={setSelectedVoice} voices={AVAILABLE_VOICES} />
+                        <VoiceSelector selected={selectedVoice} onChange={(v) => setSelectedVoiceId(v.id)} voices={voices} />
                       </div>
 
                       {/* Action Buttons */}
@@ -219,9 +191,9 @@ export default function TTSPage() {
                         
                         <button
                           onClick={handleGenerate}
-                          disabled={isGenerating || !text.trim()}
+                          disabled={isGenerating || !text.trim() || isBlocked}
                           className={`relative flex items-center gap-2 px-6 py-2.5 rounded-xl font-semibold transition-all shadow-lg hover:shadow-blue-500/25 ${
-                            isGenerating || !text.trim()
+                            isGenerating || !text.trim() || isBlocked
                               ? 'bg-slate-800 text-slate-500 cursor-not-allowed'
                               : 'bg-gradient-to-r from-blue-600 to-purple-600 text-white hover:opacity-90 active:scale-95'
                           }`}
@@ -241,12 +213,22 @@ export default function TTSPage() {
                         </button>
                       </div>
                     </div>
+
+                    {/* Cost Estimate */}
+                    {cost.estimate && (
+                      <div className="flex justify-end mt-3">
+                        <CostHint {...cost} />
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
 
+              {/* Running Jobs */}
+              <JobList jobs={jobs} onDismiss={dismiss} />
+
               {/* Last Generated Audio */}
-              {lastGeneratedAudio && !isGenerating && (
+              {lastGeneratedAudio && (
                 <div className="relative z-10 animate-in fade-in slide-in-from-top-2 duration-500">
                   <div className="flex items-center gap-2 mb-3">
                     <SparklesIcon className="w-4 h-4 text-green-400" />
@@ -338,7 +320,9 @@ function AudioCard({
     isHighlighted?: boolean;
     onDelete: (id: string) => void;
 }) {
-  const voiceName = AVAILABLE_VOICES.find(v => v.id === file.voice_name)?.name || 'Standard Voice';
+  const { catalog } = useCatalog();
+  // Voices removed from the catalog still label their old files
+  const voiceName = catalog.voices.find(v => v.id === file.voice_name)?.name || 'Standard Voice';
   const [isDownloading, setIsDownloading] = useState(false);
 
   // Direct Download Handler
@@ -462,7 +446,7 @@ function SkeletonCard() {
 }
 
 // Voice Selector Component
-function VoiceSelector({ selected, onChange, voices }: { selected: Voice; onChange: (v: Voice) => void; voices: Voice[] }) {
+function VoiceSelector({ selected, onChange, voices }: { selected?: CatalogVoice; onChange: (v: CatalogVoice) => void; voices: CatalogVoice[] }) {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -485,7 +469,7 @@ function VoiceSelector({ selected, onChange, voices }: { selected: Voice; onChan
       >
         <span className="block truncate text-gray-200">
           <span className="text-gray-500 mr-2">Voice:</span>
-          <span className="font-medium">{selected.name}</span>
+          <span className="font-medium">{selected?.name ?? 'No voices available'}</span>
         </span>
         <ChevronDownIcon className={`h-5 w-5 text-gray-400 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`} />
       </button>
@@ -493,27 +477,33 @@ function VoiceSelector({ selected, onChange, voices }: { selected: Voice; onChan
       {isOpen && (
         <div className="absolute mt-2 w-full overflow-auto rounded-xl bg-[#0f1117] backdrop-blur-xl py-1 text-sm shadow-2xl border border-slate-700 z-[60] max-h-60 [&::-webkit-scrollbar]:hidden [-ms-overflow-style:'none'] [scrollbar-width:'none'] animate-in fade-in zoom-in-95 duration-200"
         >
-          {voices.map((voice) => (
-            <button
-              key={voice.id}
-              onClick={() => {
-                onChange(voice);
-                setIsOpen(false);
-              }}
-              className={`w-full text-left relative cursor-pointer select-none py-3 pl-10 pr-4 transition-colors ${
-                selected.id === voice.id ? 'bg-blue-600/20 text-blue-200' : 'text-gray-300 hover:bg-slate-800/70'
-              }`}
-            >
-              <span className={`block truncate ${selected.id === voice.id ? 'font-semibold text-white' : 'font-normal'}`}>
-                <span className="text-gray-500 mr-2">{voice.name}</span>
-              </span>
-              {selected.id === voice.id && (
-                <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-blue-400">
-                  <CheckIcon className="h-5 w-5" />
+          {voices.map((voice) => {
+            const isSelected = selected?.id === voice.id;
+            const price = isSelectable(voice) ? formatPrice(voice.price, '1K chars') : 'Temporarily unavailable';
+            return (
+              <button
+                key={voice.id}
+                onClick={() => {
+                  onChange(voice);
+                  setIsOpen(false);
+                }}
+                disabled={!isSelectable(voice)}
+                className={`w-full text-left relative cursor-pointer select-none py-3 pl-10 pr-4 transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                  isSelected ? 'bg-blue-600/20 text-blue-200' : 'text-gray-300 hover:bg-slate-800/70'
+                }`}
+              >
+                <span className={`block truncate ${isSelected ? 'font-semibold text-white' : 'font-normal'}`}>
+                  <span className="text-gray-500 mr-2">{voice.name}</span>
                 </span>
-              )}
-            </button>
-          ))}
+                {price && <span className="block text-[10px] text-gray-500 truncate">{price}</span>}
+                {isSelected && (
+                  <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-blue-400">
+                    <CheckIcon className="h-5 w-5" />
+                  </span>
+                )}
+              </button>
+            );
+          })}
         </div>
       )}
     </div>
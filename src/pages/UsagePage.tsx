@@ -0,0 +1,388 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import useSWR from 'swr';
+import useSWRInfinite from 'swr/infinite';
+import {
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  ChartBarIcon,
+  ExclamationTriangleIcon,
+  KeyIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { listApiKeys } from '../api/apiKeys';
+import { getUsageSummary, listUsage } from '../api/billing';
+import type { UsageEntry, UsageModality, UsagePage as UsageLedgerPage, UsageQuery } from '../api/types';
+import BillingTabs from '../components/BillingTabs';
+import { resultPath } from '../hooks/useGenerationJobs';
+import { downloadFile } from '../utils/download';
+import {
+  MODALITY_LABELS,
+  buildUsageChart,
+  daysAgo,
+  today,
+  usageToCsv,
+  type UsageBucket,
+  type UsageGranularity,
+  type UsageGrouping,
+} from '../utils/usage';
+import { formatCredits } from '../utils/credits';
+
+const PAGE_SIZE = 50;
+const EXPORT_PAGE_SIZE = 500;
+
+const RANGES = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+const MODALITY_COLORS: Record<UsageModality, string> = {
+  chat: 'bg-blue-500',
+  audio: 'bg-purple-500',
+  image: 'bg-pink-500',
+  avatar: 'bg-amber-500',
+};
+
+const MODEL_COLORS = ['bg-blue-500', 'bg-emerald-500', 'bg-purple-500', 'bg-amber-500', 'bg-pink-500', 'bg-cyan-500', 'bg-slate-500'];
+
+type UsageKey = readonly ['/billing/usage', UsageQuery];
+
+export default function UsagePage() {
+  const [rangeDays, setRangeDays] = useState(30);
+  const [modality, setModality] = useState<UsageModality | ''>('');
+  const [granularity, setGranularity] = useState<UsageGranularity>('day');
+  const [grouping, setGrouping] = useState<UsageGrouping>('modality');
+  const [isExporting, setIsExporting] = useState(false);
+  // Set by the usage link on the API keys page
+  const [searchParams, setSearchParams] = useSearchParams();
+  const apiKeyId = searchParams.get('api_key');
+  const { data: apiKeys } = useSWR(apiKeyId ? '/api-keys' : null, listApiKeys);
+  const apiKey = apiKeys?.find((k) => k.id === apiKeyId);
+
+  const range = { date_from: daysAgo(rangeDays), date_to: today() };
+  const filters: UsageQuery = { ...range, modality: modality || undefined, api_key_id: apiKeyId ?? undefined };
+
+  // Chart
+  const { data: summary, error: summaryError, isLoading: summaryLoading } = useSWR(
+    ['/billing/usage/summary', filters] as const,
+    ([, params]) => getUsageSummary(params)
+  );
+  const chart = buildUsageChart(summary ?? [], granularity, grouping, range.date_from, range.date_to);
+  const totalSpent = chart.buckets.reduce((sum, b) => sum + b.total, 0);
+  const colorOf = (series: string) =>
+    grouping === 'modality'
+      ? MODALITY_COLORS[series as UsageModality]
+      : MODEL_COLORS[chart.series.indexOf(series) % MODEL_COLORS.length];
+  const labelOf = (series: string) =>
+    grouping === 'modality' ? MODALITY_LABELS[series as UsageModality] : series;
+
+  // Ledger: cursor pagination, each page key carries the previous page's cursor
+  const getKey = (pageIndex: number, previousPage: UsageLedgerPage | null): UsageKey | null => {
+    if (previousPage && !previousPage.next_cursor) return null;
+    return ['/billing/usage', { ...filters, limit: PAGE_SIZE, cursor: pageIndex === 0 ? undefined : previousPage?.next_cursor ?? undefined }];
+  };
+
+  const { data: pages, error: ledgerError, isLoading: ledgerLoading, isValidating, size, setSize } = useSWRInfinite(
+    getKey,
+    ([, params]: UsageKey) => listUsage(params),
+    { revalidateFirstPage: false }
+  );
+
+  const entries = pages?.flatMap((page) => page.items) ?? [];
+  const hasMore = !!pages && !!pages[pages.length - 1]?.next_cursor;
+  const isLoadingMore = isValidating && !!pages && size > pages.length;
+
+  // Walks every page for the current filters, not just the ones on screen
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const all: UsageEntry[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await listUsage({ ...filters, limit: EXPORT_PAGE_SIZE, cursor });
+        all.push(...page.items);
+        cursor = page.next_cursor ?? undefined;
+      } while (cursor);
+
+      downloadFile(usageToCsv(all), `usage-${range.date_from}-to-${range.date_to}.csv`, 'text/csv');
+    } catch (err) {
+      console.error('Usage export failed', err);
+      alert('Failed to export usage. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 sm:p-6 lg:p-8">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 sm:mb-10 animate-in fade-in slide-in-from-top-4 duration-500">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="relative">
+              <div className="absolute inset-0 bg-emerald-500 blur-xl opacity-30 animate-pulse"></div>
+              <ChartBarIcon className="w-8 h-8 sm:w-10 sm:h-10 text-emerald-400 relative z-10" />
+            </div>
+            <h1 className="text-2xl md:text-3xl font-bold text-white">Billing</h1>
+          </div>
+          <p className="text-gray-400 text-sm sm:text-base ml-0 sm:ml-14">
+            See where your credits went
+          </p>
+        </div>
+
+        <BillingTabs />
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <select
+            value={rangeDays}
+            onChange={(e) => setRangeDays(Number(e.target.value))}
+            className="h-9 px-3 bg-[#1a1d26] border border-gray-700/50 rounded-lg text-sm text-gray-300 focus:outline-none focus:border-blue-500/50"
+          >
+            {RANGES.map((r) => (
+              <option key={r.days} value={r.days}>{r.label}</option>
+            ))}
+          </select>
+
+          <select
+            value={modality}
+            onChange={(e) => setModality(e.target.value as UsageModality | '')}
+            className="h-9 px-3 bg-[#1a1d26] border border-gray-700/50 rounded-lg text-sm text-gray-300 focus:outline-none focus:border-blue-500/50"
+          >
+            <option value="">All products</option>
+            {(Object.keys(MODALITY_LABELS) as UsageModality[]).map((m) => (
+              <option key={m} value={m}>{MODALITY_LABELS[m]}</option>
+            ))}
+          </select>
+
+          {apiKeyId && (
+            <span className="flex items-center gap-1.5 h-9 pl-3 pr-1.5 bg-blue-500/10 border border-blue-500/30 rounded-lg text-sm text-blue-300">
+              <KeyIcon className="w-4 h-4" />
+              {apiKey ? apiKey.name : 'API key'}
+              <button
+                onClick={() => setSearchParams({})}
+                className="p-1 rounded hover:bg-blue-500/20 transition-colors"
+                title="Show all usage"
+              >
+                <XMarkIcon className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting || entries.length === 0}
+            className="ml-auto flex items-center gap-1.5 h-9 px-3 bg-[#1a1d26] hover:bg-[#1f2229] text-gray-300 rounded-lg border border-gray-700/50 hover:border-blue-500/50 text-xs font-semibold transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <ArrowDownTrayIcon className={`w-4 h-4 ${isExporting ? 'animate-bounce' : ''}`} />
+            {isExporting ? 'Exporting...' : 'Export CSV'}
+          </button>
+        </div>
+
+        {/* Chart */}
+        <div className="mb-8 bg-slate-900/50 border border-slate-800 rounded-2xl p-5 sm:p-6">
+          <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+            <div>
+              <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">Spent</p>
+              <p className="text-2xl font-bold text-white font-mono">
+                {formatCredits(totalSpent)} <span className="text-sm font-normal text-gray-500">credits</span>
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Toggle
+                options={[{ value: 'day', label: 'Daily' }, { value: 'week', label: 'Weekly' }]}
+                value={granularity}
+                onChange={setGranularity}
+              />
+              <Toggle
+                options={[{ value: 'modality', label: 'Product' }, { value: 'model', label: 'Model' }]}
+                value={grouping}
+                onChange={setGrouping}
+              />
+            </div>
+          </div>
+
+          {summaryLoading ? (
+            <div className="h-48 rounded-xl bg-slate-800/40 animate-pulse" />
+          ) : summaryError ? (
+            <p className="h-48 flex items-center justify-center gap-2 text-sm text-gray-400">
+              <ExclamationTriangleIcon className="w-5 h-5 text-amber-400" />
+              Usage totals could not be loaded.
+            </p>
+          ) : (
+            <>
+              <UsageChart buckets={chart.buckets} series={chart.series} colorOf={colorOf} labelOf={labelOf} />
+
+              {/* Legend */}
+              {chart.series.length > 0 && (
+                <div className="flex flex-wrap gap-x-4 gap-y-2 mt-4">
+                  {chart.series.map((series) => (
+                    <span key={series} className="flex items-center gap-1.5 text-xs text-gray-400">
+                      <span className={`w-2.5 h-2.5 rounded-sm ${colorOf(series)}`} />
+                      {labelOf(series)}
+                      <span className="font-mono text-gray-500">{formatCredits(chart.seriesTotals[series])}</span>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Ledger */}
+        <h2 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-3">Transactions</h2>
+        <div className="bg-slate-900/50 border border-slate-800 rounded-2xl overflow-hidden">
+          {ledgerLoading ? (
+            <div className="p-8 flex justify-center">
+              <ArrowPathIcon className="w-6 h-6 text-gray-500 animate-spin" />
+            </div>
+          ) : ledgerError ? (
+            <p className="p-8 text-center text-sm text-gray-400">Transactions could not be loaded.</p>
+          ) : entries.length === 0 ? (
+            <p className="p-8 text-center text-sm text-gray-500">No credits were spent in this period.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase tracking-wider border-b border-slate-800">
+                  <th className="px-4 py-3 font-medium">Date</th>
+                  <th className="px-4 py-3 font-medium">Source</th>
+                  <th className="px-4 py-3 font-medium hidden sm:table-cell">Model</th>
+                  <th className="px-4 py-3 font-medium text-right">Credits</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800/60">
+                {entries.map((entry) => (
+                  <LedgerRow key={entry.id} entry={entry} />
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {hasMore && (
+            <button
+              onClick={() => setSize(size + 1)}
+              disabled={isLoadingMore}
+              className="w-full py-3 border-t border-slate-800 text-sm text-blue-400 hover:text-blue-300 hover:bg-slate-800/30 transition-colors disabled:text-gray-500"
+            >
+              {isLoadingMore ? 'Loading...' : 'Load more'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// SUB-COMPONENTS
+
+function UsageChart({
+  buckets,
+  series,
+  colorOf,
+  labelOf,
+}: {
+  buckets: UsageBucket[];
+  series: string[];
+  colorOf: (series: string) => string;
+  labelOf: (series: string) => string;
+}) {
+  const max = Math.max(...buckets.map((b) => b.total), 0);
+  // Keep the axis readable however many bars there are
+  const labelEvery = Math.ceil(buckets.length / 8);
+
+  return (
+    <div>
+      <div className="h-48 flex items-end gap-[2px]">
+        {buckets.map((bucket) => (
+          <div
+            key={bucket.start}
+            className="flex-1 h-full flex flex-col-reverse rounded-t overflow-hidden hover:opacity-80 transition-opacity"
+            title={[
+              `${bucket.start}: ${formatCredits(bucket.total)} credits`,
+              ...series
+                .filter((s) => bucket.segments[s])
+                .map((s) => `${labelOf(s)}: ${formatCredits(bucket.segments[s])}`),
+            ].join('\n')}
+          >
+            {max > 0 &&
+              series.map((s) =>
+                bucket.segments[s] ? (
+                  <div key={s} className={colorOf(s)} style={{ height: `${(bucket.segments[s] / max) * 100}%` }} />
+                ) : null
+              )}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-[2px] mt-2">
+        {buckets.map((bucket, i) => (
+          <span key={bucket.start} className="flex-1 text-[10px] text-gray-600 text-center whitespace-nowrap overflow-visible">
+            {i % labelEvery === 0 ? new Date(`${bucket.start}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' }) : ''}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function Toggle<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex bg-[#1a1d26] border border-gray-700/50 rounded-lg p-0.5">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+            value === option.value ? 'bg-slate-700 text-white' : 'text-gray-500 hover:text-gray-300'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// A single debit, linking back to what was billed
+function LedgerRow({ entry }: { entry: UsageEntry }) {
+  let source: { to: string; label: string } | null = null;
+  if (entry.modality === 'chat' && entry.chat_id) {
+    source = {
+      to: `/dashboard/chat/${entry.chat_id}${entry.message_id ? `?message=${entry.message_id}` : ''}`,
+      label: 'Chat message',
+    };
+  } else if (entry.modality !== 'chat' && entry.media_id) {
+    source = { to: resultPath(entry.modality, entry.media_id), label: MODALITY_LABELS[entry.modality] };
+  }
+
+  return (
+    <tr className="text-gray-300 hover:bg-slate-800/20">
+      <td className="px-4 py-3 whitespace-nowrap text-gray-400">
+        {new Date(entry.created_at).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+      </td>
+      <td className="px-4 py-3">
+        <span className={`inline-block w-2 h-2 rounded-full mr-2 ${MODALITY_COLORS[entry.modality]}`} />
+        {source ? (
+          <Link to={source.to} className="text-blue-400 hover:text-blue-300">{source.label}</Link>
+        ) : (
+          <span>{MODALITY_LABELS[entry.modality]}</span>
+        )}
+        {entry.api_key_id && (
+          <span className="ml-2 px-1.5 py-0.5 rounded bg-slate-800 text-[10px] font-semibold uppercase tracking-wider text-gray-400" title="Made with an API key">
+            API
+          </span>
+        )}
+      </td>
+      <td className="px-4 py-3 hidden sm:table-cell text-gray-400 font-mono text-xs">{entry.model ?? '—'}</td>
+      <td className="px-4 py-3 text-right font-mono">−{formatCredits(entry.credits)}</td>
+    </tr>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { isTwoFactorChallenge, resendVerification, verifyEmail } from '../api/auth';
+import { useAuth } from '../context/AuthContext';
+import AuthCard from '../components/AuthCard';
+import AuthField from '../components/AuthField';
+import Loading from '../components/Loading';
+import TwoFactorStep from '../components/TwoFactorStep';
+import { authErrorMessage, validateEmail } from '../utils/authForm';
+
+// Landing page for the link in the verification email
+export default function VerifyEmail() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const { login } = useAuth();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+  // Set when the email is confirmed but the account needs a 2FA code to sign in
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  // Verification tokens are single-use, so never send one twice
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    if (!token || attempted.current) return;
+    attempted.current = true;
+
+    verifyEmail(token)
+      .then((res) => {
+        if (isTwoFactorChallenge(res)) {
+          setChallengeToken(res.challenge_token);
+          return;
+        }
+        login(res.access_token, res.refresh_token);
+        navigate('/dashboard', { replace: true });
+      })
+      .catch((err) => {
+        console.error('Email verification failed', err);
+        setError(authErrorMessage(err, 'verify'));
+      });
+  }, [token, login, navigate]);
+
+  if (challengeToken) {
+    return (
+      <TwoFactorStep
+        challengeToken={challengeToken}
+        onVerified={({ access_token, refresh_token }) => {
+          login(access_token, refresh_token);
+          navigate('/dashboard', { replace: true });
+        }}
+        onCancel={() => navigate('/login', { replace: true })}
+      />
+    );
+  }
+
+  if (token && !error) {
+    return (
+      <AuthCard title="Confirming your email">
+        <div className="flex justify-center py-4">
+          <Loading />
+        </div>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard
+      title="Verification failed"
+      subtitle={error ?? 'This link is missing its verification code.'}
+      footer={
+        <Link to="/login" className="font-semibold text-gray-900 hover:underline">
+          Back to sign in
+        </Link>
+      }
+    >
+      <ResendForm />
+    </AuthCard>
+  );
+}
+
+// SUB-COMPONENTS
+
+function ResendForm() {
+  const [email, setEmail] = useState('');
+  const [emailError, setEmailError] = useState<string | undefined>();
+  const [error, setError] = useState('');
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const invalid = validateEmail(email);
+    setEmailError(invalid);
+    setError('');
+    if (invalid) return;
+
+    setStatus('sending');
+    try {
+      await resendVerification(email.trim());
+      setStatus('sent');
+    } catch (err) {
+      setError(authErrorMessage(err, 'verify'));
+      setStatus('idle');
+    }
+  };
+
+  if (status === 'sent') {
+    return <p className="text-sm text-center text-green-700">We sent a new link to {email.trim()}.</p>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+      <AuthField
+        label="Email"
+        type="email"
+        autoComplete="email"
+        value={email}
+        onChange={(value) => {
+          setEmail(value);
+          setEmailError(undefined);
+        }}
+        error={emailError}
+      />
+      <button
+        type="submit"
+        disabled={status === 'sending'}
+        className="w-full bg-gray-900 text-white p-3 rounded-lg font-semibold hover:bg-gray-800 transition disabled:opacity-60"
+      >
+        {status === 'sending' ? 'Sending…' : 'Send a new link'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,534 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import useSWR from 'swr';
+import {
+  ArrowPathIcon,
+  BuildingOfficeIcon,
+  EnvelopeIcon,
+  PlusIcon,
+  UserGroupIcon,
+  UsersIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import {
+  createWorkspace,
+  inviteMember,
+  leaveWorkspace,
+  listInvites,
+  listMembers,
+  removeMember,
+  renameWorkspace,
+  revokeInvite,
+  updateMember,
+} from '../api/workspaces';
+import { ApiError, errorMessage } from '../api/errors';
+import type { Workspace, WorkspaceMember, WorkspaceMemberUpdate, WorkspaceRole } from '../api/types';
+import { useAuth } from '../context/AuthContext';
+import { useWorkspace } from '../context/WorkspaceContext';
+import DeleteModal from '../components/DeleteModal';
+import SettingsSection from '../components/SettingsSection';
+import { inputClass } from '../components/settingsStyles';
+import SettingsTabs from '../components/SettingsTabs';
+import { validateEmail } from '../utils/authForm';
+import { ROLE_LABELS, canManageMembers } from '../utils/workspace';
+import { formatCredits } from '../utils/credits';
+
+type AssignableRole = Exclude<WorkspaceRole, 'owner'>;
+
+const MAX_NAME_LENGTH = 60;
+
+export default function WorkspacePage() {
+  const { activeWorkspace } = useWorkspace();
+
+  return (
+    <div className="h-full overflow-y-auto p-4 sm:p-6 lg:p-8">
+      <div className="max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 sm:mb-10 animate-in fade-in slide-in-from-top-4 duration-500">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="relative">
+              <div className="absolute inset-0 bg-blue-500 blur-xl opacity-30 animate-pulse"></div>
+              <UserGroupIcon className="w-8 h-8 sm:w-10 sm:h-10 text-blue-400 relative z-10" />
+            </div>
+            <h1 className="text-2xl md:text-3xl font-bold text-white">Settings</h1>
+          </div>
+          <p className="text-gray-400 text-sm sm:text-base ml-0 sm:ml-14">
+            Share a credit wallet with your team and control who can spend it
+          </p>
+        </div>
+
+        <SettingsTabs />
+
+        {/* Remount per workspace so drafts and errors don't carry over */}
+        {activeWorkspace ? <TeamWorkspace key={activeWorkspace.id} workspace={activeWorkspace} /> : <PersonalAccount />}
+      </div>
+    </div>
+  );
+}
+
+// SUB-COMPONENTS
+
+// Shown for the personal account: lists teams and creates new ones
+function PersonalAccount() {
+  const { workspaces, switchWorkspace, refreshWorkspaces } = useWorkspace();
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return setError('Give the workspace a name.');
+    if (trimmed.length > MAX_NAME_LENGTH) return setError(`Keep the name under ${MAX_NAME_LENGTH} characters.`);
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      const workspace = await createWorkspace(trimmed);
+      await refreshWorkspaces();
+      switchWorkspace(workspace.id);
+    } catch (err) {
+      console.error('Creating workspace failed', err);
+      setError(errorMessage(err, 'Could not create the workspace.'));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {workspaces.length > 0 && (
+        <SettingsSection icon={BuildingOfficeIcon} title="Your workspaces">
+          <ul className="divide-y divide-slate-800">
+            {workspaces.map((workspace) => (
+              <li key={workspace.id} className="flex items-center gap-4 py-3 first:pt-0 last:pb-0">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-200 truncate">{workspace.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {ROLE_LABELS[workspace.role]} · {workspace.member_count} member{workspace.member_count === 1 ? '' : 's'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => switchWorkspace(workspace.id)}
+                  className="px-3 py-1.5 rounded-lg border border-slate-700 text-xs font-medium text-gray-300 hover:bg-slate-800 transition-colors"
+                >
+                  Switch
+                </button>
+              </li>
+            ))}
+          </ul>
+        </SettingsSection>
+      )}
+
+      <SettingsSection icon={PlusIcon} title="New team workspace">
+        <p className="text-sm text-gray-400 mb-4">
+          A workspace has its own credit wallet. Invite teammates, set what each of them can spend, and bill chats and
+          generations to the team instead of your personal balance.
+        </p>
+        <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-2">
+          <input
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value);
+              setError(null);
+            }}
+            placeholder="e.g. Acme Marketing"
+            className={`flex-1 ${inputClass}`}
+          />
+          <button
+            type="submit"
+            disabled={isCreating}
+            className="flex items-center justify-center gap-2 px-4 h-10 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-semibold text-white transition-colors disabled:opacity-50"
+          >
+            {isCreating && <ArrowPathIcon className="w-4 h-4 animate-spin" />}
+            Create workspace
+          </button>
+        </form>
+        {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+      </SettingsSection>
+    </div>
+  );
+}
+
+function TeamWorkspace({ workspace }: { workspace: Workspace }) {
+  const { user } = useAuth();
+  const { refreshWorkspaces, switchWorkspace } = useWorkspace();
+  const canManage = canManageMembers(workspace.role);
+
+  const {
+    data: members,
+    error: membersError,
+    isLoading: membersLoading,
+    mutate: mutateMembers,
+  } = useSWR(['/workspaces/members', workspace.id] as const, ([, id]) => listMembers(id));
+  const { data: invites, mutate: mutateInvites } = useSWR(
+    canManage ? (['/workspaces/invites', workspace.id] as const) : null,
+    ([, id]) => listInvites(id)
+  );
+
+  const [nameDraft, setNameDraft] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<AssignableRole>('member');
+  const [isInviting, setIsInviting] = useState(false);
+  const [memberToRemove, setMemberToRemove] = useState<WorkspaceMember | null>(null);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [isLeaving, setIsLeaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const handleRename = async () => {
+    const name = nameDraft?.trim();
+    setNameDraft(null);
+    if (!name || name === workspace.name) return;
+    try {
+      await renameWorkspace(workspace.id, name.slice(0, MAX_NAME_LENGTH));
+      await refreshWorkspaces();
+    } catch (err) {
+      console.error('Renaming workspace failed', err);
+      setActionError(errorMessage(err, 'Could not rename the workspace.'));
+    }
+  };
+
+  const handleUpdateMember = async (member: WorkspaceMember, body: WorkspaceMemberUpdate) => {
+    setActionError(null);
+    try {
+      const updated = await updateMember(workspace.id, member.user_id, body);
+      await mutateMembers((prev) => prev?.map((m) => (m.user_id === member.user_id ? updated : m)), false);
+      // The signed-in user's own cap is part of the workspace list
+      if (member.email === user?.email) await refreshWorkspaces();
+    } catch (err) {
+      console.error('Updating member failed', err);
+      setActionError(errorMessage(err, 'Could not update that member.'));
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!memberToRemove) return;
+    setIsRemoving(true);
+    setActionError(null);
+    try {
+      await removeMember(workspace.id, memberToRemove.user_id);
+      await mutateMembers((prev) => prev?.filter((m) => m.user_id !== memberToRemove.user_id), false);
+    } catch (err) {
+      console.error('Removing member failed', err);
+      setActionError(errorMessage(err, 'Could not remove that member.'));
+    } finally {
+      setIsRemoving(false);
+      setMemberToRemove(null);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const invalid = validateEmail(inviteEmail);
+    if (invalid) return setActionError(invalid);
+
+    setIsInviting(true);
+    setActionError(null);
+    try {
+      const invite = await inviteMember(workspace.id, { email: inviteEmail.trim(), role: inviteRole });
+      await mutateInvites((prev) => [invite, ...(prev ?? [])], false);
+      setInviteEmail('');
+    } catch (err) {
+      console.error('Inviting member failed', err);
+      setActionError(
+        err instanceof ApiError && err.status === 409
+          ? 'That person is already a member or has a pending invitation.'
+          : errorMessage(err, 'Could not send the invitation.')
+      );
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevokeInvite = async (inviteId: string) => {
+    setActionError(null);
+    try {
+      await revokeInvite(workspace.id, inviteId);
+      await mutateInvites((prev) => prev?.filter((i) => i.id !== inviteId), false);
+    } catch (err) {
+      console.error('Revoking invitation failed', err);
+      setActionError(errorMessage(err, 'Could not cancel the invitation.'));
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!window.confirm(`Leave ${workspace.name}? You'll lose access to its wallet.`)) return;
+    setIsLeaving(true);
+    setActionError(null);
+    try {
+      await leaveWorkspace(workspace.id);
+      switchWorkspace(null);
+    } catch (err) {
+      console.error('Leaving workspace failed', err);
+      setActionError(errorMessage(err, 'Could not leave the workspace.'));
+      setIsLeaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {actionError && (
+        <p className="p-3 rounded-xl border border-red-500/30 bg-red-500/5 text-sm text-red-300">{actionError}</p>
+      )}
+
+      {/* Overview */}
+      <SettingsSection icon={BuildingOfficeIcon} title="Workspace">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="sm:col-span-1">
+            <p className="text-xs text-gray-500 mb-1">Name</p>
+            {canManage ? (
+              <input
+                value={nameDraft ?? workspace.name}
+                onChange={(e) => setNameDraft(e.target.value)}
+                onBlur={handleRename}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className={inputClass}
+              />
+            ) : (
+              <p className="text-sm text-gray-200">{workspace.name}</p>
+            )}
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Shared wallet</p>
+            <p className="text-lg font-bold text-white font-mono">{formatCredits(Number(workspace.wallet.credits))}</p>
+            <Link to="/dashboard/billing" className="text-xs text-blue-400 hover:text-blue-300">
+              Buy credits for the team
+            </Link>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Your spend this month</p>
+            <p className="text-lg font-bold text-white font-mono">
+              {formatCredits(workspace.spent_this_month)}
+              <span className="ml-1.5 text-xs font-normal text-gray-500">
+                {workspace.spend_cap === null ? 'no cap' : `of ${formatCredits(workspace.spend_cap)}`}
+              </span>
+            </p>
+            <p className="text-xs text-gray-500">{ROLE_LABELS[workspace.role]}</p>
+          </div>
+        </div>
+      </SettingsSection>
+
+      {/* Members */}
+      <SettingsSection icon={UsersIcon} title="Members">
+        {membersLoading ? (
+          <div className="flex justify-center py-6">
+            <ArrowPathIcon className="w-5 h-5 text-gray-500 animate-spin" />
+          </div>
+        ) : membersError ? (
+          <p className="text-sm text-red-400">Could not load the members.</p>
+        ) : (
+          <ul className="divide-y divide-slate-800">
+            {(members ?? []).map((member) => (
+              <MemberRow
+                key={member.user_id}
+                member={member}
+                isSelf={member.email === user?.email}
+                // Admins manage members; nobody edits the owner
+                canEdit={canManage && member.role !== 'owner'}
+                canChangeRole={workspace.role === 'owner' && member.role !== 'owner'}
+                onUpdate={(body) => handleUpdateMember(member, body)}
+                onRemove={() => setMemberToRemove(member)}
+              />
+            ))}
+          </ul>
+        )}
+      </SettingsSection>
+
+      {/* Invitations */}
+      {canManage && (
+        <SettingsSection icon={EnvelopeIcon} title="Invitations">
+          <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="teammate@company.com"
+              className={`flex-1 ${inputClass}`}
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as AssignableRole)}
+              className={`${inputClass} sm:w-auto`}
+            >
+              <option value="member">{ROLE_LABELS.member}</option>
+              {workspace.role === 'owner' && <option value="admin">{ROLE_LABELS.admin}</option>}
+            </select>
+            <button
+              type="submit"
+              disabled={isInviting}
+              className="flex items-center justify-center gap-2 px-4 h-10 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-semibold text-white transition-colors disabled:opacity-50"
+            >
+              {isInviting && <ArrowPathIcon className="w-4 h-4 animate-spin" />}
+              Send invite
+            </button>
+          </form>
+
+          {invites && invites.length > 0 && (
+            <ul className="mt-4 divide-y divide-slate-800">
+              {invites.map((invite) => (
+                <li key={invite.id} className="flex items-center gap-3 py-2.5 last:pb-0">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-300 truncate">{invite.email}</p>
+                    <p className="text-xs text-gray-500">
+                      {ROLE_LABELS[invite.role]} · expires{' '}
+                      {new Date(invite.expires_at).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRevokeInvite(invite.id)}
+                    className="p-1.5 rounded-lg text-gray-500 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                    title="Cancel invitation"
+                  >
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </SettingsSection>
+      )}
+
+      {/* Leave */}
+      {workspace.role !== 'owner' && (
+        <div className="flex justify-end">
+          <button
+            onClick={handleLeave}
+            disabled={isLeaving}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg border border-red-500/40 text-sm font-semibold text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+          >
+            {isLeaving && <ArrowPathIcon className="w-4 h-4 animate-spin" />}
+            Leave workspace
+          </button>
+        </div>
+      )}
+
+      <DeleteModal
+        isOpen={!!memberToRemove}
+        onClose={() => setMemberToRemove(null)}
+        onConfirm={handleRemove}
+        title="Remove member"
+        message={`${memberToRemove?.full_name || memberToRemove?.email} will lose access to ${workspace.name} and its wallet.`}
+        isDeleting={isRemoving}
+      />
+    </div>
+  );
+}
+
+function MemberRow({
+  member,
+  isSelf,
+  canEdit,
+  canChangeRole,
+  onUpdate,
+  onRemove,
+}: {
+  member: WorkspaceMember;
+  isSelf: boolean;
+  canEdit: boolean;
+  canChangeRole: boolean;
+  onUpdate: (body: WorkspaceMemberUpdate) => Promise<void>;
+  onRemove: () => void;
+}) {
+  // Cap input holds text so it can be cleared; blank means uncapped
+  const [capDraft, setCapDraft] = useState<string | null>(null);
+  const [capError, setCapError] = useState<string | null>(null);
+
+  const saveCap = async () => {
+    if (capDraft === null) return;
+    const raw = capDraft.trim();
+    const cap = raw ? Number(raw) : null;
+    if (cap !== null && (!Number.isFinite(cap) || cap < 0)) {
+      setCapError('Enter 0 or more, or leave blank.');
+      return;
+    }
+    setCapDraft(null);
+    setCapError(null);
+    if (cap !== member.spend_cap) await onUpdate({ spend_cap: cap });
+  };
+
+  const ratio = member.spend_cap ? Math.min(1, member.spent_this_month / member.spend_cap) : 0;
+
+  return (
+    <li className="flex flex-col sm:flex-row sm:items-center gap-3 py-3 first:pt-0 last:pb-0">
+      <div className="flex items-center gap-3 flex-1 min-w-0">
+        {member.avatar_url ? (
+          <img src={member.avatar_url} alt="" className="w-8 h-8 rounded-full object-cover" />
+        ) : (
+          <div className="w-8 h-8 rounded-full bg-gradient-to-tr from-purple-500 to-blue-500 flex items-center justify-center text-xs font-bold">
+            {(member.full_name || member.email)[0].toUpperCase()}
+          </div>
+        )}
+        <div className="min-w-0">
+          <p className="text-sm text-gray-200 truncate">
+            {member.full_name || member.email}
+            {isSelf && <span className="ml-1.5 text-xs text-gray-500">(you)</span>}
+          </p>
+          <p className="text-xs text-gray-500 truncate">
+            {member.full_name ? `${member.email} · ` : ''}
+            {formatCredits(member.spent_this_month)} spent this month
+          </p>
+          {member.spend_cap ? (
+            <div className="mt-1 h-1 w-32 rounded-full bg-slate-800 overflow-hidden">
+              <div
+                className={`h-full ${ratio >= 1 ? 'bg-red-500' : 'bg-blue-500'}`}
+                style={{ width: `${ratio * 100}%` }}
+              />
+            </div>
+          ) : null}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        {canChangeRole ? (
+          <select
+            value={member.role}
+            onChange={(e) => onUpdate({ role: e.target.value as AssignableRole })}
+            className="h-8 px-2 bg-slate-950/40 border border-slate-700/60 rounded-lg text-xs text-gray-200 focus:outline-none"
+          >
+            <option value="member">{ROLE_LABELS.member}</option>
+            <option value="admin">{ROLE_LABELS.admin}</option>
+          </select>
+        ) : (
+          <span className="px-2 text-xs text-gray-400">{ROLE_LABELS[member.role]}</span>
+        )}
+
+        {canEdit ? (
+          <div className="relative" title={capError ?? 'Monthly spend cap'}>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              inputMode="decimal"
+              value={capDraft ?? member.spend_cap?.toString() ?? ''}
+              onChange={(e) => {
+                setCapDraft(e.target.value);
+                setCapError(null);
+              }}
+              onBlur={saveCap}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              placeholder="No cap"
+              className={`w-28 h-8 pl-2 pr-12 bg-slate-950/40 border rounded-lg text-xs text-gray-200 placeholder-gray-600 focus:outline-none ${
+                capError ? 'border-red-500/60' : 'border-slate-700/60'
+              }`}
+            />
+            <span className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-gray-500">/ month</span>
+          </div>
+        ) : (
+          member.spend_cap !== null && (
+            <span className="text-xs text-gray-500">Cap {formatCredits(member.spend_cap)}</span>
+          )
+        )}
+
+        {canEdit && !isSelf && (
+          <button
+            onClick={onRemove}
+            className="p-1.5 rounded-lg text-gray-500 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+            title="Remove from workspace"
+          >
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,69 @@
+import { ApiError, fieldErrors } from "../api/errors";
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export type AuthAction = "login" | "twoFactor" | "register" | "verify" | "reset";
+
+export type AuthFieldErrors = Partial<Record<"full_name" | "email" | "password" | "confirm", string>>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function validateEmail(email: string): string | undefined {
+  if (!email.trim()) return "Enter your email address.";
+  if (!EMAIL_PATTERN.test(email.trim())) return "Enter a valid email address.";
+}
+
+// Mirrors the backend's rules so most mistakes are caught before submitting
+export function validateNewPassword(password: string): string | undefined {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Use at least ${MIN_PASSWORD_LENGTH} characters.`;
+  }
+  if (!/[a-zA-Z]/.test(password) || !/\d/.test(password)) {
+    return "Use at least one letter and one number.";
+  }
+}
+
+export const hasErrors = (errors: AuthFieldErrors) => Object.values(errors).some(Boolean);
+
+// Server messages worth showing as-is, by status, for each form
+const STATUS_MESSAGES: Record<AuthAction, Partial<Record<number, string>>> = {
+  login: {
+    401: "Incorrect email or password.",
+    403: "Confirm your email address before signing in.",
+  },
+  twoFactor: {
+    400: "That code didn't work. Check your authenticator app and try again.",
+    401: "That code didn't work. Check your authenticator app and try again.",
+    410: "This sign-in expired. Start again with your email and password.",
+  },
+  register: {
+    409: "An account with this email already exists.",
+  },
+  verify: {
+    400: "This verification link is invalid or has expired.",
+    404: "This verification link is invalid or has expired.",
+    409: "This email address is already confirmed. You can sign in.",
+  },
+  reset: {
+    400: "This reset link is invalid or has expired.",
+    404: "This reset link is invalid or has expired.",
+  },
+};
+
+// A form-level message for a failed auth request
+export function authErrorMessage(error: unknown, action: AuthAction): string {
+  if (!(error instanceof ApiError)) return "Something went wrong. Please try again.";
+  if (error.isNetworkError) return "Can't reach the server. Check your connection and try again.";
+
+  const status = error.status ?? 0;
+  const known = STATUS_MESSAGES[action][status];
+  if (known) return known;
+  if (status === 422) return "Please fix the highlighted fields.";
+  if (status === 429) return "Too many attempts. Wait a minute and try again.";
+  if (status >= 500) return "Something went wrong on our side. Please try again.";
+  return error.message;
+}
+
+// Field messages from a 422, falling back to none for any other failure
+export const serverFieldErrors = (error: unknown): AuthFieldErrors =>
+  error instanceof ApiError && error.status === 422 ? fieldErrors(error) : {};
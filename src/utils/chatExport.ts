@@ -0,0 +1,248 @@
+import { createElement } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import type {
+  ChatExportFile,
+  ChatExportItem,
+  ChatHistoryMessage,
+  ChatRole,
+} from "../api/types";
+import { downloadFile } from "./download";
+
+export type ExportFormat = "markdown" | "json" | "pdf";
+
+const ROLES: ChatRole[] = ["user", "ai", "system"];
+
+const ROLE_LABELS: Record<ChatRole, string> = {
+  user: "You",
+  ai: "Assistant",
+  system: "System",
+};
+
+// Helpers
+
+const formatDate = (iso: string) => {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString();
+};
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return bytes + " B";
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
+  return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 50) || "conversation";
+
+export const exportFilename = (chats: ChatExportItem[], extension: string) => {
+  const date = new Date().toISOString().slice(0, 10);
+  const base = chats.length === 1 ? slugify(chats[0].title) : `conversations-${chats.length}`;
+  return `${base}-${date}.${extension}`;
+};
+
+// Title for a chat that has none yet: the first line of the first prompt
+export const titleFromMessages = (messages: ChatHistoryMessage[]) => {
+  const first = messages.find((m) => m.role === "user")?.content.trim() ?? "";
+  const line = first.split("\n")[0];
+  return line.length > 60 ? `${line.slice(0, 57)}...` : line || "Untitled Conversation";
+};
+
+// Follow the newest version of each turn; exports show one thread, not every branch
+export function mainThread(messages: ChatHistoryMessage[]) {
+  if (!messages.some((m) => m.parent_id !== undefined)) return messages;
+
+  const thread: ChatHistoryMessage[] = [];
+  let parentId: string | null = null;
+
+  for (;;) {
+    const current: string | null = parentId;
+    const children: ChatHistoryMessage[] = messages.filter((m) => (m.parent_id ?? null) === current);
+    thread.push(...children.filter((m) => m.role === "system"));
+
+    const next: ChatHistoryMessage | undefined = children.filter((m) => m.role !== "system").pop();
+    if (!next?.id) break;
+    thread.push(next);
+    parentId = next.id;
+  }
+
+  return thread;
+}
+
+// Markdown
+
+// Message content is kept verbatim so code fences and $math$ survive
+export function toMarkdown(chats: ChatExportItem[]) {
+  return chats
+    .map((chat) => {
+      const lines = [`# ${chat.title}`, "", `_${formatDate(chat.created_at)}_`, ""];
+
+      for (const msg of mainThread(chat.messages)) {
+        const label = msg.model
+          ? `${ROLE_LABELS[msg.role]} (${msg.model})`
+          : ROLE_LABELS[msg.role];
+        lines.push(`### ${label}`, "", msg.content.trim(), "");
+
+        for (const file of msg.attachments ?? []) {
+          lines.push(`> 📎 ${file.name} (${formatSize(file.size)})`);
+        }
+        if (msg.attachments?.length) lines.push("");
+      }
+
+      return lines.join("\n").trimEnd() + "\n";
+    })
+    .join("\n---\n\n");
+}
+
+// JSON
+
+// The full tree, including alternate versions, so an import is lossless
+export function toJson(chats: ChatExportItem[]) {
+  const file: ChatExportFile = {
+    version: 1,
+    exported_at: new Date().toISOString(),
+    chats,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const isMessage = (value: unknown): value is ChatHistoryMessage => {
+  const m = value as Partial<ChatHistoryMessage> | null;
+  return (
+    !!m &&
+    typeof m.content === "string" &&
+    ROLES.includes(m.role as ChatRole) &&
+    typeof m.created_at === "string"
+  );
+};
+
+// Accepts a file written by toJson, or a single exported chat
+export function parseChatImport(text: string): ChatExportItem[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  const file = data as Partial<ChatExportFile> & Partial<ChatExportItem>;
+  const chats = Array.isArray(file.chats) ? file.chats : Array.isArray(file.messages) ? [file] : null;
+  if (!chats || chats.length === 0) {
+    throw new Error("No conversations found in the file.");
+  }
+
+  return chats.map((chat, index) => {
+    const messages = Array.isArray(chat.messages) ? chat.messages : [];
+    if (messages.length === 0 || !messages.every(isMessage)) {
+      throw new Error(`Conversation ${index + 1} has missing or malformed messages.`);
+    }
+    return {
+      title: typeof chat.title === "string" && chat.title ? chat.title : titleFromMessages(messages),
+      created_at: typeof chat.created_at === "string" ? chat.created_at : messages[0].created_at,
+      messages,
+    };
+  });
+}
+
+// PDF
+
+const PRINT_CSS = `
+  html, body { background: #fff !important; color: #111827 !important; }
+  body { font: 14px/1.6 system-ui, sans-serif; max-width: 760px; margin: 0 auto; padding: 24px; }
+  h1 { font-size: 22px; font-weight: 700; margin: 0 0 4px; }
+  h2, h3, h4 { font-weight: 600; margin: 16px 0 8px; }
+  .chat { page-break-after: always; }
+  .chat:last-child { page-break-after: auto; }
+  .date { color: #6b7280; font-size: 12px; margin-bottom: 20px; }
+  .msg { border-top: 1px solid #e5e7eb; padding: 12px 0; page-break-inside: avoid; }
+  .role { font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: .05em; color: #4b5563; margin-bottom: 6px; }
+  .msg.user .role { color: #2563eb; }
+  .msg.system { color: #92400e; font-style: italic; }
+  .msg p { margin: 0 0 8px; }
+  .msg ul { list-style: disc; padding-left: 24px; margin: 0 0 8px; }
+  .msg ol { list-style: decimal; padding-left: 24px; margin: 0 0 8px; }
+  pre { background: #f3f4f6; border-radius: 6px; padding: 10px; white-space: pre-wrap; word-break: break-word; font-size: 12px; }
+  code { font-family: ui-monospace, monospace; background: #f3f4f6; border-radius: 4px; padding: 0 3px; }
+  table { border-collapse: collapse; margin: 8px 0; }
+  th, td { border: 1px solid #d1d5db; padding: 4px 8px; }
+  .attachments { color: #6b7280; font-size: 12px; }
+`;
+
+const renderMessageHtml = async (content: string) => {
+  const { renderToStaticMarkup } = await import("react-dom/server");
+  return renderToStaticMarkup(
+    createElement(
+      ReactMarkdown,
+      { remarkPlugins: [remarkGfm, remarkMath], rehypePlugins: [rehypeKatex] },
+      content
+    )
+  );
+};
+
+// Opens the browser print dialog, where "Save as PDF" produces the file
+export async function printChats(chats: ChatExportItem[]) {
+  const sections: string[] = [];
+
+  for (const chat of chats) {
+    const messages: string[] = [];
+    for (const msg of mainThread(chat.messages)) {
+      const label = msg.model ? `${ROLE_LABELS[msg.role]} · ${msg.model}` : ROLE_LABELS[msg.role];
+      const attachments = (msg.attachments ?? [])
+        .map((f) => `📎 ${escapeHtml(f.name)} (${formatSize(f.size)})`)
+        .join("<br>");
+      messages.push(
+        `<div class="msg ${msg.role}"><div class="role">${escapeHtml(label)}</div>` +
+          (msg.role === "ai" ? await renderMessageHtml(msg.content) : `<p>${escapeHtml(msg.content).replace(/\n/g, "<br>")}</p>`) +
+          (attachments ? `<div class="attachments">${attachments}</div>` : "") +
+          `</div>`
+      );
+    }
+    sections.push(
+      `<section class="chat"><h1>${escapeHtml(chat.title)}</h1>` +
+        `<div class="date">${escapeHtml(formatDate(chat.created_at))}</div>${messages.join("")}</section>`
+    );
+  }
+
+  // Reuse the app's stylesheets so KaTeX renders, then override the dark theme
+  const styles = Array.from(document.querySelectorAll('style, link[rel="stylesheet"]'))
+    .map((node) => node.outerHTML)
+    .join("");
+  const title = chats.length === 1 ? chats[0].title : `${chats.length} conversations`;
+
+  const iframe = document.createElement("iframe");
+  iframe.style.cssText = "position:fixed;right:0;bottom:0;width:0;height:0;border:0;";
+  iframe.srcdoc = `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>${styles}<style>${PRINT_CSS}</style></head><body>${sections.join("")}</body></html>`;
+  iframe.onload = () => {
+    const win = iframe.contentWindow;
+    if (!win) return;
+    win.onafterprint = () => iframe.remove();
+    win.focus();
+    win.print();
+  };
+  document.body.appendChild(iframe);
+}
+
+// Downloads
+
+export async function exportChats(chats: ChatExportItem[], format: ExportFormat) {
+  if (format === "markdown") {
+    downloadFile(toMarkdown(chats), exportFilename(chats, "md"), "text/markdown");
+  } else if (format === "json") {
+    downloadFile(toJson(chats), exportFilename(chats, "json"), "application/json");
+  } else {
+    await printChats(chats);
+  }
+}
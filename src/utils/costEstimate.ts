@@ -0,0 +1,87 @@
+import type { CatalogModel, CatalogVoice } from "../api/types";
+
+// Rough conversions for showing a cost before anything is sent; the backend
+// bills what was actually used
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_IMAGE = 1000;
+const EXPECTED_REPLY_TOKENS = 600;
+
+export interface CostEstimate {
+  // Likely total, including a typical reply for chat
+  credits: number;
+  // What the request costs at the very least (the prompt alone, for chat)
+  minimum: number;
+}
+
+export type BalanceStatus = "ok" | "low" | "insufficient";
+
+const tokensForText = (chars: number) => Math.ceil(chars / CHARS_PER_TOKEN);
+
+// Images are billed as a flat token count; other files roughly by their size
+const tokensForFile = (file: File) =>
+  file.type.startsWith("image/") ? TOKENS_PER_IMAGE : tokensForText(file.size);
+
+interface ChatEstimateInput {
+  text: string;
+  // Characters of earlier messages sent along as context
+  historyChars: number;
+  files: File[];
+}
+
+// Summed over every model the message goes to (several in compare mode)
+export function estimateChatCost(
+  models: (CatalogModel | undefined)[],
+  { text, historyChars, files }: ChatEstimateInput
+): CostEstimate | null {
+  const promptTokens =
+    tokensForText(text.length + historyChars) +
+    files.reduce((sum, file) => sum + tokensForFile(file), 0);
+
+  let credits = 0;
+  let minimum = 0;
+  for (const model of models) {
+    const price = model?.price;
+    if (price?.input_per_1k === undefined) return null;
+    // Context beyond the model's window is dropped before billing
+    const input = Math.min(promptTokens, model?.capabilities.context_length ?? Infinity);
+    const inputCost = (input / 1000) * price.input_per_1k;
+    minimum += inputCost;
+    credits += inputCost + (EXPECTED_REPLY_TOKENS / 1000) * (price.output_per_1k ?? 0);
+  }
+  return models.length > 0 ? { credits, minimum } : null;
+}
+
+export function estimateSpeechCost(voice: CatalogVoice | undefined, text: string): CostEstimate | null {
+  const perThousand = voice?.price.input_per_1k;
+  if (perThousand === undefined) return null;
+  const credits = (text.length / 1000) * perThousand;
+  return { credits, minimum: credits };
+}
+
+// `options` are the chosen option values, e.g. ["hd", "1024x1792"]
+export function estimateImageCost(model: CatalogModel | undefined, options: string[]): CostEstimate | null {
+  const perItem = model?.price.per_item;
+  if (perItem === undefined) return null;
+  const credits = options.reduce((total, option) => total * (model?.price.multipliers?.[option] ?? 1), perItem);
+  return { credits, minimum: credits };
+}
+
+// The video itself plus the voice reading the script
+export function estimateAvatarCost(
+  model: CatalogModel | undefined,
+  voice: CatalogVoice | undefined,
+  script: string
+): CostEstimate | null {
+  const perItem = model?.price.per_item;
+  if (perItem === undefined) return null;
+  const credits = perItem + (estimateSpeechCost(voice, script)?.credits ?? 0);
+  return { credits, minimum: credits };
+}
+
+// `credits` is null while the wallet is unknown; nothing is blocked then
+export function balanceStatus(estimate: CostEstimate | null, credits: number | null): BalanceStatus {
+  if (!estimate || credits === null) return "ok";
+  if (estimate.minimum > credits) return "insufficient";
+  if (estimate.credits > credits) return "low";
+  return "ok";
+}
@@ -0,0 +1,6 @@
+// Credit amounts with up to two decimals, e.g. "1,250.5"; fractions of a cent
+// (per-token prices, tiny estimates) keep two significant digits instead
+export const formatCredits = (value: number) =>
+  value > 0 && value < 0.01
+    ? value.toLocaleString(undefined, { maximumSignificantDigits: 2 })
+    : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
@@ -0,0 +1,125 @@
+import type { CatalogModel, GenerationParams, ReasoningEffort } from "../api/types";
+
+export const REASONING_EFFORTS: ReasoningEffort[] = ["minimal", "low", "medium", "high"];
+
+// Starting values when a control is switched on
+export const PARAM_DEFAULTS = {
+  temperature: 0.7,
+  top_p: 1,
+  max_tokens: 2048,
+  reasoning_effort: "medium",
+} satisfies Required<GenerationParams>;
+
+// What can be sent to every one of a set of models
+export interface ParamSupport {
+  temperature: [number, number] | null;
+  topP: boolean;
+  maxTokens: number | null;
+  reasoningEfforts: ReasoningEffort[];
+}
+
+// Before any model is known: only the fixed bounds apply
+const ANY_SUPPORT: ParamSupport = {
+  temperature: [0, Infinity],
+  topP: true,
+  maxTokens: Infinity,
+  reasoningEfforts: REASONING_EFFORTS,
+};
+
+const NO_SUPPORT: ParamSupport = {
+  temperature: null,
+  topP: false,
+  maxTokens: null,
+  reasoningEfforts: [],
+};
+
+// Intersect the capabilities of every model a message may go to: the picked
+// model, each compared model, or every model smart routing could choose
+export function supportedParams(models: CatalogModel[]): ParamSupport {
+  if (models.length === 0) return NO_SUPPORT;
+
+  return models.reduce<ParamSupport>(
+    (support, { capabilities: c }) => {
+      const range = c.temperature_range;
+      const low = support.temperature && range ? Math.max(support.temperature[0], range[0]) : null;
+      const high = support.temperature && range ? Math.min(support.temperature[1], range[1]) : null;
+      return {
+        temperature: low !== null && high !== null && low <= high ? [low, high] : null,
+        topP: support.topP && !!c.top_p,
+        maxTokens:
+          support.maxTokens !== null && c.max_output_tokens
+            ? Math.min(support.maxTokens, c.max_output_tokens)
+            : null,
+        reasoningEfforts: support.reasoningEfforts.filter((e) => c.reasoning_efforts?.includes(e)),
+      };
+    },
+    ANY_SUPPORT
+  );
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Drop what the models don't accept and pull the rest into range
+export function sanitizeParams(params: GenerationParams, support: ParamSupport): GenerationParams {
+  const result: GenerationParams = {};
+  if (params.temperature !== undefined && support.temperature) {
+    result.temperature = clamp(params.temperature, ...support.temperature);
+  }
+  if (params.top_p !== undefined && support.topP) {
+    result.top_p = clamp(params.top_p, 0, 1);
+  }
+  if (params.max_tokens !== undefined && support.maxTokens) {
+    result.max_tokens = clamp(Math.round(params.max_tokens), 1, support.maxTokens);
+  }
+  if (params.reasoning_effort && support.reasoningEfforts.includes(params.reasoning_effort)) {
+    result.reasoning_effort = params.reasoning_effort;
+  }
+  return result;
+}
+
+// Per-field notes for values that won't be sent as set
+export function paramWarnings(params: GenerationParams, support: ParamSupport) {
+  const warnings: Partial<Record<keyof GenerationParams, string>> = {};
+  const sent = sanitizeParams(params, support);
+
+  (Object.keys(params) as (keyof GenerationParams)[]).forEach((key) => {
+    if (params[key] === undefined) return;
+    if (sent[key] === undefined) warnings[key] = "Not supported by the selected model; it won't be sent.";
+    else if (sent[key] !== params[key]) warnings[key] = `Limited to ${sent[key]?.toLocaleString()} for the selected model.`;
+  });
+  return warnings;
+}
+
+// Settings saved by an earlier visit; anything malformed is dropped
+export function parseStoredParams(stored: string | null): GenerationParams {
+  try {
+    const value: unknown = JSON.parse(stored ?? "{}");
+    if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+    const { temperature, top_p, max_tokens, reasoning_effort } = value as Record<string, unknown>;
+    const isNumber = (n: unknown): n is number => typeof n === "number" && Number.isFinite(n);
+    return sanitizeParams(
+      {
+        temperature: isNumber(temperature) ? temperature : undefined,
+        top_p: isNumber(top_p) ? top_p : undefined,
+        max_tokens: isNumber(max_tokens) ? max_tokens : undefined,
+        reasoning_effort: REASONING_EFFORTS.find((e) => e === reasoning_effort),
+      },
+      ANY_SUPPORT
+    );
+  } catch {
+    return {};
+  }
+}
+
+export const hasParams = (params: GenerationParams | null | undefined) =>
+  !!params && Object.values(params).some((v) => v !== undefined);
+
+// Short labels for a reply's metadata, e.g. ["temp 0.7", "max 2,048"]
+export function describeParams(params: GenerationParams) {
+  const parts: string[] = [];
+  if (params.temperature !== undefined) parts.push(`temp ${params.temperature}`);
+  if (params.top_p !== undefined) parts.push(`top-p ${params.top_p}`);
+  if (params.max_tokens !== undefined) parts.push(`max ${params.max_tokens.toLocaleString()}`);
+  if (params.reasoning_effort) parts.push(`${params.reasoning_effort} effort`);
+  return parts;
+}
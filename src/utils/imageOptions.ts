@@ -0,0 +1,37 @@
+// Quality and size choices offered for image generation
+
+export interface ImageOption {
+  id: string;
+  name: string;
+  value: string;
+}
+
+export const GPT_QUALITIES: ImageOption[] = [
+  { id: "low", name: "Low", value: "low" },
+  { id: "medium", name: "Medium", value: "medium" },
+  { id: "high", name: "High", value: "high" },
+];
+
+export const DALLE_QUALITIES: ImageOption[] = [
+  { id: "standard", name: "Standard", value: "standard" },
+  { id: "hd", name: "HD Quality", value: "hd" },
+];
+
+export const SIZES: ImageOption[] = [
+  { id: "1024x1024", name: "Square (1024x1024)", value: "1024x1024" },
+  { id: "1024x1792", name: "Portrait (1024x1792)", value: "1024x1792" },
+  { id: "1792x1024", name: "Landscape (1792x1024)", value: "1792x1024" },
+];
+
+// DALL·E models take their own quality names
+export const qualitiesFor = (modelId: string) =>
+  modelId.startsWith("dall-e") ? DALLE_QUALITIES : GPT_QUALITIES;
+
+// The preferred quality when the model offers it, otherwise the model's usual default
+export const pickQuality = (modelId: string, preferred: string | null) => {
+  const qualities = qualitiesFor(modelId);
+  return (
+    qualities.find((q) => q.value === preferred) ??
+    (qualities === DALLE_QUALITIES ? DALLE_QUALITIES[0] : GPT_QUALITIES[1])
+  );
+};
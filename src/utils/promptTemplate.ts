@@ -0,0 +1,43 @@
+import type { PromptTemplate } from "../api/types";
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export const COMMAND_PATTERN = /^[a-z0-9-]+$/;
+
+// "Summarize Notes!" -> "summarize-notes"
+export const toCommand = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// Variable names in order of first use, without duplicates
+export function templateVariables(body: string) {
+  const names = Array.from(body.matchAll(VARIABLE_PATTERN), (m) => m[1]);
+  return Array.from(new Set(names));
+}
+
+// Unfilled variables are left in place so they are easy to spot. Only own
+// keys count, so names like {{constructor}} don't pick up Object.prototype
+export const fillTemplate = (body: string, values: Record<string, string>) =>
+  body.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.hasOwn(values, name) && values[name].trim() ? values[name] : placeholder
+  );
+
+// "{{project_name}}" reads better as "Project name" in a form
+export const variableLabel = (name: string) => {
+  const words = name.replace(/[_-]+/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Command matches first, then title matches; both alphabetical
+export function matchPrompts(prompts: PromptTemplate[], query: string) {
+  const q = query.toLowerCase();
+  const byCommand = prompts.filter((p) => p.command.startsWith(q));
+  const byTitle = prompts.filter(
+    (p) => !p.command.startsWith(q) && p.title.toLowerCase().includes(q)
+  );
+  const sort = (list: PromptTemplate[]) =>
+    [...list].sort((a, b) => a.command.localeCompare(b.command));
+  return [...sort(byCommand), ...sort(byTitle)];
+}
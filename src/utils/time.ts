@@ -0,0 +1,17 @@
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Coarse relative time, e.g. "just now", "5 minutes ago", "3 days ago"
+export function timeAgo(iso: string) {
+  const elapsed = Date.now() - new Date(iso).getTime();
+  if (elapsed < MINUTE) return "just now";
+
+  const rtf = new Intl.RelativeTimeFormat(undefined, { numeric: "auto" });
+  if (elapsed < HOUR) return rtf.format(-Math.floor(elapsed / MINUTE), "minute");
+  if (elapsed < DAY) return rtf.format(-Math.floor(elapsed / HOUR), "hour");
+  return rtf.format(-Math.floor(elapsed / DAY), "day");
+}
+
+// Minutes since `iso`
+export const minutesSince = (iso: string) => Math.floor((Date.now() - new Date(iso).getTime()) / MINUTE);
@@ -0,0 +1,89 @@
+import type { UsageDailyTotal, UsageEntry, UsageModality } from "../api/types";
+
+export type UsageGranularity = "day" | "week";
+export type UsageGrouping = "modality" | "model";
+
+export const MODALITY_LABELS: Record<UsageModality, string> = {
+  chat: "Chat",
+  audio: "Voice",
+  image: "Images",
+  avatar: "Avatars",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are handled as UTC calendar days, the way the ledger reports them
+const parseDay = (date: string) => new Date(`${date.slice(0, 10)}T00:00:00Z`);
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// ISO date `days` days before today, inclusive of today
+export const daysAgo = (days: number) => formatDay(new Date(Date.now() - (days - 1) * DAY_MS));
+
+export const today = () => formatDay(new Date());
+
+// Weeks start on Monday
+const weekStart = (date: Date) => new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+
+const bucketOf = (date: string, granularity: UsageGranularity) =>
+  granularity === "day" ? date.slice(0, 10) : formatDay(weekStart(parseDay(date)));
+
+export interface UsageBucket {
+  start: string;
+  total: number;
+  // Credits per series (modality or model)
+  segments: Record<string, number>;
+}
+
+// Daily totals folded into evenly spaced buckets across [from, to], empty ones included
+export function buildUsageChart(
+  rows: UsageDailyTotal[],
+  granularity: UsageGranularity,
+  grouping: UsageGrouping,
+  from: string,
+  to: string
+) {
+  const buckets = new Map<string, UsageBucket>();
+  const step = granularity === "day" ? DAY_MS : 7 * DAY_MS;
+  for (
+    let time = parseDay(bucketOf(from, granularity)).getTime();
+    time <= parseDay(to).getTime();
+    time += step
+  ) {
+    const start = formatDay(new Date(time));
+    buckets.set(start, { start, total: 0, segments: {} });
+  }
+
+  const seriesTotals: Record<string, number> = {};
+  for (const row of rows) {
+    const bucket = buckets.get(bucketOf(row.date, granularity));
+    if (!bucket) continue;
+    const series = grouping === "modality" ? row.modality : row.model ?? "Other";
+    bucket.segments[series] = (bucket.segments[series] ?? 0) + row.credits;
+    bucket.total += row.credits;
+    seriesTotals[series] = (seriesTotals[series] ?? 0) + row.credits;
+  }
+
+  return {
+    buckets: Array.from(buckets.values()),
+    // Largest first, so colours stay stable while the range is unchanged
+    series: Object.keys(seriesTotals).sort((a, b) => seriesTotals[b] - seriesTotals[a]),
+    seriesTotals,
+  };
+}
+
+// CSV
+
+const csvCell = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function usageToCsv(entries: UsageEntry[]) {
+  const header = ["date", "modality", "model", "credits", "chat_id", "message_id", "media_id", "api_key_id", "entry_id"];
+  const lines = entries.map((e) =>
+    [e.created_at, e.modality, e.model, e.credits, e.chat_id, e.message_id, e.media_id, e.api_key_id, e.id]
+      .map(csvCell)
+      .join(",")
+  );
+  return [header.join(","), ...lines].join("\n") + "\n";
+}
@@ -0,0 +1,10 @@
+import type { WorkspaceRole } from "../api/types";
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+};
+
+// Owners and admins manage members, invites and spend caps
+export const canManageMembers = (role: WorkspaceRole) => role === "owner" || role === "admin";
@@ -1,7 +1,124 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+
+// Local stand-in for the backend's billing endpoints and Stripe's hosted
+// checkout page. Enabled with VITE_BILLING_MOCK=true; never part of a build.
+// Wallet balances are not touched, since those live in the backend.
+function mockBilling(): Plugin {
+  const packs = [
+    { id: 'starter', name: 'Starter', credits: 500, price: 500, currency: 'usd' },
+    { id: 'plus', name: 'Plus', credits: 2000, bonus_credits: 200, price: 1800, currency: 'usd', popular: true },
+    { id: 'pro', name: 'Pro', credits: 6000, bonus_credits: 1000, price: 4500, currency: 'usd' },
+  ]
+  type Session = { id: string; packId: string; successUrl: string; cancelUrl: string; status: 'open' | 'complete' | 'expired' }
+  const sessions = new Map<string, Session>()
+
+  const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.statusCode = status
+    res.setHeader('Content-Type', 'application/json')
+    res.end(JSON.stringify(body))
+  }
+
+  const readBody = async (req: IncomingMessage) => {
+    let raw = ''
+    for await (const chunk of req) raw += chunk
+    return raw
+  }
+
+  const redirect = (res: ServerResponse, url: string) => {
+    res.statusCode = 303
+    res.setHeader('Location', url)
+    res.end()
+  }
+
+  const checkoutPage = (session: Session) => {
+    const pack = packs.find((p) => p.id === session.packId)!
+    return `<!doctype html><html><head><meta charset="utf-8"><title>Mock checkout</title></head>
+<body style="font-family:system-ui;background:#f6f9fc;display:flex;justify-content:center;padding-top:80px">
+<form method="post" style="background:#fff;padding:32px;border-radius:12px;box-shadow:0 2px 12px #0001;width:320px">
+<p style="color:#6b7280;margin:0 0 4px">Mock checkout</p>
+<h2 style="margin:0 0 16px">${pack.name} · ${pack.credits + (pack.bonus_credits ?? 0)} credits</h2>
+<p style="font-size:24px;margin:0 0 24px">$${(pack.price / 100).toFixed(2)}</p>
+<button name="action" value="pay" style="width:100%;padding:10px;background:#635bff;color:#fff;border:0;border-radius:6px">Pay</button>
+<button name="action" value="cancel" style="width:100%;padding:10px;margin-top:8px;background:none;border:0;color:#6b7280">Cancel</button>
+</form></body></html>`
+  }
+
+  return {
+    name: 'mock-billing',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use('/__mock/billing', async (req, res, next) => {
+        const url = new URL(req.url ?? '/', 'http://localhost')
+        const [, resource, id] = url.pathname.split('/')
+
+        try {
+          if (resource === 'packs' && req.method === 'GET') {
+            return sendJson(res, 200, packs)
+          }
+
+          if (resource === 'checkout' && !id && req.method === 'POST') {
+            const body = JSON.parse((await readBody(req)) || '{}')
+            if (!packs.some((p) => p.id === body.pack_id)) {
+              return sendJson(res, 422, { detail: 'Unknown credit pack' })
+            }
+            const session: Session = {
+              id: `cs_mock_${Date.now().toString(36)}`,
+              packId: body.pack_id,
+              successUrl: body.success_url,
+              cancelUrl: body.cancel_url,
+              status: 'open',
+            }
+            sessions.set(session.id, session)
+            return sendJson(res, 200, {
+              session_id: session.id,
+              checkout_url: `/__mock/billing/pay/${session.id}`,
+            })
+          }
+
+          if (resource === 'checkout' && id && req.method === 'GET') {
+            const session = sessions.get(id)
+            if (!session) return sendJson(res, 404, { detail: 'Checkout session not found' })
+            const pack = packs.find((p) => p.id === session.packId)!
+            return sendJson(res, 200, {
+              session_id: session.id,
+              status: session.status,
+              credits_added: session.status === 'complete' ? pack.credits + (pack.bonus_credits ?? 0) : null,
+            })
+          }
+
+          // The hosted payment page
+          if (resource === 'pay' && id) {
+            const session = sessions.get(id)
+            if (!session) return sendJson(res, 404, { detail: 'Checkout session not found' })
+            if (req.method === 'GET') {
+              res.setHeader('Content-Type', 'text/html')
+              return res.end(checkoutPage(session))
+            }
+            const action = new URLSearchParams(await readBody(req)).get('action')
+            if (action === 'pay') {
+              session.status = 'complete'
+              return redirect(res, session.successUrl.replace('{CHECKOUT_SESSION_ID}', session.id))
+            }
+            session.status = 'expired'
+            return redirect(res, session.cancelUrl.replace('{CHECKOUT_SESSION_ID}', session.id))
+          }
+        } catch {
+          return sendJson(res, 400, { detail: 'Malformed request' })
+        }
+
+        next()
+      })
+    },
+  }
+}
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd())
+
+  return {
+    plugins: [react(), env.VITE_BILLING_MOCK === 'true' && mockBilling()],
+  }
 })